@@ -10,6 +10,8 @@ const API_BASE = '/api/dashboard';
 // Current state
 let currentView = 'dashboard';
 let currentIntake = null;
+let listeningCallId = null;
+let listenController = null;
 let currentMessage = null;
 let intakesPage = 1;
 let intakesPageSize = 20;
@@ -67,6 +69,12 @@ function switchView(view) {
     case 'tasks':
       loadTasks();
       break;
+    case 'live':
+      loadLiveCalls();
+      break;
+    case 'outbound':
+      loadOutboundCalls();
+      break;
     case 'reports':
       loadReports();
       break;
@@ -100,6 +108,11 @@ function initFilters() {
     loadTasks();
   });
 
+  // Outbound filter
+  document.getElementById('filter-outbound-outcome')?.addEventListener('change', () => {
+    loadOutboundCalls();
+  });
+
   // Messages filters
   document.getElementById('filter-message-status')?.addEventListener('change', () => {
     messagesPage = 1;
@@ -129,6 +142,18 @@ async function loadDashboard() {
     document.getElementById('stat-avg-score').textContent = stats.avgScore ? Math.round(stats.avgScore) : '-';
     document.getElementById('stat-pending-tasks').textContent = stats.pendingTasks || 0;
 
+    // Overflow queue - live session usage, not filtered by date range
+    const overflow = stats.overflow;
+    if (overflow) {
+      document.getElementById('stat-queue-depth').textContent = overflow.queueDepth;
+      document.getElementById('stat-queue-label').textContent = overflow.queueDepth > 0
+        ? `In Queue (longest ${formatWait(overflow.longestWaitSeconds)})`
+        : `In Queue (${overflow.activeSessions}/${overflow.maxSessions || '∞'} sessions)`;
+      document.getElementById('stat-queue-wait').textContent = overflow.averageWaitSeconds !== null
+        ? formatWait(overflow.averageWaitSeconds)
+        : '-';
+    }
+
     // Update score bars - scoreBuckets is an array of {bucket, count}
     const total = stats.totalIntakes || 1;
     const buckets = stats.scoreBuckets || [];
@@ -219,7 +244,7 @@ function renderIntakesList(intakes) {
   tbody.innerHTML = intakes.map(intake => `
     <tr>
       <td>${formatDate(intake.createdAt)}</td>
-      <td>${intake.intakeId}</td>
+      <td>${intake.intakeId}${intake.isPartial ? ' <span class="badge badge-pending">partial</span>' : ''}${intake.language === 'es' ? ' <span class="badge badge-pending">Spanish</span>' : ''}</td>
       <td>${intake.firstName || 'Unknown'} ${intake.lastName || ''}</td>
       <td>${intake.callerPhone || '-'}</td>
       <td>${intake.city || '-'}, ${intake.state || '-'}</td>
@@ -361,6 +386,24 @@ function renderIntakeDetail(intake) {
             <span class="detail-label">Urgent</span>
             <span class="detail-value">${intake.isUrgent ? '<span class="badge badge-urgent">URGENT</span>' : 'No'}</span>
           </div>
+          ${intake.isPartial ? `
+          <div class="detail-row">
+            <span class="detail-label">Partial</span>
+            <span class="detail-value"><span class="badge badge-pending">Call dropped - intake may be incomplete</span></span>
+          </div>
+          ` : ''}
+          ${intake.language === 'es' ? `
+          <div class="detail-row">
+            <span class="detail-label">Language</span>
+            <span class="detail-value"><span class="badge badge-pending">Spanish - assign a bilingual callback</span></span>
+          </div>
+          ` : ''}
+          ${intake.calls && intake.calls.length > 1 ? `
+          <div class="detail-row">
+            <span class="detail-label">Calls</span>
+            <span class="detail-value">${intake.calls.length} (resumed after a dropped call)</span>
+          </div>
+          ` : ''}
         </div>
 
         <div class="detail-section">
@@ -446,10 +489,31 @@ function renderIntakeDetail(intake) {
         <span class="detail-label">Status</span>
         <span class="detail-value"><span class="badge badge-${getStatusClass(intake.status)}">${formatStatus(intake.status)}</span></span>
       </div>
+      ${intake.localRecordingPath ? `
+      <div class="detail-row">
+        <span class="detail-label">Recording</span>
+        <span class="detail-value" id="intake-recording">
+          <button class="btn btn-sm" onclick="loadRecording('${intake.id}')">Load recording</button>
+        </span>
+      </div>
+      ` : ''}
     </div>
   `;
 }
 
+async function loadRecording(id) {
+  const container = document.getElementById('intake-recording');
+
+  try {
+    const response = await fetchAuthorized(`/intakes/${id}/recording`);
+    const blob = await response.blob();
+    container.innerHTML = `<audio controls autoplay src="${URL.createObjectURL(blob)}"></audio>`;
+  } catch (error) {
+    console.error('Failed to load recording:', error);
+    alert('Failed to load recording');
+  }
+}
+
 function openModal() {
   document.getElementById('intake-modal').classList.add('active');
 }
@@ -593,6 +657,283 @@ async function completeTask(id) {
   }
 }
 
+// ============================================
+// LIVE CALLS
+// ============================================
+
+async function loadLiveCalls() {
+  try {
+    const response = await fetchAuthorized('/calls/live');
+    const data = await response.json();
+    renderLiveCalls(data.calls);
+  } catch (error) {
+    console.error('Failed to load live calls:', error);
+  }
+}
+
+function renderLiveCalls(calls) {
+  const tbody = document.getElementById('live-calls-list');
+
+  if (calls.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="6" class="loading">No calls in progress</td></tr>';
+    return;
+  }
+
+  tbody.innerHTML = calls.map(call => `
+    <tr>
+      <td>${formatTime(call.startedAt)} (${Math.floor(call.durationSeconds / 60)}m ${call.durationSeconds % 60}s)</td>
+      <td>${call.callerName || call.callerPhone}${call.direction === 'outbound' ? ' <span class="badge badge-pending">outbound</span>' : ''}</td>
+      <td>${(call.phase || '-').replace(/_/g, ' ')}</td>
+      <td>
+        ${call.flags?.urgent ? '<span class="badge badge-urgent">Urgent</span>' : ''}
+        ${call.flags?.crisisMentioned ? '<span class="badge badge-urgent">Crisis</span>' : ''}
+        ${call.flags?.transferRequested ? '<span class="badge badge-pending">Transfer</span>' : ''}
+      </td>
+      <td>${call.lastTranscript ? `<strong>${call.lastTranscript.role === 'assistant' ? 'AI' : 'Caller'}:</strong> ${truncate(call.lastTranscript.text, 80)}` : '-'}</td>
+      <td>
+        <button class="btn btn-sm btn-primary" onclick="listenToCall('${call.callId}')">Listen</button>
+        <button class="btn btn-sm" onclick="injectCallNote('${call.callId}')">Note</button>
+        <button class="btn btn-sm" onclick="forceCallTransfer('${call.callId}')">Transfer</button>
+        <button class="btn btn-sm btn-danger" onclick="hangupLiveCall('${call.callId}')">Hang Up</button>
+      </td>
+    </tr>
+  `).join('');
+}
+
+async function injectCallNote(callId) {
+  const note = prompt('Note for the AI (it will not be read to the caller):');
+  if (!note) return;
+
+  try {
+    await fetchAuthorized(`/calls/${callId}/note`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ note })
+    });
+  } catch (error) {
+    console.error('Failed to send note:', error);
+    alert('Failed to send note - the call may have ended');
+  }
+}
+
+async function forceCallTransfer(callId) {
+  if (!confirm('Transfer this caller to staff now?')) return;
+
+  try {
+    await fetchAuthorized(`/calls/${callId}/transfer`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    });
+    loadLiveCalls();
+  } catch (error) {
+    console.error('Failed to transfer call:', error);
+    alert('Transfer failed - live transfer may not be available right now');
+  }
+}
+
+async function hangupLiveCall(callId) {
+  if (!confirm('Hang up this call?')) return;
+
+  try {
+    await fetchAuthorized(`/calls/${callId}/hangup`, { method: 'POST' });
+    loadLiveCalls();
+  } catch (error) {
+    console.error('Failed to hang up call:', error);
+    alert('Failed to hang up call');
+  }
+}
+
+// Live monitoring - server-sent events read via fetch so the dashboard key
+// goes in a header (EventSource can't send one)
+async function listenToCall(callId) {
+  closeListenModal();
+
+  listeningCallId = callId;
+  listenController = new AbortController();
+
+  document.getElementById('listen-caller').textContent = callId;
+  document.getElementById('listen-status').textContent = 'Connecting...';
+  document.getElementById('listen-transcript').innerHTML = '';
+  document.getElementById('listen-modal').classList.add('active');
+
+  try {
+    const response = await fetchAuthorized(`/calls/${callId}/events`, {
+      signal: listenController.signal
+    });
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop();
+
+      frames.forEach(frame => {
+        const data = frame.split('\n').find(line => line.startsWith('data: '));
+        if (data) handleLiveEvent(JSON.parse(data.slice(6)));
+      });
+    }
+  } catch (error) {
+    if (error.name !== 'AbortError') {
+      console.error('Live monitor failed:', error);
+      document.getElementById('listen-status').textContent = 'Call is no longer active';
+    }
+  }
+}
+
+function handleLiveEvent(event) {
+  const transcript = document.getElementById('listen-transcript');
+
+  switch (event.type) {
+    case 'snapshot':
+      document.getElementById('listen-caller').textContent = event.callerName || event.callerPhone;
+      renderListenStatus(event);
+      if (event.lastTranscript) {
+        appendListenLine(event.lastTranscript.role, event.lastTranscript.text);
+      }
+      break;
+    case 'transcript':
+      appendListenLine(event.role, event.text, event.inputMethod);
+      break;
+    case 'tool_call':
+      transcript.insertAdjacentHTML('beforeend', `
+        <div class="transcript-line"><em>Recorded: ${event.name.replace(/_/g, ' ')}</em></div>
+      `);
+      transcript.scrollTop = transcript.scrollHeight;
+      break;
+    case 'status':
+      renderListenStatus(event.status);
+      break;
+    case 'ended':
+      document.getElementById('listen-status').textContent = 'Call ended';
+      break;
+  }
+}
+
+function renderListenStatus(status) {
+  const flags = status.flags || {};
+  document.getElementById('listen-status').innerHTML = `
+    <strong>Phase:</strong> ${(status.phase || '-').replace(/_/g, ' ')}
+    ${flags.urgent ? `<span class="badge badge-urgent">Urgent${flags.urgentReason ? `: ${flags.urgentReason}` : ''}</span>` : ''}
+    ${flags.crisisMentioned ? '<span class="badge badge-urgent">Crisis mentioned</span>' : ''}
+    ${flags.transferRequested ? '<span class="badge badge-pending">Transfer requested</span>' : ''}
+  `;
+}
+
+function appendListenLine(role, text, inputMethod) {
+  const transcript = document.getElementById('listen-transcript');
+  transcript.insertAdjacentHTML('beforeend', `
+    <div class="transcript-line ${role}">
+      <strong>${role === 'assistant' ? 'AI' : 'Caller'}:</strong> ${text}${inputMethod === 'keypad' ? ' <span class="badge badge-pending">keypad</span>' : ''}
+    </div>
+  `);
+  transcript.scrollTop = transcript.scrollHeight;
+}
+
+function closeListenModal() {
+  if (listenController) {
+    listenController.abort();
+    listenController = null;
+  }
+  listeningCallId = null;
+  document.getElementById('listen-modal').classList.remove('active');
+}
+
+// ============================================
+// OUTBOUND CALLS
+// ============================================
+
+async function loadOutboundCalls() {
+  const outcome = document.getElementById('filter-outbound-outcome')?.value;
+
+  let params = new URLSearchParams();
+  if (outcome) params.append('outcome', outcome);
+
+  try {
+    const data = await fetchAPI(`/outbound-calls?${params}`);
+    renderOutboundList(data.calls);
+  } catch (error) {
+    console.error('Failed to load outbound calls:', error);
+  }
+}
+
+function renderOutboundList(calls) {
+  const tbody = document.getElementById('outbound-list');
+
+  if (calls.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="7" class="loading">No outbound calls found</td></tr>';
+    return;
+  }
+
+  tbody.innerHTML = calls.map(call => `
+    <tr>
+      <td>${formatDateTime(call.createdAt)}</td>
+      <td>${call.toPhone}</td>
+      <td>${call.purpose.replace(/_/g, ' ')}</td>
+      <td>${call.attempt} of ${call.maxAttempts}</td>
+      <td><span class="badge badge-${getOutboundOutcomeClass(call.outcome)}">${formatOutboundOutcome(call.outcome)}</span></td>
+      <td>${call.retryAt && !call.retryPlaced ? formatDateTime(call.retryAt) : '-'}</td>
+      <td>
+        ${!call.retryPlaced && call.outcome !== 'REACHED_CLIENT' && call.outcome !== 'PENDING' ? `
+          <button class="btn btn-sm" onclick="retryOutboundCall('${call.callId}')">Retry</button>
+        ` : ''}
+      </td>
+    </tr>
+  `).join('');
+}
+
+async function retryOutboundCall(callId) {
+  if (!confirm('Place another call attempt now?')) return;
+
+  try {
+    const response = await fetch(`/api/outbound-call/${callId}/retry`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    loadOutboundCalls();
+  } catch (error) {
+    console.error('Failed to schedule retry:', error);
+    alert('Failed to schedule retry');
+  }
+}
+
+function formatOutboundOutcome(outcome) {
+  const labels = {
+    'PENDING': 'In progress',
+    'REACHED_CLIENT': 'Reached client',
+    'VOICEMAIL_LEFT': 'Voicemail left',
+    'NO_ANSWER': 'No answer',
+    'BUSY': 'Busy',
+    'FAILED': 'Failed',
+    'FAX_DETECTED': 'Fax machine',
+    'CANCELLED': 'Cancelled'
+  };
+  return labels[outcome] || outcome;
+}
+
+function getOutboundOutcomeClass(outcome) {
+  const classes = {
+    'REACHED_CLIENT': 'accepted',
+    'VOICEMAIL_LEFT': 'pending',
+    'NO_ANSWER': 'declined',
+    'BUSY': 'declined',
+    'FAILED': 'declined'
+  };
+  return classes[outcome] || 'pending';
+}
+
 // ============================================
 // MESSAGES
 // ============================================
@@ -662,7 +1003,7 @@ function renderMessagesList(messages) {
     <tr>
       <td>${formatDateTime(msg.createdAt)}</td>
       <td><span class="badge badge-${getPriorityClass(msg.priority)}">${msg.priority}</span></td>
-      <td>${msg.callerName || 'Unknown'}</td>
+      <td>${msg.callerName || 'Unknown'}${msg.language === 'es' ? ' <span class="badge badge-pending">Spanish</span>' : ''}${msg.source === 'ivr_fallback' ? ' <span class="badge badge-pending">AI unavailable</span>' : ''}${msg.recordingUrl ? ' <span class="badge">Voicemail</span>' : ''}</td>
       <td>${msg.callerPhone || '-'}</td>
       <td><span class="badge">${formatCategory(msg.category)}</span></td>
       <td class="purpose-cell">${truncate(msg.purpose, 40)}</td>
@@ -728,6 +1069,30 @@ function renderMessageDetail(msg) {
         <span class="detail-label">Name</span>
         <span class="detail-value">${msg.callerName || 'Unknown'}</span>
       </div>
+      ${msg.language === 'es' ? `
+      <div class="detail-row">
+        <span class="detail-label">Language</span>
+        <span class="detail-value"><span class="badge badge-pending">Spanish - assign a bilingual callback</span></span>
+      </div>
+      ` : ''}
+      ${msg.source === 'ivr_fallback' ? `
+      <div class="detail-row">
+        <span class="detail-label">Taken by</span>
+        <span class="detail-value"><span class="badge badge-pending">Scripted intake - AI unavailable</span></span>
+      </div>
+      ` : ''}
+      ${msg.recordingUrl ? `
+      <div class="detail-row">
+        <span class="detail-label">Message</span>
+        <span class="detail-value"><a href="${msg.recordingUrl}.mp3" target="_blank" rel="noopener">Listen to recording</a>${msg.recordingDuration ? ` (${msg.recordingDuration}s)` : ''}</span>
+      </div>
+      ` : ''}
+      ${msg.transcription ? `
+      <div class="detail-row">
+        <span class="detail-label">Transcription</span>
+        <span class="detail-value">${msg.transcription}</span>
+      </div>
+      ` : ''}
       <div class="detail-row">
         <span class="detail-label">Phone</span>
         <span class="detail-value">${msg.callerPhone || '-'}</span>
@@ -786,7 +1151,7 @@ function renderMessageDetail(msg) {
       <div class="transcript">
         ${msg.transcript.map(t => `
           <div class="transcript-line ${t.role}">
-            <strong>${t.role === 'assistant' ? 'AI' : 'Caller'}:</strong> ${t.text}
+            <strong>${t.role === 'assistant' ? 'AI' : 'Caller'}:</strong> ${t.text ?? t.content}${t.interrupted ? '&hellip; <em>(interrupted)</em>' : ''}${t.inputMethod === 'keypad' ? ' <span class="badge badge-pending">keypad</span>' : ''}
           </div>
         `).join('')}
       </div>
@@ -982,6 +1347,36 @@ async function fetchAPI(endpoint, options = {}) {
   return response.json();
 }
 
+// Sensitive endpoints (recordings, live calls) require the DASHBOARD_API_KEY
+function getDashboardKey() {
+  let key = localStorage.getItem('dashboardKey');
+  if (!key) {
+    key = prompt('Enter the dashboard access key');
+    if (key) localStorage.setItem('dashboardKey', key);
+  }
+  return key || '';
+}
+
+async function fetchAuthorized(endpoint, options = {}) {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: {
+      ...options.headers,
+      'Authorization': `Bearer ${getDashboardKey()}`
+    }
+  });
+
+  if (response.status === 401) {
+    localStorage.removeItem('dashboardKey');
+  }
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  return response;
+}
+
 function refreshCurrentView() {
   switch (currentView) {
     case 'dashboard':
@@ -996,6 +1391,12 @@ function refreshCurrentView() {
     case 'tasks':
       loadTasks();
       break;
+    case 'live':
+      loadLiveCalls();
+      break;
+    case 'outbound':
+      loadOutboundCalls();
+      break;
     case 'reports':
       loadReports();
       break;
@@ -1049,6 +1450,10 @@ function formatDateTime(date) {
   return new Date(date).toLocaleString();
 }
 
+function formatWait(seconds) {
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
 function formatStatus(status) {
   const statusMap = {
     'NEW': 'New',
@@ -0,0 +1,41 @@
+/**
+ * Sign a Twilio Webhook Request (test mode)
+ *
+ * Prints the X-Twilio-Signature header for a local request so webhooks can be
+ * exercised with curl while TWILIO_SIGNATURE_VALIDATION=test.
+ *
+ * The URL must start with PUBLIC_URL - that is the base the server validates against.
+ *
+ * Run: npx tsx scripts/sign-twilio-request.ts <url> [Key=Value ...]
+ *
+ * Example:
+ *   npx tsx scripts/sign-twilio-request.ts http://localhost:3000/twilio/status CallSid=CA123 CallStatus=completed
+ */
+
+import { signTwilioRequest } from '../src/utils/twilioSignature.js'
+
+const [url, ...pairs] = process.argv.slice(2)
+
+if (!url) {
+  console.error('Usage: npx tsx scripts/sign-twilio-request.ts <url> [Key=Value ...]')
+  process.exit(1)
+}
+
+const params: Record<string, string> = {}
+for (const pair of pairs) {
+  const index = pair.indexOf('=')
+  if (index > 0) {
+    params[pair.slice(0, index)] = pair.slice(index + 1)
+  }
+}
+
+const signature = signTwilioRequest(url, params)
+
+console.log(`X-Twilio-Signature: ${signature}\n`)
+console.log('curl example:')
+console.log(`  curl -X POST '${url}' \\`)
+console.log(`    -H 'X-Twilio-Signature: ${signature}' \\`)
+for (const [key, value] of Object.entries(params)) {
+  console.log(`    --data-urlencode '${key}=${value}' \\`)
+}
+console.log('    -s')
@@ -17,6 +17,13 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+const telephonyProvider = optionalEnv('TELEPHONY_PROVIDER', 'twilio') === 'gateway' ? 'gateway' as const : 'twilio' as const;
+
+// Twilio credentials are only required when Twilio carries the calls
+function twilioEnv(name: string): string {
+  return telephonyProvider === 'twilio' ? requireEnv(name) : optionalEnv(name, '');
+}
+
 export const config = {
   server: {
     port: parseInt(optionalEnv('PORT', '3000'), 10),
@@ -26,16 +33,63 @@ export const config = {
   },
 
   twilio: {
-    accountSid: requireEnv('TWILIO_ACCOUNT_SID'),
-    authToken: requireEnv('TWILIO_AUTH_TOKEN'),
-    phoneNumber: requireEnv('TWILIO_PHONE_NUMBER'),
-    messagingServiceSid: optionalEnv('TWILIO_MESSAGING_SERVICE_SID', '')
+    accountSid: twilioEnv('TWILIO_ACCOUNT_SID'),
+    authToken: twilioEnv('TWILIO_AUTH_TOKEN'),
+    phoneNumber: twilioEnv('TWILIO_PHONE_NUMBER'),
+    messagingServiceSid: optionalEnv('TWILIO_MESSAGING_SERVICE_SID', ''),
+    // Webhook signature validation: 'enforce' (real auth token), 'test' (local signing token), or 'off'
+    signatureValidation: optionalEnv('TWILIO_SIGNATURE_VALIDATION', 'enforce') as 'enforce' | 'test' | 'off',
+    // No default - a well-known token would let anyone sign webhooks if test mode reached a deployed server
+    testSigningToken: process.env.TWILIO_SIGNATURE_VALIDATION === 'test'
+      ? requireEnv('TWILIO_TEST_SIGNING_TOKEN')
+      : optionalEnv('TWILIO_TEST_SIGNING_TOKEN', ''),
+    // How long a /media-stream token issued in TwiML stays valid
+    streamTokenTtlSeconds: parseInt(optionalEnv('MEDIA_STREAM_TOKEN_TTL_SECONDS', '120'), 10)
+  },
+
+  // Carrier for SMS and anything not tied to a live media stream: 'twilio' or 'gateway'
+  // (raw-WebSocket / SIP gateway - media on /gateway/media, SMS POSTed to GATEWAY_SMS_URL)
+  telephony: {
+    provider: telephonyProvider,
+    gatewayApiKey: optionalEnv('GATEWAY_API_KEY', ''),
+    gatewaySmsUrl: optionalEnv('GATEWAY_SMS_URL', ''),
+    // Sender number for gateway SMS (falls back to TWILIO_PHONE_NUMBER when both carriers are set up)
+    gatewaySmsFrom: optionalEnv('GATEWAY_SMS_FROM', '') || optionalEnv('TWILIO_PHONE_NUMBER', '')
   },
 
   openai: {
     apiKey: requireEnv('OPENAI_API_KEY'),
     realtimeModel: optionalEnv('OPENAI_REALTIME_MODEL', 'gpt-4o-realtime-preview-2024-12-17'),
-    voice: optionalEnv('OPENAI_VOICE', 'alloy') as 'alloy' | 'echo' | 'shimmer' | 'ash' | 'ballad' | 'coral' | 'sage' | 'verse'
+    voice: optionalEnv('OPENAI_VOICE', 'alloy') as 'alloy' | 'echo' | 'shimmer' | 'ash' | 'ballad' | 'coral' | 'sage' | 'verse',
+    realtimeUrl: optionalEnv('OPENAI_REALTIME_URL', 'wss://api.openai.com/v1/realtime'),
+    // Realtime session audio: 'g711_ulaw' (carrier audio as-is) or 'pcm16' (24kHz, converted here)
+    audioFormat: optionalEnv('OPENAI_AUDIO_FORMAT', 'g711_ulaw') === 'pcm16' ? 'pcm16' as const : 'g711_ulaw' as const,
+    // Reconnect attempts when the realtime socket drops mid-call (0 = hand the caller to the scripted fallback)
+    reconnectMaxAttempts: parseInt(optionalEnv('OPENAI_RECONNECT_MAX_ATTEMPTS', '4'), 10)
+  },
+
+  // Conversation backend: 'realtime' (speech-to-speech) or 'cascaded' (STT -> chat -> TTS)
+  // CONVERSATION_BACKEND_BY_NUMBER overrides it per dialed number, e.g. "+15551234567=cascaded"
+  conversation: {
+    backend: optionalEnv('CONVERSATION_BACKEND', 'realtime') === 'cascaded' ? 'cascaded' as const : 'realtime' as const,
+    backendByNumber: Object.fromEntries(
+      optionalEnv('CONVERSATION_BACKEND_BY_NUMBER', '')
+        .split(',')
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([number, backend]) => number && backend)
+    ) as Record<string, string>,
+    // Cascaded pipeline - any OpenAI-compatible API (transcriptions, chat completions, speech)
+    cascade: {
+      apiBaseUrl: optionalEnv('CASCADE_API_BASE_URL', 'https://api.openai.com/v1'),
+      apiKey: optionalEnv('CASCADE_API_KEY', process.env.OPENAI_API_KEY || ''),
+      sttModel: optionalEnv('CASCADE_STT_MODEL', 'whisper-1'),
+      chatModel: optionalEnv('CASCADE_CHAT_MODEL', 'gpt-4o-mini'),
+      ttsModel: optionalEnv('CASCADE_TTS_MODEL', 'tts-1'),
+      ttsVoice: optionalEnv('CASCADE_TTS_VOICE', process.env.OPENAI_VOICE || 'alloy'),
+      // Speech detection on caller audio: RMS level (0-1) that counts as speech, and silence that ends a turn
+      vadThreshold: parseFloat(optionalEnv('CASCADE_VAD_THRESHOLD', '0.02')),
+      endOfTurnSilenceMs: parseInt(optionalEnv('CASCADE_END_OF_TURN_SILENCE_MS', '1000'), 10)
+    }
   },
 
   firm: {
@@ -44,12 +98,80 @@ export const config = {
     website: optionalEnv('FIRM_WEBSITE', '')
   },
 
+  // Live transfer to staff (request_human_transfer)
+  // TRANSFER_NUMBERS is a comma-separated ring group - all numbers ring at once
+  transfer: {
+    numbers: optionalEnv('TRANSFER_NUMBERS', '').split(',').map(n => n.trim()).filter(Boolean),
+    ringTimeoutSeconds: parseInt(optionalEnv('TRANSFER_RING_TIMEOUT_SECONDS', '25'), 10),
+    callerId: optionalEnv('TRANSFER_CALLER_ID', '')
+  },
+
+  // Spanish-language calls: chosen by dialed number, a language menu, or detected from the first utterance
+  language: {
+    spanishNumbers: optionalEnv('SPANISH_PHONE_NUMBERS', '').split(',').map(n => n.trim()).filter(Boolean),
+    menuEnabled: optionalEnv('ENABLE_LANGUAGE_MENU', 'false') === 'true',
+    detectionEnabled: optionalEnv('ENABLE_LANGUAGE_DETECTION', 'true') === 'true'
+  },
+
+  // Office hours routing - defaults used until the office_hours setting is saved from the dashboard
+  officeHours: {
+    timezone: optionalEnv('OFFICE_TIMEZONE', 'America/New_York'),
+    open: optionalEnv('OFFICE_OPEN', '09:00'),
+    close: optionalEnv('OFFICE_CLOSE', '17:00')
+  },
+
+  // Keypad (DTMF) input during AI calls
+  // DTMF_KEYMAP maps single keys pressed on their own to actions, e.g. "0=transfer,*=repeat"
+  keypad: {
+    enabled: optionalEnv('ENABLE_DTMF_INPUT', 'true') === 'true',
+    keymap: Object.fromEntries(
+      optionalEnv('DTMF_KEYMAP', '0=transfer,*=repeat')
+        .split(',')
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([key, action]) => key && action)
+    ) as Record<string, string>,
+    terminator: optionalEnv('DTMF_TERMINATOR', '#'),
+    interDigitTimeoutMs: parseInt(optionalEnv('DTMF_INTER_DIGIT_TIMEOUT_MS', '3000'), 10)
+  },
+
   callbacks: {
     highPriority: parseInt(optionalEnv('CALLBACK_HIGH_PRIORITY', '24'), 10),
     mediumPriority: parseInt(optionalEnv('CALLBACK_MEDIUM_PRIORITY', '48'), 10),
     lowPriority: parseInt(optionalEnv('CALLBACK_LOW_PRIORITY', '120'), 10)
   },
 
+  outbound: {
+    // Automatic retries for outbound calls that are not answered (no-answer / busy)
+    maxAttempts: parseInt(optionalEnv('OUTBOUND_MAX_ATTEMPTS', '3'), 10),
+    retryDelayMinutes: parseInt(optionalEnv('OUTBOUND_RETRY_DELAY_MINUTES', '60'), 10)
+  },
+
+  // Graceful shutdown (SIGTERM on redeploy): stop taking calls, wait for active ones,
+  // then force-finalize whatever is still connected at the deadline
+  shutdown: {
+    drainTimeoutSeconds: parseInt(optionalEnv('SHUTDOWN_DRAIN_TIMEOUT_SECONDS', '120'), 10)
+  },
+
+  // Realtime session limit - callers over it wait in the overflow queue or take a callback
+  concurrency: {
+    maxSessions: parseInt(optionalEnv('MAX_CONCURRENT_SESSIONS', '20'), 10),  // 0 = unlimited
+    overflowMode: optionalEnv('OVERFLOW_MODE', 'queue') === 'callback' ? 'callback' as const : 'queue' as const,
+    maxQueueWaitSeconds: parseInt(optionalEnv('QUEUE_MAX_WAIT_SECONDS', '300'), 10),
+    holdMusicUrl: optionalEnv('QUEUE_HOLD_MUSIC_URL', 'http://com.twilio.sounds.music.s3.amazonaws.com/MARKOVICHAMSA_-_Clair_de_Lune.mp3')
+  },
+
+  // Crash-safe intakes: sessions are checkpointed to IntakeDraft as the call goes.
+  // Drafts not updated for this long belong to a call that died and are saved as partial intakes
+  intakeDrafts: {
+    staleMinutes: parseInt(optionalEnv('INTAKE_DRAFT_STALE_MINUTES', '5'), 10),
+    maxRecoveryAttempts: parseInt(optionalEnv('INTAKE_DRAFT_MAX_RECOVERY_ATTEMPTS', '3'), 10)
+  },
+
+  // A caller whose intake call dropped can pick up where they left off if they call back within this window
+  intakeResume: {
+    windowMinutes: parseInt(optionalEnv('INTAKE_RESUME_WINDOW_MINUTES', '60'), 10)
+  },
+
   sms: {
     enabled: optionalEnv('ENABLE_SMS_FOLLOWUP', 'true') === 'true',
     confirmationDelay: parseInt(optionalEnv('SMS_CONFIRMATION_DELAY_SECONDS', '30'), 10)
@@ -61,6 +183,12 @@ export const config = {
     savePath: optionalEnv('SAVE_RECORDINGS_PATH', './recordings')
   },
 
+  dashboard: {
+    // Required for sensitive dashboard endpoints (recordings, live calls)
+    // Sent as "Authorization: Bearer <key>" or "X-Dashboard-Key: <key>"
+    apiKey: optionalEnv('DASHBOARD_API_KEY', '')
+  },
+
   scoring: {
     highlyRecommended: parseInt(optionalEnv('SCORE_HIGHLY_RECOMMENDED', '70'), 10),
     recommended: parseInt(optionalEnv('SCORE_RECOMMENDED', '45'), 10),
@@ -78,6 +206,27 @@ export const config = {
     dailyDigestHour: parseInt(optionalEnv('DAILY_DIGEST_HOUR', '8'), 10)
   },
 
+  // Unit prices (USD) for per-call cost accounting - set them to your contracted rates
+  pricing: {
+    realtime: {
+      audioInputPer1M: parseFloat(optionalEnv('PRICE_REALTIME_AUDIO_INPUT_PER_1M', '40')),
+      audioOutputPer1M: parseFloat(optionalEnv('PRICE_REALTIME_AUDIO_OUTPUT_PER_1M', '80')),
+      textInputPer1M: parseFloat(optionalEnv('PRICE_REALTIME_TEXT_INPUT_PER_1M', '5')),
+      textOutputPer1M: parseFloat(optionalEnv('PRICE_REALTIME_TEXT_OUTPUT_PER_1M', '20')),
+      cachedInputPer1M: parseFloat(optionalEnv('PRICE_REALTIME_CACHED_INPUT_PER_1M', '2.5'))
+    },
+    cascade: {
+      inputPer1M: parseFloat(optionalEnv('PRICE_CASCADE_INPUT_PER_1M', '0.15')),
+      outputPer1M: parseFloat(optionalEnv('PRICE_CASCADE_OUTPUT_PER_1M', '0.6')),
+      cachedInputPer1M: parseFloat(optionalEnv('PRICE_CASCADE_CACHED_INPUT_PER_1M', '0.075')),
+      sttPerMinute: parseFloat(optionalEnv('PRICE_CASCADE_STT_PER_MINUTE', '0.006')),
+      ttsPer1MCharacters: parseFloat(optionalEnv('PRICE_CASCADE_TTS_PER_1M_CHARACTERS', '15'))
+    },
+    telephonyPerMinute: parseFloat(optionalEnv('PRICE_TELEPHONY_PER_MINUTE', '0.0085')),
+    smsEach: parseFloat(optionalEnv('PRICE_SMS_EACH', '0.0079')),
+    emailEach: parseFloat(optionalEnv('PRICE_EMAIL_EACH', '0'))
+  },
+
   // Skinny App Integration
   // When enabled, voice intakes are sent to the Skinny App for scoring and storage
   // This provides unified scoring, CMS integrations, and centralized data management
@@ -0,0 +1,194 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+
+// Drives a call end to end over the in-memory provider, against a local
+// stand-in for the OpenAI Realtime API (g711_ulaw, so audio passes through untouched)
+
+const GREETING_AUDIO = Buffer.alloc(160, 0xff).toString('base64');  // 20ms of μ-law silence
+const CALLER_AUDIO = Buffer.alloc(160, 0x7f).toString('base64');
+
+interface FakeRealtimeSession {
+  socket: WebSocket;
+  received: Array<Record<string, any>>;
+  send(event: Record<string, unknown>): void;
+}
+
+let server: WebSocketServer;
+const sessions: FakeRealtimeSession[] = [];
+let responseCount = 0;
+let refuseConnections = false;  // Fail the handshake, as if the API were down
+
+let handleMediaSession: typeof import('./mediaStream.js').handleMediaSession;
+let memoryTelephony: typeof import('../services/memoryTelephony.js').memoryTelephony;
+let activeCalls: typeof import('../services/activeCalls.js').activeCalls;
+let IntakeSession: typeof import('../services/intakeSession.js').IntakeSession;
+
+beforeAll(async () => {
+  server = new WebSocketServer({ port: 0, verifyClient: () => !refuseConnections });
+  server.on('connection', socket => {
+    const session: FakeRealtimeSession = {
+      socket,
+      received: [],
+      send: event => socket.send(JSON.stringify(event))
+    };
+    sessions.push(session);
+
+    socket.on('message', data => {
+      const event = JSON.parse(data.toString());
+      session.received.push(event);
+
+      if (event.type === 'session.update') {
+        session.send({ type: 'session.updated' });
+      } else if (event.type === 'response.create') {
+        const itemId = `item_${++responseCount}`;
+        session.send({ type: 'response.audio.delta', item_id: itemId, delta: GREETING_AUDIO });
+        session.send({ type: 'response.audio.done', item_id: itemId });
+      }
+    });
+  });
+  await new Promise(resolve => server.once('listening', resolve));
+
+  // Config is read once at import - set the environment first
+  Object.assign(process.env, {
+    TWILIO_ACCOUNT_SID: 'ACtest',
+    TWILIO_AUTH_TOKEN: 'test',
+    TWILIO_PHONE_NUMBER: '+15550000000',
+    OPENAI_API_KEY: 'sk-test-key',
+    OPENAI_REALTIME_URL: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    OPENAI_AUDIO_FORMAT: 'g711_ulaw',
+    OPENAI_RECONNECT_MAX_ATTEMPTS: '1',
+    CONVERSATION_BACKEND: 'realtime',
+    ENABLE_DTMF_INPUT: 'true',
+    LOG_LEVEL: 'silent'
+  });
+  delete process.env.DATABASE_URL;
+
+  ({ handleMediaSession } = await import('./mediaStream.js'));
+  ({ memoryTelephony } = await import('../services/memoryTelephony.js'));
+  ({ activeCalls } = await import('../services/activeCalls.js'));
+  ({ IntakeSession } = await import('../services/intakeSession.js'));
+});
+
+afterEach(() => {
+  refuseConnections = false;
+  memoryTelephony.reset();
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  sessions.forEach(session => session.socket.terminate());
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Open a media session and wait for the AI's greeting to reach the caller
+async function startCall(callId: string) {
+  const sessionCount = sessions.length;
+  const socket = memoryTelephony.createSocket();
+  handleMediaSession(socket, { callId, callerPhone: '+15555550123' }, memoryTelephony);
+  socket.start(`MEM_${callId}`);
+
+  await vi.waitFor(() => expect(socket.playedAudio).toHaveLength(1));
+  return { socket, realtime: sessions[sessionCount] };
+}
+
+describe('handleMediaSession over the in-memory provider', () => {
+  it('connects the conversation on start and plays the greeting with a mark per chunk', async () => {
+    const { socket, realtime } = await startCall('MEM_START');
+
+    expect(realtime.received[0].type).toBe('session.update');
+    expect(socket.sent).toEqual([
+      { type: 'audio', payload: GREETING_AUDIO },
+      { type: 'mark', name: 'item_1:20' }
+    ]);
+    expect(activeCalls.get('MEM_START')).not.toBeNull();
+
+    socket.stop();
+  });
+
+  it('forwards caller media to the conversation backend', async () => {
+    const { socket, realtime } = await startCall('MEM_MEDIA');
+
+    socket.sendAudio(CALLER_AUDIO);
+
+    await vi.waitFor(() => expect(realtime.received).toContainEqual({ type: 'input_audio_buffer.append', audio: CALLER_AUDIO }));
+    socket.stop();
+  });
+
+  it('clears playback on barge-in only while marks are still outstanding', async () => {
+    const { socket, realtime } = await startCall('MEM_MARK');
+
+    // Every mark acknowledged - the greeting finished playing, nothing to clear
+    socket.acknowledgeMarks();
+    realtime.send({ type: 'input_audio_buffer.speech_started' });
+    socket.sendAudio(CALLER_AUDIO);
+    await vi.waitFor(() => expect(realtime.received.some(event => event.type === 'input_audio_buffer.append')).toBe(true));
+    expect(socket.sent.some(frame => frame.type === 'clear')).toBe(false);
+
+    // A new response still playing when the caller talks over it
+    realtime.send({ type: 'response.audio.delta', item_id: 'item_playing', delta: GREETING_AUDIO });
+    await vi.waitFor(() => expect(socket.playedAudio).toHaveLength(2));
+    realtime.send({ type: 'input_audio_buffer.speech_started' });
+
+    await vi.waitFor(() => expect(socket.sent).toContainEqual({ type: 'clear' }));
+    socket.stop();
+  });
+
+  it('hands a keypad entry to the conversation when the terminator is pressed', async () => {
+    const { socket, realtime } = await startCall('MEM_DTMF');
+
+    ['1', '2', '3', '4', '#'].forEach(digit => socket.pressKey(digit));
+
+    await vi.waitFor(() => {
+      const texts = realtime.received
+        .filter(event => event.type === 'conversation.item.create')
+        .map(event => event.item.content[0].text);
+      expect(texts).toContainEqual(expect.stringContaining('typed "1234"'));
+    });
+    socket.stop();
+  });
+
+  it('ends the conversation and leaves the live calls list on stop', async () => {
+    const { socket, realtime } = await startCall('MEM_STOP');
+    const closed = new Promise(resolve => realtime.socket.once('close', resolve));
+
+    socket.stop();
+
+    await closed;
+    await vi.waitFor(() => expect(activeCalls.get('MEM_STOP')).toBeNull());
+    expect(memoryTelephony.actions).toEqual([]);
+  });
+
+  it('takes a callback instead of the TwiML fallback when the AI cannot connect', async () => {
+    const finalize = vi.spyOn(IntakeSession.prototype, 'finalize');
+    refuseConnections = true;
+    const socket = memoryTelephony.createSocket();
+    handleMediaSession(socket, { callId: 'MEM_DOWN', callerPhone: '+15555550123' }, memoryTelephony);
+    socket.start('MEM_DOWN');
+
+    await vi.waitFor(() => expect(memoryTelephony.actions).toEqual([{
+      type: 'say_and_hangup',
+      callSid: 'MEM_DOWN',
+      message: expect.stringContaining('will call you back')
+    }]));
+    expect(socket.sent).toContainEqual({ type: 'say_and_hangup', text: expect.stringContaining('will call you back') });
+
+    // Nothing was said to the AI - no intake to save
+    socket.stop();
+    await vi.waitFor(() => expect(activeCalls.get('MEM_DOWN')).toBeNull());
+    expect(finalize).not.toHaveBeenCalled();
+  });
+
+  it('saves the intake as partial when the AI connection is lost and cannot be restored', async () => {
+    const finalize = vi.spyOn(IntakeSession.prototype, 'finalize');
+    const { socket, realtime } = await startCall('MEM_LOST');
+
+    refuseConnections = true;
+    realtime.socket.close();
+
+    await vi.waitFor(() => expect(memoryTelephony.actions).toContainEqual(expect.objectContaining({ type: 'say_and_hangup' })));
+    socket.stop();
+
+    await vi.waitFor(() => expect(finalize).toHaveBeenCalledWith({ partial: true }));
+  });
+});
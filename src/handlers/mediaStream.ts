@@ -1,254 +1,552 @@
 /**
  * HALCYON AI RECEPTIONIST - MEDIA STREAM HANDLER
  *
- * Bridges Twilio Media Streams with OpenAI Realtime API
- * Handles bidirectional audio streaming for real-time voice conversation
+ * Bridges a carrier's media stream with a conversation backend
+ * (OpenAI Realtime, or the cascaded STT -> chat -> TTS pipeline).
+ * Handles bidirectional audio streaming for real-time voice conversation.
+ * The carrier protocol and call control come from a TelephonyProvider
+ * (Twilio Media Streams on /media-stream, the SIP gateway on /gateway/media).
  */
 
-import { WebSocket, RawData } from 'ws';
+import type { WebSocket } from 'ws';
 import type { FastifyRequest } from 'fastify';
 import { createCallLogger } from '../utils/logger.js';
-import { OpenAIRealtimeClient } from '../services/openaiRealtime.js';
+import {
+  createConversationBackend,
+  parseConversationBackend,
+  type ConversationBackend
+} from '../services/conversationBackend.js';
 import { IntakeSession } from '../services/intakeSession.js';
-import { hangupCall } from '../services/twilioService.js';
+import { twilioTelephony } from '../services/twilioTelephony.js';
+import type { TelephonyProvider, MediaSocket } from '../services/telephony.js';
+import { transferService } from '../services/transferService.js';
+import { activeCalls } from '../services/activeCalls.js';
+import type { IntakeMode } from '../services/officeHours.js';
+import type { OutboundCallContext } from '../services/outboundPrompts.js';
+import { CallRecorder } from '../services/callRecorder.js';
+import { CallLatencyTracker, summarizeLatency } from '../services/latencyTracker.js';
+import type { ConversationUsage } from '../services/costAccounting.js';
+import { KeypadInput } from '../services/keypadInput.js';
+import { returningCallers } from '../services/returningCallers.js';
+import { ivrFallback } from '../services/ivrFallback.js';
+import { detectLanguage, parseLanguage } from '../services/language.js';
+import { db } from '../services/database.js';
+import { config } from '../config/index.js';
 
 // Type for fastify-websocket connection
 interface SocketStream {
   socket: WebSocket;
 }
 
-interface TwilioMediaMessage {
-  event: string;
-  sequenceNumber?: string;
-  media?: {
-    track: string;
-    chunk: string;
-    timestamp: string;
-    payload: string; // Base64 encoded audio (mulaw 8kHz)
-  };
-  start?: {
-    streamSid: string;
-    accountSid: string;
-    callSid: string;
-    tracks: string[];
-    customParameters: Record<string, string>;
-  };
-  stop?: {
-    accountSid: string;
-    callSid: string;
-  };
-  mark?: {
-    name: string;
+/**
+ * systemPrompt/notes are URI-encoded by the outbound route before they reach the TwiML URL
+ */
+function decodeParam(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Purpose, prompt and notes for a call we placed - from the stream URL,
+ * falling back to the stored outbound call record
+ */
+async function loadOutboundContext(callId: string, query: Record<string, string>): Promise<OutboundCallContext> {
+  const record = await db.getOutboundCall(callId).catch(() => null);
+
+  return {
+    purpose: query.purpose || record?.purpose || 'follow_up',
+    systemPrompt: decodeParam(query.systemPrompt) || record?.systemPrompt || undefined,
+    notes: decodeParam(query.notes) || record?.notes || undefined,
+    assessmentId: query.assessmentId || record?.assessmentId || undefined
   };
 }
 
+/**
+ * Fastify WebSocket route for Twilio Media Streams
+ */
 export async function mediaStreamHandler(
   connection: WebSocket | SocketStream,
   request: FastifyRequest
 ) {
-  const query = request.query as Record<string, string>;
+  // Handle both direct WebSocket and SocketStream wrapper
+  const socket: WebSocket = 'socket' in connection ? connection.socket : connection;
+  handleMediaSession(socket, request.query as Record<string, string>, twilioTelephony);
+}
+
+/**
+ * Run one call's AI session over a carrier media socket
+ * @param query - Call metadata from the stream URL (callId, callerPhone, mode, language, ...)
+ */
+export function handleMediaSession(
+  socket: MediaSocket,
+  query: Record<string, string>,
+  telephony: TelephonyProvider
+): void {
   const callId = query.callId || `HC_${Date.now()}`;
-  const callSid = query.callSid || ''; // Twilio Call SID for hangup
+  let callSid = query.callSid || ''; // Carrier call ID for hangup (falls back to the stream's start event)
   const callerPhone = query.callerPhone || 'unknown';
   const callerCity = query.callerCity || '';
   const callerState = query.callerState || '';
+  const mode: IntakeMode = query.mode === 'after_hours' ? 'after_hours' : 'business_hours';
+  const nextOpening = query.nextOpening || undefined;
+  const direction = query.direction === 'outbound' ? 'outbound' : 'inbound';
+  const language = parseLanguage(query.language) || 'en';
+  const backend = parseConversationBackend(query.backend) || config.conversation.backend;
+  // Nobody chose a language before the stream - guess it from the caller's first words
+  let detectLanguagePending = direction === 'inbound' &&
+    query.languageSource !== 'menu' &&
+    query.languageSource !== 'dialed_number' &&
+    config.language.detectionEnabled;
 
   const log = createCallLogger(callId);
-  log.info({ event: 'websocket_connected', callerPhone });
+  log.info({ event: 'websocket_connected', callerPhone, mode, direction, language, telephony: telephony.name });
 
-  let streamSid: string | null = null;
-  let openaiClient: OpenAIRealtimeClient | null = null;
+  let conversation: ConversationBackend | null = null;
   let intakeSession: IntakeSession | null = null;
-  let audioChunksSentToTwilio = 0;  // Track audio chunks sent to Twilio
+  let audioChunksSent = 0;  // Track audio chunks sent to the caller
+  let finalizing: Promise<void> | null = null;  // Set once - stream stop and shutdown can both finalize
+  const streamStartedAt = Date.now();
+  let fallbackUsage: ConversationUsage | null = null;  // Model usage before a hand-off to the scripted intake
+  let intakeCutShort = false;  // The AI connection was lost mid-intake - saved as partial when the call ends
 
-  // Handle both direct WebSocket and SocketStream wrapper
-  const twilioWs: WebSocket = 'socket' in connection ? connection.socket : connection;
-
-  // Send mark message to Twilio (for tracking audio playback)
-  function sendMark(markName: string) {
-    if (streamSid && twilioWs.readyState === WebSocket.OPEN) {
-      twilioWs.send(JSON.stringify({
-        event: 'mark',
-        streamSid,
-        mark: { name: markName }
-      }));
+  // Barge-in: a mark follows every assistant audio chunk, named "<itemId>:<endMs>",
+  // so returned marks tell us exactly how much of the current item the carrier has played
+  let playingItemId: string | null = null;
+  let queuedMs = 0;      // Audio of the current item sent to the carrier
+  let playedMs = 0;      // Audio of the current item the carrier has confirmed playing
+  let pendingMarks = 0;  // Marks sent but not yet returned (audio still queued)
+  const recorder = config.recording.enabled ? new CallRecorder(callId) : null;
+  const latency = new CallLatencyTracker(callId);
+
+  // Digits typed on the caller's keypad are forwarded to the AI as structured input
+  const keypad = config.keypad.enabled ? new KeypadInput(callId, {
+    onEntry: (digits) => {
+      latency.speechStopped();
+      intakeSession?.addKeypadEntry(digits);
+      activeCalls.recordTranscript(callId, 'user', digits, 'keypad');
+      conversation?.sendKeypadEntry(digits);
+    },
+    onAction: (action, key) => {
+      conversation?.sendKeypadAction(action, key);
     }
+  }) : null;
+
+  // Send audio to the caller (from the conversation backend)
+  function sendAudioToCaller(audioBase64: string, itemId: string) {
+    if (!media.isOpen) {
+      log.warn({ event: 'audio_send_failed', reason: 'Media stream not open' });
+      return;
+    }
+
+    if (itemId !== playingItemId) {
+      playingItemId = itemId;
+      queuedMs = 0;
+      playedMs = 0;
+    }
+    audioChunksSent++;
+    if (audioChunksSent === 1) {
+      log.info({ event: 'first_audio_to_caller', message: 'Sending first audio chunk to the caller!' });
+    }
+    media.sendAudio(audioBase64);
+    recorder?.addOutbound(audioBase64);
+    latency.audioSent();
+
+    // μ-law at 8kHz: 8 bytes per millisecond
+    queuedMs += Buffer.byteLength(audioBase64, 'base64') / 8;
+    pendingMarks++;
+    media.sendMark(`${itemId}:${Math.round(queuedMs)}`);
   }
 
-  // Send audio to Twilio (from OpenAI)
-  function sendAudioToTwilio(audioBase64: string) {
-    if (streamSid && twilioWs.readyState === WebSocket.OPEN) {
-      audioChunksSentToTwilio++;
-      if (audioChunksSentToTwilio === 1) {
-        log.info({ event: 'first_audio_to_twilio', message: 'Sending first audio chunk to Twilio!' });
-      }
-      twilioWs.send(JSON.stringify({
-        event: 'media',
-        streamSid,
-        media: {
-          payload: audioBase64
-        }
-      }));
-    } else {
-      if (!streamSid) {
-        log.warn({ event: 'audio_send_failed', reason: 'No streamSid' });
-      } else {
-        log.warn({ event: 'audio_send_failed', reason: 'WebSocket not open', readyState: twilioWs.readyState });
-      }
+  // The carrier finished playing audio up to a mark
+  function handleMark(markName: string) {
+    pendingMarks = Math.max(0, pendingMarks - 1);
+
+    const separator = markName.lastIndexOf(':');
+    const itemId = markName.slice(0, separator);
+    const endMs = parseInt(markName.slice(separator + 1), 10);
+
+    if (itemId === playingItemId && Number.isFinite(endMs)) {
+      playedMs = endMs;
     }
   }
 
-  // Clear Twilio's audio queue (for interruptions)
-  function clearTwilioAudio() {
-    if (streamSid && twilioWs.readyState === WebSocket.OPEN) {
-      twilioWs.send(JSON.stringify({
-        event: 'clear',
-        streamSid
-      }));
+  // Caller barged in - stop playback and tell the backend how much of the item was heard
+  function handleInterruption() {
+    if (!playingItemId || pendingMarks === 0) {
+      return; // Nothing is playing
     }
+
+    log.info({
+      event: 'barge_in',
+      itemId: playingItemId,
+      playedMs,
+      queuedMs: Math.round(queuedMs)
+    });
+
+    clearCallerAudio();
+    conversation?.truncateAudio(playingItemId, playedMs);
+
+    // Marks for the cleared audio may still come back - ignore them
+    playingItemId = null;
+    pendingMarks = 0;
   }
 
-  // Handle messages from Twilio
-  twilioWs.on('message', async (data: RawData) => {
-    try {
-      const message: TwilioMediaMessage = JSON.parse(data.toString());
-
-      switch (message.event) {
-        case 'connected':
-          log.info({ event: 'twilio_stream_connected' });
-          break;
-
-        case 'start':
-          streamSid = message.start?.streamSid || null;
-          log.info({
-            event: 'twilio_stream_started',
-            streamSid,
-            callSid: message.start?.callSid
-          });
-
-          // Initialize OpenAI Realtime connection
-          try {
-            intakeSession = new IntakeSession(callId, {
-              callerPhone,
-              callerCity,
-              callerState
-            });
+  // Warm transfer: redirect the live call to the staff ring group once the
+  // AI has acknowledged the request (runs asynchronously like hangup)
+  function startWarmTransfer() {
+    if (conversation) {
+      conversation.markCallEnding();
+    }
 
-            openaiClient = new OpenAIRealtimeClient({
-              callId,
-              onAudioResponse: (audioBase64) => {
-                sendAudioToTwilio(audioBase64);
-              },
-              onTranscript: (role, text) => {
-                log.info({ event: 'transcript', role, text });
-                if (intakeSession) {
-                  intakeSession.addTranscript(role, text);
-                }
-              },
-              onFunctionCall: async (name, args) => {
-                log.info({ event: 'function_call', name, args });
-
-                // If this is an end_call or callback request, mark the call as ending
-                // to prevent further "I'm still here" prompts
-                if (name === 'end_call' || name === 'record_callback_request') {
-                  if (openaiClient) {
-                    openaiClient.markCallEnding();
-                  }
-
-                  // Hang up the call after a short delay (let goodbye finish playing)
-                  // This runs asynchronously so it doesn't block the function result
-                  if (callSid) {
-                    log.info({ event: 'scheduling_hangup', callSid });
-                    // 4 second delay to let AI finish saying goodbye
-                    hangupCall(callSid, 4000).catch(err => {
-                      log.error({ event: 'hangup_error', error: err });
-                    });
-                  }
-                }
-
-                if (intakeSession) {
-                  return await intakeSession.handleFunctionCall(name, args);
-                }
-                return { error: 'No intake session' };
-              },
-              onInterruption: () => {
-                clearTwilioAudio();
-              },
-              onError: (error) => {
-                log.error({ event: 'openai_error', error });
-              },
-              onClose: () => {
-                log.info({ event: 'openai_connection_closed' });
-              }
-            });
+    if (callSid && intakeSession) {
+      log.info({ event: 'scheduling_transfer', callSid });
+      transferService.startTransfer({
+        callId,
+        callSid,
+        telephony: telephony.name,
+        ...intakeSession.getTransferDetails()
+      }).catch(err => {
+        log.error({ event: 'transfer_error', error: err });
+      });
+    }
+  }
 
-            await openaiClient.connect();
-            log.info({ event: 'openai_connected' });
+  // AI unavailable - move the live call to the scripted intake (or a callback request,
+  // where the line can't run it) instead of leaving dead air.
+  // If the AI never connected nothing was said to it, so there's no intake to save;
+  // one cut short by a lost connection is kept and saved as partial when the call ends.
+  function startIvrFallback(connectionLost: boolean) {
+    if (connectionLost) {
+      intakeCutShort = true;
+    } else {
+      intakeSession = null;
+    }
+    fallbackUsage = conversation?.getUsage() || null;
+    conversation?.close();
+    conversation = null;
 
-          } catch (error) {
-            log.error({ event: 'openai_connection_failed', error });
-          }
-          break;
-
-        case 'media':
-          // Forward audio from Twilio to OpenAI
-          if (message.media && openaiClient) {
-            // Twilio sends mulaw 8kHz, OpenAI expects pcm16 24kHz
-            // The OpenAI client handles the conversion
-            openaiClient.sendAudio(message.media.payload);
-          }
-          break;
+    if (!callSid || direction !== 'inbound') {
+      return;
+    }
+
+    // Lines without TwiML (SIP gateway) can't run the scripted intake - take a callback instead
+    if (!telephony.supportsTwimlRedirect) {
+      log.warn({ event: 'ai_unavailable_callback', callSid, telephony: telephony.name });
+      ivrFallback.requestCallback({ callId, callerPhone, language })
+        .then(message => telephony.endCallWithMessage(callSid, message))
+        .catch(err => {
+          log.error({ event: 'ivr_fallback_callback_failed', error: err });
+        });
+      return;
+    }
 
-        case 'mark':
-          log.debug({
-            event: 'twilio_mark_received',
-            mark: message.mark?.name
-          });
-          break;
+    const ivrUrl = new URL('/twilio/ivr/start', config.server.publicUrl);
+    ivrUrl.searchParams.set('callId', callId);
+    ivrUrl.searchParams.set('language', language);
+    ivrUrl.searchParams.set('entry', 'ai_unavailable');
 
-        case 'stop':
-          log.info({ event: 'twilio_stream_stopped' });
+    log.warn({ event: 'redirecting_to_ivr_fallback', callSid });
+    telephony.redirect(callSid, ivrUrl.toString()).catch(err => {
+      log.error({ event: 'ivr_fallback_redirect_failed', error: err });
+    });
+  }
 
-          // Finalize the intake session
+  // First caller utterance decides the language when it wasn't chosen up front
+  function detectCallerLanguage(text: string) {
+    const detected = detectLanguage(text);
+    if (!detected) return;  // Too short to tell - try the next utterance
+
+    detectLanguagePending = false;
+    log.info({ event: 'caller_language_detected', language: detected });
+
+    if (detected !== language) {
+      intakeSession?.setLanguage(detected);
+      conversation?.switchLanguage(detected);
+      if (callSid) {
+        db.recordCallEvent(callSid, `language_${detected}_via_detected`)
+          .catch(error => log.error({ event: 'call_event_failed', callSid, error }));
+      }
+    }
+  }
+
+  // Make this call visible to the live calls API, with admin controls over this connection
+  function registerActiveCall() {
+    activeCalls.register({
+      callId,
+      callSid,
+      direction,
+      callerPhone,
+      startedAt: new Date()
+    }, {
+      getStatus: () => intakeSession?.getLiveStatus() || null,
+      hangup: async () => {
+        conversation?.markCallEnding();
+        if (callSid) {
+          await telephony.hangup(callSid, 0);
+        } else {
+          media.close();
+        }
+      },
+      injectNote: (note) => {
+        conversation?.injectNote(note);
+      },
+      forceTransfer: async (reason) => {
+        if (!intakeSession || !conversation) return false;
+
+        const result = await intakeSession.handleFunctionCall('request_human_transfer', { reason }) as { transfer_initiated?: boolean };
+        if (!result.transfer_initiated) return false;
+
+        // Have the AI tell the caller before the redirect lands
+        conversation.sendText('[SYSTEM: A staff member is taking over this call. In one short sentence, tell the caller you are transferring them to a team member now.]');
+        startWarmTransfer();
+        return true;
+      },
+      finalize: async (reason) => {
+        log.warn({ event: 'call_force_finalized', reason });
+        conversation?.markCallEnding();
+        await finalizeCall();
+        if (callSid) {
+          await telephony.endCallWithMessage(callSid, 'We are sorry, but we need to end this call. Everything you have told us has been saved, and a member of our team will follow up with you. Thank you for calling.');
+        }
+      }
+    });
+  }
+
+  // Save the recording and intake, then close the conversation - runs once per call
+  function finalizeCall(): Promise<void> {
+    if (!finalizing) {
+      finalizing = (async () => {
+        keypad?.reset();
+
+        // Write the local recording before finalizing so it can be linked to the intake
+        const recordingPath = recorder ? await recorder.save() : null;
+
+        try {
           if (intakeSession) {
-            const result = await intakeSession.finalize();
+            const result = await intakeSession.finalize({ partial: intakeCutShort });
+            if (result.skinnyAppMs !== undefined) {
+              latency.record('skinny_app', result.skinnyAppMs);
+            }
             log.info({
               event: 'intake_finalized',
               score: result.scoring.totalScore,
               recommendation: result.scoring.recommendation
             });
+
+            if (recordingPath) {
+              await db.setLocalRecordingPath(callId, recordingPath);
+            }
           }
+        } catch (error) {
+          // The intake draft is kept - the recovery job will save it as a partial intake
+          log.error({ event: 'intake_finalize_failed', error });
+        }
+
+        const samples = latency.getSamples();
+        if (samples.length > 0) {
+          log.info({ event: 'call_latency', summary: summarizeLatency(samples) });
+          await db.saveCallLatency(callId, samples)
+            .catch(error => log.error({ event: 'call_latency_save_failed', error }));
+        }
 
-          // Close OpenAI connection
-          if (openaiClient) {
-            openaiClient.close();
+        const usage = conversation?.getUsage() || fallbackUsage;
+        if (usage) {
+          const streamSeconds = Math.round((Date.now() - streamStartedAt) / 1000);
+          log.info({ event: 'call_usage', backend, usage, streamSeconds });
+          await db.saveCallUsage(callId, { backend, usage, streamSeconds })
+            .catch(error => log.error({ event: 'call_usage_save_failed', error }));
+        }
+
+        conversation?.close();
+      })();
+    }
+    return finalizing;
+  }
+
+  // Leave the registry only once any finalize in progress is done,
+  // so a shutdown drain doesn't exit while the intake is still being saved
+  function unregisterCall(reason: string) {
+    (finalizing || Promise.resolve())
+      .catch(() => undefined)
+      .then(() => activeCalls.unregister(callId, reason));
+  }
+
+  // Clear the carrier's audio queue (for interruptions)
+  function clearCallerAudio() {
+    if (media.isOpen) {
+      media.clearAudio();
+      recorder?.truncateOutbound();
+    }
+  }
+
+  // Handle the carrier's media stream
+  const media = telephony.attachMedia(socket, {
+    onStart: async (start) => {
+      callSid = callSid || start.callSid;
+      recorder?.start();
+      registerActiveCall();
+      log.info({
+        event: 'media_stream_started',
+        streamId: start.streamId,
+        callSid: start.callSid
+      });
+
+      // Start the conversation backend
+      try {
+        const outbound = direction === 'outbound'
+          ? await loadOutboundContext(callId, query)
+          : undefined;
+        const returningCaller = direction === 'inbound'
+          ? await returningCallers.get(callId, callerPhone) || undefined
+          : undefined;
+
+        intakeSession = new IntakeSession(callId, {
+          callerPhone,
+          callerCity,
+          callerState
+        }, { mode, returningCaller, language });
+
+        conversation = createConversationBackend(backend, {
+          callId,
+          mode,
+          nextOpening,
+          outbound,
+          returningCaller,
+          language,
+          onAudioResponse: (audioBase64, itemId) => {
+            sendAudioToCaller(audioBase64, itemId);
+          },
+          onTranscript: (role, text, itemId) => {
+            log.info({ event: 'transcript', role, text });
+            activeCalls.recordTranscript(callId, role, text);
+            if (intakeSession) {
+              intakeSession.addTranscript(role, text, itemId);
+            }
+            if (role === 'user' && detectLanguagePending) {
+              detectCallerLanguage(text);
+            }
+          },
+          onTranscriptTruncated: (itemId, spokenFraction) => {
+            intakeSession?.truncateTranscript(itemId, spokenFraction);
+          },
+          onFunctionCall: async (name, args) => {
+            log.info({ event: 'function_call', name, args });
+
+            // If this is an end_call or callback request, mark the call as ending
+            // to prevent further "I'm still here" prompts
+            if (name === 'end_call' || name === 'record_callback_request') {
+              conversation?.markCallEnding();
+
+              // Hang up the call after a short delay (let goodbye finish playing)
+              // This runs asynchronously so it doesn't block the function result
+              if (callSid) {
+                log.info({ event: 'scheduling_hangup', callSid });
+                // 4 second delay to let AI finish saying goodbye
+                telephony.hangup(callSid, 4000).catch(err => {
+                  log.error({ event: 'hangup_error', error: err });
+                });
+              }
+            }
+
+            if (!intakeSession) {
+              return { error: 'No intake session' };
+            }
+
+            activeCalls.recordToolCall(callId, name, args);
+            const toolStartedAt = Date.now();
+            const result = await intakeSession.handleFunctionCall(name, args);
+            latency.record('tool', Date.now() - toolStartedAt, name);
+            activeCalls.publishStatus(callId);
+
+            if (name === 'request_human_transfer' && (result as { transfer_initiated?: boolean }).transfer_initiated) {
+              startWarmTransfer();
+            }
+
+            return result;
+          },
+          onInterruption: () => {
+            handleInterruption();
+          },
+          onSpeechStopped: () => {
+            latency.speechStopped();
+          },
+          onError: (error) => {
+            log.error({ event: 'conversation_error', backend, error });
+          },
+          onClose: () => {
+            log.info({ event: 'conversation_closed', backend });
+          },
+          getResumeContext: () => intakeSession?.getResumeContext() || '',
+          onReconnect: (outcome, attempt) => {
+            log.info({ event: 'conversation_reconnect', backend, outcome, attempt });
+            if (callSid) {
+              const counter = outcome === 'lost' ? { aiDisconnects: { increment: 1 } }
+                : outcome === 'restored' ? { aiReconnects: { increment: 1 } }
+                : {};
+              db.recordCallEvent(callSid, `ai_connection_${outcome}`, counter)
+                .catch(err => log.error({ event: 'call_event_failed', error: err }));
+            }
+            if (outcome === 'failed' && !finalizing) {
+              startIvrFallback(true);
+            }
           }
-          break;
+        });
+
+        await conversation.connect();
+        log.info({ event: 'conversation_connected', backend });
 
-        default:
-          log.debug({ event: 'unknown_twilio_event', eventType: message.event });
+      } catch (error) {
+        log.error({ event: 'conversation_connection_failed', backend, error });
+        startIvrFallback(false);
       }
-    } catch (error) {
-      log.error({ event: 'message_parse_error', error });
-    }
-  });
+    },
 
-  // Handle WebSocket errors
-  twilioWs.on('error', (error) => {
-    log.error({ event: 'websocket_error', error });
-  });
+    onAudio: (payload, timestampMs) => {
+      // Carrier audio is μ-law 8kHz - backends convert it if their model wants PCM
+      conversation?.sendAudio(payload);
+      recorder?.addInbound(payload, timestampMs);
+    },
 
-  // Handle WebSocket close
-  twilioWs.on('close', (code, reason) => {
-    log.info({
-      event: 'websocket_closed',
-      code,
-      reason: reason.toString()
-    });
+    onDtmf: (digit) => {
+      keypad?.press(digit);
+    },
+
+    onMark: (name) => {
+      log.debug({ event: 'media_mark_received', mark: name });
+      handleMark(name);
+    },
+
+    onStop: async () => {
+      log.info({ event: 'media_stream_stopped' });
+      const finalized = finalizeCall();
+      unregisterCall('stream_stopped');
+      await finalized;
+    },
 
-    // Cleanup
-    if (openaiClient) {
-      openaiClient.close();
+    // Handle WebSocket errors
+    onError: (error) => {
+      log.error({ event: 'websocket_error', error });
+      unregisterCall('websocket_error');
+    },
+
+    // Handle WebSocket close
+    onClose: (code, reason) => {
+      log.info({
+        event: 'websocket_closed',
+        code,
+        reason
+      });
+
+      // The carrier normally sends 'stop' first - if the socket dropped without it, save what we have
+      if (!finalizing) {
+        log.warn({ event: 'finalizing_without_stop' });
+      }
+      finalizeCall();
+      unregisterCall('websocket_closed');
     }
   });
 }
@@ -5,10 +5,21 @@
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
 import { db } from '../services/database.js';
-import { IntakeStatus, TaskStatus, TaskPriority } from '@prisma/client';
+import { IntakeStatus, TaskStatus, TaskPriority, OutboundOutcome } from '@prisma/client';
 import { scheduler } from '../services/scheduler.js';
 import { emailService } from '../services/emailService.js';
+import { officeHoursService, validateOfficeHoursCalendar, type OfficeHoursCalendar } from '../services/officeHours.js';
+import { transferService } from '../services/transferService.js';
+import { requireDashboardAuth } from '../utils/dashboardAuth.js';
+import { activeCalls } from '../services/activeCalls.js';
+import { overflowQueue } from '../services/overflowQueue.js';
+import { summarizeLatency, aggregateLatencyByDay, type LatencySample } from '../services/latencyTracker.js';
+import { roundCost } from '../services/costAccounting.js';
+import { logger } from '../utils/logger.js';
 
 // Request types
 interface ListIntakesQuery {
@@ -58,7 +69,8 @@ export async function dashboardRoutes(app: FastifyInstance) {
       query.endDate ? new Date(query.endDate) : undefined
     );
 
-    return stats;
+    // Live session usage and overflow queue (in-memory, not date filtered)
+    return { ...stats, overflow: overflowQueue.getStats() };
   });
 
   // ============================================
@@ -105,6 +117,64 @@ export async function dashboardRoutes(app: FastifyInstance) {
     return intake;
   });
 
+  /**
+   * GET /api/dashboard/intakes/:id/recording
+   * Stream the locally recorded stereo WAV (caller left, AI right)
+   */
+  app.get('/intakes/:id/recording', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const intake = await db.getIntake(id);
+    if (!intake || !intake.localRecordingPath) {
+      return reply.status(404).send({ error: 'Recording not found' });
+    }
+
+    // Only serve files from the recordings directory
+    const recordingsDir = path.resolve(config.recording.savePath);
+    const filePath = path.resolve(intake.localRecordingPath);
+    if (!filePath.startsWith(recordingsDir + path.sep)) {
+      return reply.status(404).send({ error: 'Recording not found' });
+    }
+
+    try {
+      const stat = await fs.promises.stat(filePath);
+      await db.logActivity(id, 'recording_accessed', 'dashboard', {});
+
+      reply.header('Content-Length', stat.size);
+      reply.header('Content-Disposition', `inline; filename="${path.basename(filePath)}"`);
+      reply.type('audio/wav');
+      return reply.send(fs.createReadStream(filePath));
+    } catch (error) {
+      return reply.status(404).send({ error: 'Recording file missing' });
+    }
+  });
+
+  /**
+   * GET /api/dashboard/intakes/:id/latency
+   * Per-turn latency timeline for each call of the intake
+   */
+  app.get('/intakes/:id/latency', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const intake = await db.getIntake(id);
+    if (!intake) {
+      return reply.status(404).send({ error: 'Intake not found' });
+    }
+
+    return {
+      intakeId: id,
+      calls: intake.calls.map(call => {
+        const samples = Array.isArray(call.latency) ? call.latency as LatencySample[] : [];
+        return {
+          callId: call.callId,
+          startedAt: call.createdAt,
+          summary: summarizeLatency(samples),
+          timeline: samples
+        };
+      })
+    };
+  });
+
   /**
    * PATCH /api/dashboard/intakes/:id/status
    * Update intake status
@@ -339,6 +409,60 @@ export async function dashboardRoutes(app: FastifyInstance) {
     };
   });
 
+  /**
+   * GET /api/dashboard/reports/latency
+   * Response, tool and Skinny App latency p50/p95 per day (default: last 7 days)
+   */
+  app.get('/reports/latency', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = request.query as { startDate?: string; endDate?: string };
+
+    const endDate = query.endDate ? new Date(query.endDate) : new Date();
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return reply.status(400).send({ error: 'Invalid startDate or endDate' });
+    }
+
+    const calls = await db.getCallLatency(startDate, endDate);
+    const samples = calls.flatMap(call => Array.isArray(call.latency) ? call.latency as LatencySample[] : []);
+
+    return {
+      startDate,
+      endDate,
+      calls: calls.length,
+      overall: summarizeLatency(samples),
+      days: aggregateLatencyByDay(calls)
+    };
+  });
+
+  /**
+   * GET /api/dashboard/reports/costs
+   * Call cost per day, per intake and per accepted case (default: last 7 days)
+   */
+  app.get('/reports/costs', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = request.query as { startDate?: string; endDate?: string };
+
+    const endDate = query.endDate ? new Date(query.endDate) : new Date();
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return reply.status(400).send({ error: 'Invalid startDate or endDate' });
+    }
+
+    const days = await db.getDailyCosts(startDate, endDate);
+
+    return {
+      startDate,
+      endDate,
+      totalCost: roundCost(days.reduce((sum, day) => sum + day.totalCost, 0)),
+      days
+    };
+  });
+
   // ============================================
   // MESSAGES / CALLBACK REQUESTS
   // ============================================
@@ -489,6 +613,189 @@ export async function dashboardRoutes(app: FastifyInstance) {
     };
   });
 
+  // ============================================
+  // LIVE CALLS
+  // ============================================
+
+  /**
+   * GET /api/dashboard/calls/live
+   * Calls currently connected to the AI, with phase, flags and last transcript line
+   */
+  app.get('/calls/live', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    return { calls: activeCalls.list() };
+  });
+
+  /**
+   * GET /api/dashboard/calls/:callId/events
+   * Server-sent events for one live call: transcript lines, tool calls and status/flag changes
+   */
+  app.get('/calls/:callId/events', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.params as { callId: string };
+
+    const call = activeCalls.get(callId);
+    if (!call) {
+      return reply.status(404).send({ error: 'Call is not active' });
+    }
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: { type: string }) => {
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Start with the current state so the monitor isn't blank until the next event
+    send({ type: 'snapshot', ...call });
+
+    const heartbeat = setInterval(() => reply.raw.write(': keep-alive\n\n'), 15000);
+
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    const unsubscribe = activeCalls.subscribe(callId, (event) => {
+      send(event);
+      if (event.type === 'ended') {
+        cleanup();
+        reply.raw.end();
+      }
+    });
+
+    request.raw.on('close', cleanup);
+
+    logger.info({ event: 'live_call_monitor_opened', callId });
+  });
+
+  /**
+   * POST /api/dashboard/calls/:callId/hangup
+   * End a live call immediately
+   */
+  app.post('/calls/:callId/hangup', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.params as { callId: string };
+
+    if (!await activeCalls.hangup(callId)) {
+      return reply.status(404).send({ error: 'Call is not active' });
+    }
+
+    return { success: true };
+  });
+
+  /**
+   * POST /api/dashboard/calls/:callId/note
+   * Give the AI a supervisor note it will take into account on its next turn
+   */
+  app.post('/calls/:callId/note', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.params as { callId: string };
+    const body = (request.body || {}) as { note?: string };
+
+    if (!body.note || !body.note.trim()) {
+      return reply.status(400).send({ error: 'Note is required' });
+    }
+
+    if (!activeCalls.injectNote(callId, body.note.trim())) {
+      return reply.status(404).send({ error: 'Call is not active' });
+    }
+
+    return { success: true };
+  });
+
+  /**
+   * POST /api/dashboard/calls/:callId/transfer
+   * Force a warm transfer of a live call to the staff ring group
+   */
+  app.post('/calls/:callId/transfer', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.params as { callId: string };
+    const body = (request.body || {}) as { reason?: string };
+
+    const started = await activeCalls.forceTransfer(callId, body.reason || 'Transferred by staff from the dashboard');
+
+    if (started === null) {
+      return reply.status(404).send({ error: 'Call is not active' });
+    }
+    if (!started) {
+      return reply.status(409).send({ error: 'Live transfer is not available right now' });
+    }
+
+    return { success: true };
+  });
+
+  // ============================================
+  // OUTBOUND CALLS
+  // ============================================
+
+  /**
+   * GET /api/dashboard/outbound-calls
+   * List outbound call attempts with their outcome and retry schedule
+   */
+  app.get('/outbound-calls', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = request.query as {
+      outcome?: OutboundOutcome;
+      toPhone?: string;
+      page?: string;
+      pageSize?: string;
+    };
+
+    const result = await db.listOutboundCalls({
+      outcome: query.outcome,
+      toPhone: query.toPhone,
+      page: query.page ? parseInt(query.page) : 1,
+      pageSize: query.pageSize ? parseInt(query.pageSize) : 20
+    });
+
+    return result;
+  });
+
+  // ============================================
+  // SETTINGS
+  // ============================================
+
+  /**
+   * GET /api/dashboard/settings/office-hours
+   * Get the office-hours calendar and how a call arriving now would be routed
+   */
+  app.get('/settings/office-hours', async (request: FastifyRequest, reply: FastifyReply) => {
+    const [calendar, current] = await Promise.all([
+      officeHoursService.getCalendar(),
+      officeHoursService.route(transferService.isEnabled())
+    ]);
+
+    return { calendar, current };
+  });
+
+  /**
+   * PUT /api/dashboard/settings/office-hours
+   * Replace the office-hours calendar (weekly schedule, timezone, holidays, closures)
+   */
+  app.put('/settings/office-hours', async (request: FastifyRequest, reply: FastifyReply) => {
+    const validationError = validateOfficeHoursCalendar(request.body);
+    if (validationError) {
+      return reply.status(400).send({ error: validationError });
+    }
+
+    const body = request.body as OfficeHoursCalendar;
+    const calendar: OfficeHoursCalendar = {
+      timezone: body.timezone,
+      // Days left out of the schedule are closed
+      weekly: { sun: [], mon: [], tue: [], wed: [], thu: [], fri: [], sat: [], ...body.weekly as Partial<OfficeHoursCalendar['weekly']> },
+      holidays: body.holidays || [],
+      closures: body.closures || [],
+      offerLiveStaff: body.offerLiveStaff ?? true
+    };
+
+    try {
+      await officeHoursService.saveCalendar(calendar);
+      return { success: true, calendar };
+    } catch (error) {
+      return reply.status(500).send({ error: 'Failed to save office hours' });
+    }
+  });
+
   // ============================================
   // EMAIL / DIGEST
   // ============================================
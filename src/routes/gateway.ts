@@ -0,0 +1,123 @@
+/**
+ * HALCYON AI RECEPTIONIST - SIP GATEWAY ROUTES
+ *
+ * Webhooks and media socket for carriers behind a raw-WebSocket / SIP gateway.
+ * The gateway POSTs each inbound call to /gateway/call and opens the returned
+ * streamUrl; media and call control frames are described in gatewayTelephony.ts.
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { WebSocket } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { db } from '../services/database.js';
+import { activeCalls } from '../services/activeCalls.js';
+import { returningCallers } from '../services/returningCallers.js';
+import { overflowQueue } from '../services/overflowQueue.js';
+import { officeHoursService } from '../services/officeHours.js';
+import { transferService } from '../services/transferService.js';
+import { gatewayTelephony } from '../services/gatewayTelephony.js';
+import { TWIML_PHRASES, languageForDialedNumber } from '../services/language.js';
+import { backendForDialedNumber } from '../services/conversationBackend.js';
+import { handleMediaSession } from '../handlers/mediaStream.js';
+import { requireGatewayAuth } from '../utils/gatewayAuth.js';
+import { createStreamToken, validateStreamToken } from '../utils/twilioSignature.js';
+
+export async function gatewayRoutes(app: FastifyInstance) {
+  // Every route here is called by the gateway - require its API key
+  app.addHook('preHandler', requireGatewayAuth);
+
+  /**
+   * POST /gateway/call
+   * Incoming call - replies with the media stream to open, or how to end the call
+   */
+  app.post('/call', async (request: FastifyRequest, reply: FastifyReply) => {
+    const incoming = gatewayTelephony.parseIncomingCall(request.body as Record<string, unknown>);
+
+    if (!incoming.callSid || !incoming.from) {
+      return reply.status(400).send({ error: 'callSid and from are required' });
+    }
+
+    const call = await db.createCall({
+      callSid: incoming.callSid,
+      callId: `HC_${Date.now()}_${uuidv4().slice(0, 8)}`,
+      direction: 'INBOUND',
+      fromPhone: incoming.from,
+      toPhone: incoming.to,
+      status: incoming.status
+    }).catch(error => {
+      logger.error({ event: 'call_record_failed', callSid: incoming.callSid, error });
+      return null;
+    });
+    const callId = call?.callId || `HC_${Date.now()}_${uuidv4().slice(0, 8)}`;
+    const language = languageForDialedNumber(incoming.to) || 'en';
+
+    logger.info({ event: 'incoming_call', callId, callSid: incoming.callSid, from: incoming.from, to: incoming.to, telephony: 'gateway' });
+
+    if (activeCalls.isDraining) {
+      logger.warn({ event: 'call_rejected_draining', callId, callSid: incoming.callSid });
+      return {
+        action: 'say_and_hangup',
+        text: `Thank you for calling ${config.firm.name}. Our phone system is restarting for a moment. Please call back in a few minutes.`
+      };
+    }
+
+    // The gateway has no hold queue - take a callback instead
+    if (!overflowQueue.tryReserve(callId)) {
+      logger.warn({ event: 'call_overflowed', callId, telephony: 'gateway', ...overflowQueue.getStats() });
+      await overflowQueue.requestCallback({ callId, callerPhone: incoming.from, language, reason: 'no_queue' });
+      return { action: 'say_and_hangup', text: TWIML_PHRASES[language].callbackConfirmed };
+    }
+
+    returningCallers.prefetch(callId, incoming.from)
+      .catch(error => logger.error({ event: 'returning_caller_lookup_failed', callId, error }));
+
+    const decision = await officeHoursService.route(false);
+
+    const streamUrl = new URL('/gateway/media', config.server.publicUrl);
+    streamUrl.protocol = streamUrl.protocol.replace('http', 'ws');
+    Object.entries({
+      callId,
+      callSid: incoming.callSid,
+      callerPhone: incoming.from,
+      callerCity: incoming.callerCity || '',
+      callerState: incoming.callerState || '',
+      mode: decision.mode,
+      nextOpening: decision.nextOpening || '',
+      language,
+      languageSource: language === 'es' ? 'dialed_number' : 'default',
+      backend: backendForDialedNumber(incoming.to),
+      token: createStreamToken(callId)
+    }).forEach(([key, value]) => streamUrl.searchParams.set(key, value));
+
+    return { action: 'connect', callId, streamUrl: streamUrl.toString() };
+  });
+
+  /**
+   * WS /gateway/media
+   * Media and call control frames for one call
+   */
+  app.get('/media', { websocket: true, preValidation: validateStreamToken }, (socket: WebSocket, request: FastifyRequest) => {
+    handleMediaSession(socket, request.query as Record<string, string>, gatewayTelephony);
+  });
+
+  /**
+   * POST /gateway/transfer-status
+   * Result of a warm transfer - replies with what to tell the caller if nobody answered
+   */
+  app.post('/transfer-status', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.query as { callId?: string };
+    const body = request.body as { status?: string; durationSeconds?: number };
+
+    if (!callId) {
+      return reply.status(400).send({ error: 'Missing callId' });
+    }
+
+    const outcome = await transferService.recordTransferResult(callId, body.status || 'failed', body.durationSeconds);
+
+    return outcome?.unansweredMessage
+      ? { action: 'say_and_hangup', text: outcome.unansweredMessage }
+      : { action: 'hangup' };
+  });
+}
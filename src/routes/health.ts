@@ -5,6 +5,7 @@
 import { FastifyInstance } from 'fastify';
 import WebSocket from 'ws';
 import { config } from '../config/index.js';
+import { activeCalls } from '../services/activeCalls.js';
 
 export async function healthRoutes(app: FastifyInstance) {
   app.get('/', async () => {
@@ -28,7 +29,9 @@ export async function healthRoutes(app: FastifyInstance) {
     const allReady = Object.values(checks).every(Boolean);
 
     return {
-      ready: allReady,
+      ready: allReady && !activeCalls.isDraining,
+      draining: activeCalls.isDraining,
+      activeCalls: activeCalls.size,
       checks
     };
   });
@@ -7,23 +7,24 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { v4 as uuidv4 } from 'uuid';
 import twilio from 'twilio';
+import { validateTwilioSignature, createStreamToken } from '../utils/twilioSignature.js';
+import { requireDashboardAuth } from '../utils/dashboardAuth.js';
+import { outboundCallService } from '../services/outboundCalls.js';
+import { db } from '../services/database.js';
+import { backendForDialedNumber, parseConversationBackend } from '../services/conversationBackend.js';
+import { buildDrainingTwiml, buildOverflowTwiml, rejectIfDraining, reserveSession, type TwilioVoiceRequest } from './twilio.js';
 
 const { VoiceResponse } = twilio.twiml;
 
-// Initialize Twilio client
-const twilioClient = twilio(
-  config.twilio.accountSid,
-  config.twilio.authToken
-);
-
 interface OutboundCallRequest {
   to: string;
   assessmentId?: string;
   purpose?: string;
   systemPrompt?: string;
   additionalNotes?: string;
+  backend?: string;  // 'realtime' or 'cascaded' - else chosen as for an inbound call to our number
+  maxAttempts?: number;
 }
 
 export async function outboundRoutes(app: FastifyInstance) {
@@ -41,59 +42,36 @@ export async function outboundRoutes(app: FastifyInstance) {
       });
     }
 
-    const callId = `OUT_${Date.now()}_${uuidv4().slice(0, 8)}`;
+    const backend = parseConversationBackend(body.backend);
+    if (body.backend && !backend) {
+      return reply.status(400).send({
+        success: false,
+        error: 'backend must be realtime or cascaded'
+      });
+    }
 
     logger.info({
       event: 'outbound_call_requested',
-      callId,
       to: body.to,
       purpose: body.purpose,
-      assessmentId: body.assessmentId
+      assessmentId: body.assessmentId,
+      backend
     });
 
     try {
-      // Build the TwiML URL with parameters for the AI conversation
-      const twimlUrl = new URL('/api/outbound-twiml', config.server.publicUrl);
-      twimlUrl.searchParams.set('callId', callId);
-      twimlUrl.searchParams.set('purpose', body.purpose || 'follow_up');
-      if (body.systemPrompt) {
-        twimlUrl.searchParams.set('systemPrompt', encodeURIComponent(body.systemPrompt));
-      }
-      if (body.additionalNotes) {
-        twimlUrl.searchParams.set('notes', encodeURIComponent(body.additionalNotes));
-      }
-
-      // Initiate the outbound call via Twilio
-      const call = await twilioClient.calls.create({
-        to: body.to,
-        from: config.twilio.phoneNumber,
-        url: twimlUrl.toString(),
-        statusCallback: `${config.server.publicUrl}/twilio/status`,
-        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
-        statusCallbackMethod: 'POST',
-        machineDetection: 'Enable',
-        machineDetectionTimeout: 5
-      });
-
-      logger.info({
-        event: 'outbound_call_initiated',
-        callId,
-        callSid: call.sid,
-        to: body.to,
-        purpose: body.purpose
-      });
+      const call = await outboundCallService.placeCall({ ...body, backend: backend || undefined });
 
       return reply.send({
         success: true,
-        callId,
-        callSid: call.sid,
+        callId: call.callId,
+        callSid: call.callSid,
         status: call.status
       });
 
     } catch (error: any) {
       logger.error({
         event: 'outbound_call_failed',
-        callId,
+        to: body.to,
         error: error.message
       });
 
@@ -104,27 +82,91 @@ export async function outboundRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /api/outbound-call/:callId/retry
+   * Schedule a retry of an outbound attempt (defaults to now) - dials out, so dashboard key required
+   */
+  app.post('/outbound-call/:callId/retry', { preHandler: requireDashboardAuth }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.params as { callId: string };
+    const body = (request.body || {}) as { retryAt?: string };
+
+    const call = await db.getOutboundCall(callId);
+    if (!call) {
+      return reply.status(404).send({ success: false, error: 'Outbound call not found' });
+    }
+
+    if (call.retryPlaced) {
+      return reply.status(409).send({ success: false, error: 'A retry has already been placed for this call' });
+    }
+
+    const retryAt = body.retryAt ? new Date(body.retryAt) : new Date();
+    if (isNaN(retryAt.getTime())) {
+      return reply.status(400).send({ success: false, error: 'Invalid retryAt' });
+    }
+
+    await outboundCallService.scheduleRetry(callId, retryAt);
+
+    logger.info({ event: 'outbound_retry_scheduled', callId, retryAt });
+
+    return reply.send({ success: true, callId, retryAt });
+  });
+
   /**
    * GET/POST /api/outbound-twiml
    * Returns TwiML for outbound AI calls - connects to Media Stream
    */
-  app.all('/outbound-twiml', async (request: FastifyRequest, reply: FastifyReply) => {
+  app.all('/outbound-twiml', { preHandler: validateTwilioSignature }, async (request: FastifyRequest, reply: FastifyReply) => {
     const query = request.query as {
       callId?: string;
       purpose?: string;
       systemPrompt?: string;
       notes?: string;
+      assessmentId?: string;
+      backend?: string;
     };
 
     const callId = query.callId || `OUT_${Date.now()}`;
     const purpose = query.purpose || 'follow_up';
 
+    // Answering machine detection result (sent with the TwiML request)
+    const body = (request.body || {}) as Partial<TwilioVoiceRequest> & { AnsweredBy?: string };
+    const answeredBy = body.AnsweredBy || (request.query as { AnsweredBy?: string }).AnsweredBy;
+
     logger.info({
       event: 'outbound_twiml_requested',
       callId,
-      purpose
+      purpose,
+      answeredBy
     });
 
+    const outcome = await outboundCallService.recordAnswer(callId, answeredBy);
+
+    reply.type('text/xml');
+
+    if (outcome === 'VOICEMAIL_LEFT') {
+      return outboundCallService.buildVoicemailTwiml(purpose);
+    }
+
+    if (outcome === 'FAX_DETECTED') {
+      const hangup = new VoiceResponse();
+      hangup.hangup();
+      return hangup.toString();
+    }
+
+    // Shutting down - don't open an AI session that would be cut off; call them again after the restart
+    const callSid = body.CallSid || '';
+    if (await rejectIfDraining(callSid, callId)) {
+      const retryAt = new Date(Date.now() + config.outbound.retryDelayMinutes * 60 * 1000);
+      await outboundCallService.scheduleRetry(callId, retryAt)
+        .catch(error => logger.error({ event: 'outbound_retry_schedule_failed', callId, error }));
+      return buildDrainingTwiml();
+    }
+
+    // Every realtime session is in use - hold the person we called like an inbound caller
+    if (!reserveSession(callId)) {
+      return buildOverflowTwiml({ ...body, CallSid: callSid, From: body.To || '' } as TwilioVoiceRequest, callId, 'en', 'default');
+    }
+
     const response = new VoiceResponse();
 
     // Brief connection message while OpenAI establishes its WebSocket
@@ -148,7 +190,10 @@ export async function outboundRoutes(app: FastifyInstance) {
       purpose,
       callerPhone: '', // Will be populated by Twilio
       systemPrompt: query.systemPrompt || '',
-      notes: query.notes || ''
+      notes: query.notes || '',
+      assessmentId: query.assessmentId || '',
+      backend: parseConversationBackend(query.backend) || backendForDialedNumber(body.From || ''),
+      token: createStreamToken(callId)
     });
 
     const stream = connect.stream({
@@ -165,7 +210,6 @@ export async function outboundRoutes(app: FastifyInstance) {
       purpose
     });
 
-    reply.type('text/xml');
     return response.toString();
   });
 }
@@ -9,11 +9,28 @@ import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { v4 as uuidv4 } from 'uuid';
 import twilio from 'twilio';
-import { prisma } from '../services/database.js';
+import { db } from '../services/database.js';
+import { transferService } from '../services/transferService.js';
+import { outboundCallService } from '../services/outboundCalls.js';
+import { activeCalls } from '../services/activeCalls.js';
+import { returningCallers } from '../services/returningCallers.js';
+import { overflowQueue, OVERFLOW_QUEUE_NAME } from '../services/overflowQueue.js';
+import { ivrFallback, type IvrState, type IvrStep, type IvrEntry } from '../services/ivrFallback.js';
+import { officeHoursService, type IntakeMode } from '../services/officeHours.js';
+import {
+  TWIML_VOICES,
+  TWIML_PHRASES,
+  parseLanguage,
+  languageForDialedNumber,
+  type CallLanguage,
+  type LanguageSource
+} from '../services/language.js';
+import { backendForDialedNumber, type ConversationBackendName } from '../services/conversationBackend.js';
+import { validateTwilioSignature, createStreamToken } from '../utils/twilioSignature.js';
 
 const { VoiceResponse } = twilio.twiml;
 
-interface TwilioVoiceRequest {
+export interface TwilioVoiceRequest {
   CallSid: string;
   AccountSid: string;
   From: string;
@@ -26,14 +43,284 @@ interface TwilioVoiceRequest {
   CallerCountry?: string;
 }
 
+// Call metadata passed to /media-stream as query params
+interface MediaStreamParams extends Record<string, string> {
+  callId: string;
+  callSid: string;
+  callerPhone: string;
+  callerCity: string;
+  callerState: string;
+  mode: IntakeMode;
+  nextOpening: string;
+  language: CallLanguage;
+  languageSource: LanguageSource;
+  backend: ConversationBackendName;
+}
+
+/**
+ * Append <Connect><Stream> to the response, pointing at our media stream WebSocket
+ */
+function connectMediaStream(response: InstanceType<typeof VoiceResponse>, params: MediaStreamParams): void {
+  // Connect to Media Stream for real-time audio
+  const connect = response.connect();
+
+  // Build WebSocket URL with call metadata
+  const wsUrl = new URL('/media-stream', config.server.publicUrl);
+  wsUrl.protocol = wsUrl.protocol.replace('http', 'ws');
+
+  // Pass call metadata as query params, plus a short-lived token authorizing this stream
+  const streamParams = new URLSearchParams({ ...params, token: createStreamToken(params.callId) });
+
+  const stream = connect.stream({
+    url: `${wsUrl.toString()}?${streamParams.toString()}`
+  });
+
+  // Configure stream parameters
+  stream.parameter({ name: 'callId', value: params.callId });
+
+  logger.info({
+    event: 'media_stream_initiated',
+    callId: params.callId,
+    mode: params.mode,
+    language: params.language,
+    wsUrl: wsUrl.toString()
+  });
+}
+
+/**
+ * TwiML for calls arriving while the server drains for a restart:
+ * ring staff if live transfer is set up, otherwise ask the caller to call back
+ */
+export function buildDrainingTwiml(): string {
+  const response = new VoiceResponse();
+
+  if (transferService.isEnabled()) {
+    response.say({
+      voice: 'Google.en-US-Neural2-F'
+    }, `Thank you for calling ${config.firm.name}. Please hold while I connect you with a member of our team.`);
+
+    // No dial action - if nobody answers, Twilio continues to the message below
+    const dial = response.dial({
+      timeout: config.transfer.ringTimeoutSeconds,
+      callerId: config.transfer.callerId || undefined
+    });
+    config.transfer.numbers.forEach(number => dial.number(number));
+
+    response.say({
+      voice: 'Google.en-US-Neural2-F'
+    }, 'We are sorry, no one is available right now. Please call back in a few minutes.');
+  } else {
+    response.say({
+      voice: 'Google.en-US-Neural2-F'
+    }, `Thank you for calling ${config.firm.name}. Our phone system is restarting for a moment. Please call back in a few minutes. We apologize for the inconvenience.`);
+  }
+
+  response.hangup();
+
+  return response.toString();
+}
+
+/**
+ * Shutting down - a new AI session would be cut off when the process exits.
+ * Records the rejection; the caller should get buildDrainingTwiml() instead.
+ */
+export async function rejectIfDraining(callSid: string, callId: string): Promise<boolean> {
+  if (!activeCalls.isDraining) return false;
+
+  logger.warn({ event: 'call_rejected_draining', callId, callSid });
+  await db.recordCallEvent(callSid, 'rejected_draining')
+    .catch(error => logger.error({ event: 'call_event_failed', callSid, error }));
+  return true;
+}
+
+/**
+ * Claim a realtime session before handing out a media stream (MAX_CONCURRENT_SESSIONS)
+ * @returns false when every session is in use - the caller should get buildOverflowTwiml()
+ */
+export function reserveSession(callId: string): boolean {
+  if (overflowQueue.tryReserve(callId)) return true;
+
+  logger.warn({ event: 'call_overflowed', callId, overflowMode: config.concurrency.overflowMode, ...overflowQueue.getStats() });
+  return false;
+}
+
+/**
+ * TwiML for the optional language menu (ENABLE_LANGUAGE_MENU) - each option is
+ * read in its own language; no input falls through to English
+ */
+function buildLanguageMenuTwiml(callId: string): string {
+  const response = new VoiceResponse();
+  const actionUrl = new URL('/twilio/voice-language', config.server.publicUrl);
+  actionUrl.searchParams.set('callId', callId);
+
+  const gather = response.gather({
+    numDigits: 1,
+    timeout: 5,
+    action: actionUrl.toString(),
+    method: 'POST'
+  });
+  gather.say(TWIML_VOICES.en, `Thank you for calling ${config.firm.name}. For English, press 1.`);
+  gather.say(TWIML_VOICES.es, 'Para español, oprima 2.');
+
+  response.redirect({ method: 'POST' }, actionUrl.toString());
+
+  return response.toString();
+}
+
+/**
+ * Query string shared by the overflow queue webhooks
+ */
+function overflowUrl(path: string, callId: string, callerPhone: string, language: CallLanguage, extra: Record<string, string> = {}): string {
+  const url = new URL(path, config.server.publicUrl);
+  Object.entries({ callId, callerPhone, language, ...extra }).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+}
+
+/**
+ * Append <Enqueue> to the overflow queue - hold music and position announcements come from /queue-wait
+ */
+function enqueueCaller(response: InstanceType<typeof VoiceResponse>, callId: string, callerPhone: string, language: CallLanguage): void {
+  response.enqueue({
+    waitUrl: overflowUrl('/twilio/queue-wait', callId, callerPhone, language),
+    waitUrlMethod: 'POST',
+    action: overflowUrl('/twilio/queue-leave', callId, callerPhone, language),
+    method: 'POST'
+  }, OVERFLOW_QUEUE_NAME);
+}
+
+/**
+ * TwiML for a caller over MAX_CONCURRENT_SESSIONS: hold in the queue, or
+ * (OVERFLOW_MODE=callback) offer a callback first and hold if they stay on the line
+ */
+export function buildOverflowTwiml(body: TwilioVoiceRequest, callId: string, language: CallLanguage, languageSource: LanguageSource): string {
+  overflowQueue.enqueue({
+    callId,
+    callSid: body.CallSid,
+    callerPhone: body.From,
+    language,
+    languageSource
+  });
+
+  const response = new VoiceResponse();
+
+  if (config.concurrency.overflowMode === 'callback') {
+    const gather = response.gather({
+      numDigits: 1,
+      timeout: 5,
+      action: overflowUrl('/twilio/queue-callback', callId, body.From, language, { context: 'offer' }),
+      method: 'POST'
+    });
+    gather.say(TWIML_VOICES[language], TWIML_PHRASES[language].overflowOffer);
+  }
+
+  enqueueCaller(response, callId, body.From, language);
+
+  return response.toString();
+}
+
+/**
+ * Route a call by office hours and connect it to the AI in the chosen language
+ * @param options.reserved - A session was already reserved (caller taken out of the overflow queue)
+ */
+async function routeInboundCall(
+  body: TwilioVoiceRequest,
+  callId: string,
+  language: CallLanguage,
+  languageSource: LanguageSource,
+  options: { reserved?: boolean } = {}
+): Promise<string> {
+  if (await rejectIfDraining(body.CallSid, callId)) {
+    return buildDrainingTwiml();
+  }
+
+  if (languageSource !== 'default' && !options.reserved) {
+    await db.recordCallEvent(body.CallSid, `language_${language}_via_${languageSource}`)
+      .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
+  }
+
+  // Every realtime session is in use - hold the caller rather than open one more
+  if (!options.reserved && !reserveSession(callId)) {
+    return buildOverflowTwiml(body, callId, language, languageSource);
+  }
+
+  const decision = await officeHoursService.route(transferService.isEnabled());
+
+  logger.info({
+    event: 'call_routed',
+    callId,
+    routing: decision.routing,
+    closedReason: decision.closedReason,
+    nextOpening: decision.nextOpening,
+    language,
+    languageSource
+  });
+
+  const streamParams: MediaStreamParams = {
+    callId,
+    callSid: body.CallSid,
+    callerPhone: body.From,
+    callerCity: body.CallerCity || '',
+    callerState: body.CallerState || '',
+    mode: decision.mode,
+    nextOpening: decision.nextOpening || '',
+    language,
+    languageSource,
+    backend: backendForDialedNumber(body.To)
+  };
+
+  const response = new VoiceResponse();
+  const phrases = TWIML_PHRASES[language];
+
+  if (decision.routing === 'live_staff_option') {
+    // Offer a live team member - no input (or any other key) continues to the AI
+    const menuUrl = new URL('/twilio/voice-menu', config.server.publicUrl);
+    Object.entries(streamParams).forEach(([key, value]) => menuUrl.searchParams.set(key, value));
+
+    const gather = response.gather({
+      numDigits: 1,
+      timeout: 4,
+      action: menuUrl.toString(),
+      method: 'POST'
+    });
+    gather.say(TWIML_VOICES[language], phrases.liveStaffOption(config.firm.name));
+
+    connectMediaStream(response, streamParams);
+  } else {
+    // Initial greeting before connecting to AI
+    response.say(TWIML_VOICES[language], phrases.connecting);
+
+    response.pause({ length: 1 });
+
+    connectMediaStream(response, streamParams);
+  }
+
+  return response.toString();
+}
+
 export async function twilioRoutes(app: FastifyInstance) {
+  // Every route in this plugin is a Twilio webhook - reject forged requests
+  app.addHook('preHandler', validateTwilioSignature);
+
   /**
    * POST /twilio/voice
-   * Main webhook for incoming calls - initiates Media Stream connection
+   * Main webhook for incoming calls - routes by office hours, then initiates Media Stream connection
    */
   app.post('/voice', async (request: FastifyRequest, reply: FastifyReply) => {
     const body = request.body as TwilioVoiceRequest;
-    const callId = `HC_${Date.now()}_${uuidv4().slice(0, 8)}`;
+
+    // Keyed by CallSid - if Twilio retries this webhook we keep the original callId
+    const call = await db.createCall({
+      callSid: body.CallSid,
+      callId: `HC_${Date.now()}_${uuidv4().slice(0, 8)}`,
+      direction: 'INBOUND',
+      fromPhone: body.From,
+      toPhone: body.To,
+      status: body.CallStatus
+    }).catch(error => {
+      logger.error({ event: 'call_record_failed', callSid: body.CallSid, error });
+      return null;
+    });
+    const callId = call?.callId || `HC_${Date.now()}_${uuidv4().slice(0, 8)}`;
 
     logger.info({
       event: 'incoming_call',
@@ -45,48 +332,247 @@ export async function twilioRoutes(app: FastifyInstance) {
       callerState: body.CallerState
     });
 
-    const response = new VoiceResponse();
+    // Shutting down - don't start an AI session that would be cut off (or offer the language menu first)
+    if (await rejectIfDraining(body.CallSid, callId)) {
+      reply.type('text/xml');
+      return buildDrainingTwiml();
+    }
 
-    // Initial greeting before connecting to AI
-    response.say({
-      voice: 'Google.en-US-Neural2-F'
-    }, 'Please wait while I connect you to our intake assistant.');
+    // Look up prior intakes / callbacks for this number while the call is routed and greeted
+    returningCallers.prefetch(callId, body.From).then(caller => {
+      if (!caller) return;
+      logger.info({ event: 'returning_caller_recognized', callId, priorContacts: caller.priorContacts, isClient: caller.isClient });
+      return db.recordCallEvent(body.CallSid, 'returning_caller_recognized');
+    }).catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
 
-    response.pause({ length: 1 });
+    // Language: a Spanish line picks it outright, otherwise the menu (if enabled) asks
+    const dialedLanguage = languageForDialedNumber(body.To);
+    reply.type('text/xml');
 
-    // Connect to Media Stream for real-time audio
-    const connect = response.connect();
+    if (dialedLanguage) {
+      return routeInboundCall(body, callId, dialedLanguage, 'dialed_number');
+    }
+    if (config.language.menuEnabled) {
+      return buildLanguageMenuTwiml(callId);
+    }
+    return routeInboundCall(body, callId, 'en', 'default');
+  });
+
+  /**
+   * POST /twilio/voice-language
+   * Language menu selection (1 = English, 2 = Spanish, no input = English)
+   */
+  app.post('/voice-language', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.query as { callId?: string };
+    const body = request.body as TwilioVoiceRequest & { Digits?: string };
 
-    // Build WebSocket URL with call metadata
-    const wsUrl = new URL('/media-stream', config.server.publicUrl);
-    wsUrl.protocol = wsUrl.protocol.replace('http', 'ws');
+    logger.info({ event: 'language_menu_selection', callId, digits: body.Digits });
 
-    // Pass call metadata as query params
-    const streamParams = new URLSearchParams({
-      callId,
-      callSid: body.CallSid,
-      callerPhone: body.From,
-      callerCity: body.CallerCity || '',
-      callerState: body.CallerState || ''
-    });
+    const language: CallLanguage = body.Digits === '2' ? 'es' : 'en';
+    // No key pressed - leave detection from the first utterance on
+    const source: LanguageSource = body.Digits ? 'menu' : 'default';
 
-    const stream = connect.stream({
-      url: `${wsUrl.toString()}?${streamParams.toString()}`
+    reply.type('text/xml');
+    return routeInboundCall(body, callId || `HC_${Date.now()}_${uuidv4().slice(0, 8)}`, language, source);
+  });
+
+  /**
+   * POST /twilio/voice-menu
+   * Handles the live-staff option offered during office hours
+   */
+  app.post('/voice-menu', async (request: FastifyRequest, reply: FastifyReply) => {
+    const streamParams = request.query as MediaStreamParams;
+    const body = request.body as TwilioVoiceRequest & { Digits?: string };
+
+    logger.info({
+      event: 'voice_menu_selection',
+      callId: streamParams.callId,
+      digits: body.Digits
     });
 
-    // Configure stream parameters
-    stream.parameter({ name: 'callId', value: callId });
+    await db.recordCallEvent(body.CallSid, body.Digits === '1' ? 'live_staff_selected' : 'ai_intake_selected')
+      .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
+
+    const language = parseLanguage(streamParams.language) || 'en';
+    const response = new VoiceResponse();
+
+    if (body.Digits === '1' && transferService.isEnabled()) {
+      response.say(TWIML_VOICES[language], TWIML_PHRASES[language].holdForStaff);
+
+      // If nobody picks up, the dial action hands the caller to the AI
+      const unansweredUrl = new URL('/twilio/voice-menu/unanswered', config.server.publicUrl);
+      Object.entries(streamParams).forEach(([key, value]) => unansweredUrl.searchParams.set(key, value));
+
+      const dial = response.dial({
+        timeout: config.transfer.ringTimeoutSeconds,
+        callerId: config.transfer.callerId || undefined,
+        action: unansweredUrl.toString(),
+        method: 'POST'
+      });
+      config.transfer.numbers.forEach(number => dial.number(number));
+    } else if (await rejectIfDraining(body.CallSid, streamParams.callId)) {
+      reply.type('text/xml');
+      return buildDrainingTwiml();
+    } else if (!reserveSession(streamParams.callId)) {
+      reply.type('text/xml');
+      return buildOverflowTwiml(body, streamParams.callId, language, streamParams.languageSource || 'default');
+    } else {
+      response.say(TWIML_VOICES[language], TWIML_PHRASES[language].connecting);
+
+      connectMediaStream(response, streamParams);
+    }
+
+    reply.type('text/xml');
+    return response.toString();
+  });
+
+  /**
+   * POST /twilio/voice-menu/unanswered
+   * <Dial> action for the live-staff option - falls through to the AI if nobody answered
+   */
+  app.post('/voice-menu/unanswered', async (request: FastifyRequest, reply: FastifyReply) => {
+    const streamParams = request.query as MediaStreamParams;
+    const body = request.body as TwilioVoiceRequest & { DialCallStatus?: string };
 
     logger.info({
-      event: 'media_stream_initiated',
-      callId,
-      wsUrl: wsUrl.toString()
+      event: 'voice_menu_dial_completed',
+      callId: streamParams.callId,
+      dialStatus: body.DialCallStatus
     });
 
+    await db.recordCallEvent(body.CallSid, `live_staff_dial_${body.DialCallStatus || 'unknown'}`)
+      .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
+
+    const language = parseLanguage(streamParams.language) || 'en';
+    const response = new VoiceResponse();
+
+    if (body.DialCallStatus === 'completed' || body.DialCallStatus === 'answered') {
+      response.hangup();
+    } else if (await rejectIfDraining(body.CallSid, streamParams.callId)) {
+      reply.type('text/xml');
+      return buildDrainingTwiml();
+    } else if (!reserveSession(streamParams.callId)) {
+      // The staff ring usually outlasts the reservation made when the call came in
+      reply.type('text/xml');
+      return buildOverflowTwiml(body, streamParams.callId, language, streamParams.languageSource || 'default');
+    } else {
+      response.say(TWIML_VOICES[language], TWIML_PHRASES[language].staffBusy);
+
+      connectMediaStream(response, streamParams);
+    }
+
+    reply.type('text/xml');
+    return response.toString();
+  });
+
+  /**
+   * POST /twilio/queue-wait
+   * Overflow queue hold loop - announces the caller's position over hold music.
+   * Twilio requests it again each time the music ends.
+   */
+  app.post('/queue-wait', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId = '', callerPhone = '', language: languageParam } = request.query as { callId?: string; callerPhone?: string; language?: string };
+    const body = request.body as { CallSid: string; QueuePosition?: string; QueueTime?: string };
+    const language = parseLanguage(languageParam) || 'en';
+    const waitedSeconds = parseInt(body.QueueTime || '0', 10);
+
+    // Queue state is in memory - re-add callers who were holding across a restart
+    if (!overflowQueue.getQueuedCall(callId)) {
+      overflowQueue.enqueue({ callId, callSid: body.CallSid, callerPhone, language, languageSource: 'default' });
+    }
+
+    // A session may have freed up without a call ending (expired reservation)
+    overflowQueue.connectNext().catch(error => logger.error({ event: 'queue_connect_failed', error }));
+
+    const response = new VoiceResponse();
+
+    if (activeCalls.isDraining || waitedSeconds >= config.concurrency.maxQueueWaitSeconds) {
+      await overflowQueue.requestCallback({
+        callId,
+        callerPhone,
+        language,
+        reason: activeCalls.isDraining ? 'draining' : 'wait_timeout'
+      });
+      response.say(TWIML_VOICES[language], TWIML_PHRASES[language].queueTimedOut);
+      response.hangup();
+    } else {
+      const gather = response.gather({
+        numDigits: 1,
+        timeout: 1,
+        action: overflowUrl('/twilio/queue-callback', callId, callerPhone, language, { context: 'wait' }),
+        method: 'POST'
+      });
+      gather.say(TWIML_VOICES[language], TWIML_PHRASES[language].queuePosition(parseInt(body.QueuePosition || '1', 10)));
+      gather.play(config.concurrency.holdMusicUrl);
+    }
+
     reply.type('text/xml');
     return response.toString();
   });
 
+  /**
+   * POST /twilio/queue-callback
+   * Caller pressed a key on the callback offer or while holding - 1 takes a callback instead of waiting
+   */
+  app.post('/queue-callback', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId = '', callerPhone = '', language: languageParam, context } = request.query as {
+      callId?: string;
+      callerPhone?: string;
+      language?: string;
+      context?: 'offer' | 'wait';
+    };
+    const body = request.body as { CallSid: string; Digits?: string };
+    const language = parseLanguage(languageParam) || 'en';
+
+    logger.info({ event: 'queue_callback_selection', callId, digits: body.Digits, context });
+
+    const response = new VoiceResponse();
+
+    if (body.Digits === '1') {
+      await overflowQueue.requestCallback({ callId, callerPhone, language, reason: 'caller_choice' });
+      response.say(TWIML_VOICES[language], TWIML_PHRASES[language].callbackConfirmed);
+      response.hangup();
+    } else if (context === 'offer') {
+      enqueueCaller(response, callId, callerPhone, language);
+    }
+    // Any other key while holding - an empty response resumes the hold loop
+
+    reply.type('text/xml');
+    return response.toString();
+  });
+
+  /**
+   * POST /twilio/queue-leave
+   * <Enqueue> action - the caller left the queue (hung up, or the queue failed)
+   */
+  app.post('/queue-leave', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId = '' } = request.query as { callId?: string };
+    const body = request.body as { CallSid: string; QueueResult?: string; QueueTime?: string };
+
+    logger.info({ event: 'queue_left', callId, queueResult: body.QueueResult, queueTime: body.QueueTime });
+
+    if (body.QueueResult !== 'redirected') {
+      overflowQueue.leave(callId, 'abandoned');
+    }
+
+    reply.type('text/xml');
+    return new VoiceResponse().toString();
+  });
+
+  /**
+   * POST /twilio/queue-connect
+   * A session freed up - the longest-waiting caller is redirected here from the queue
+   */
+  app.post('/queue-connect', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId = '', language, languageSource } = request.query as { callId?: string; language?: string; languageSource?: LanguageSource };
+    const body = request.body as TwilioVoiceRequest;
+
+    logger.info({ event: 'queue_caller_connecting', callId, callSid: body.CallSid });
+
+    reply.type('text/xml');
+    return routeInboundCall(body, callId, parseLanguage(language) || 'en', languageSource || 'default', { reserved: true });
+  });
+
   /**
    * POST /twilio/status
    * Webhook for call status updates
@@ -97,7 +583,10 @@ export async function twilioRoutes(app: FastifyInstance) {
       CallStatus: string;
       CallDuration?: string;
       RecordingUrl?: string;
+      From?: string;
+      To?: string;
     };
+    const query = request.query as { callId?: string };  // Set on outbound calls we place
 
     logger.info({
       event: 'call_status_update',
@@ -106,38 +595,49 @@ export async function twilioRoutes(app: FastifyInstance) {
       duration: body.CallDuration
     });
 
-    // Handle call completion
+    // Caller hung up while holding in the overflow queue
     if (body.CallStatus === 'completed') {
-      logger.info({
-        event: 'call_completed',
-        callSid: body.CallSid,
-        duration: body.CallDuration
-      });
+      overflowQueue.handleCallEnded(body.CallSid);
+    }
+
+    // Outbound attempts: record no-answer/busy outcomes and schedule retries
+    try {
+      await outboundCallService.handleStatusCallback(body.CallSid, body.CallStatus, query.callId);
+    } catch (error) {
+      logger.error({ event: 'outbound_status_update_failed', callSid: body.CallSid, error });
+    }
 
-      // Update call duration in database if intake exists
-      // Note: Main finalization happens in mediaStream.ts on 'stop' event
-      // This is a backup to ensure call duration is recorded
-      if (prisma) {
-        try {
-          const intake = await prisma.intake.findFirst({
-            where: { callId: { contains: body.CallSid.slice(-8) } }
-          });
-
-          if (intake && body.CallDuration) {
-            await prisma.intake.update({
-              where: { id: intake.id },
-              data: { callDuration: parseInt(body.CallDuration, 10) }
-            });
-            logger.info({
-              event: 'call_duration_updated',
-              intakeId: intake.id,
-              duration: body.CallDuration
-            });
-          }
-        } catch (error) {
-          logger.error({ event: 'call_status_update_failed', error });
-        }
+    // Note: Main finalization happens in mediaStream.ts on 'stop' event -
+    // this records the status lifecycle and Twilio's final call duration
+    try {
+      // An outbound call's first callbacks can beat calls.create, which records the call
+      if (query.callId) {
+        await db.createCall({
+          callSid: body.CallSid,
+          callId: query.callId,
+          direction: 'OUTBOUND',
+          fromPhone: body.From || config.twilio.phoneNumber,
+          toPhone: body.To || '',
+          status: 'queued'
+        });
+      }
+      const call = await db.updateCallStatus(
+        body.CallSid,
+        body.CallStatus,
+        body.CallDuration ? parseInt(body.CallDuration, 10) : undefined
+      );
+
+      if (body.CallStatus === 'completed') {
+        logger.info({
+          event: 'call_completed',
+          callSid: body.CallSid,
+          callId: call?.callId,
+          intakeId: call?.intakeId,
+          duration: body.CallDuration
+        });
       }
+    } catch (error) {
+      logger.error({ event: 'call_status_update_failed', callSid: body.CallSid, error });
     }
 
     return { received: true };
@@ -162,73 +662,244 @@ export async function twilioRoutes(app: FastifyInstance) {
       duration: body.RecordingDuration
     });
 
-    // Store recording URL in intake record
-    if (prisma) {
-      try {
-        // Find intake by partial callSid match (callId contains last 8 chars of callSid)
-        const intake = await prisma.intake.findFirst({
-          where: { callId: { contains: body.CallSid.slice(-8) } }
-        });
+    // Store recording URL on the call (and its intake, if saved yet)
+    try {
+      const call = await db.setCallRecording(
+        body.CallSid,
+        body.RecordingUrl,
+        body.RecordingSid,
+        body.RecordingDuration
+      );
 
-        if (intake) {
-          await prisma.intake.update({
-            where: { id: intake.id },
-            data: { recordingUrl: body.RecordingUrl }
-          });
-
-          // Log the activity
-          await prisma.activity.create({
-            data: {
-              intakeId: intake.id,
-              type: 'recording_saved',
-              actor: 'system',
-              details: {
-                recordingSid: body.RecordingSid,
-                duration: body.RecordingDuration
-              }
-            }
-          });
-
-          logger.info({
-            event: 'recording_url_saved',
-            intakeId: intake.id,
-            recordingSid: body.RecordingSid
-          });
-        } else {
-          logger.warn({
-            event: 'recording_no_matching_intake',
-            callSid: body.CallSid
-          });
-        }
-      } catch (error) {
-        logger.error({ event: 'recording_save_failed', error });
+      if (call?.intakeId) {
+        logger.info({
+          event: 'recording_url_saved',
+          intakeId: call.intakeId,
+          recordingSid: body.RecordingSid
+        });
+      } else {
+        logger.warn({
+          event: 'recording_no_matching_intake',
+          callSid: body.CallSid
+        });
       }
+    } catch (error) {
+      logger.error({ event: 'recording_save_failed', error });
     }
 
     return { received: true };
   });
 
+  /**
+   * POST /twilio/transfer-whisper
+   * Played to the staff member who answers a warm transfer, before bridging
+   */
+  app.post('/transfer-whisper', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.query as { callId?: string };
+
+    logger.info({ event: 'transfer_answered_by_staff', callId });
+
+    reply.type('text/xml');
+    return transferService.buildWhisper(callId || '');
+  });
+
+  /**
+   * POST /twilio/transfer-status
+   * <Dial> action for warm transfers - records the result and handles no-answer
+   */
+  app.post('/transfer-status', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.query as { callId?: string };
+    const body = request.body as {
+      CallSid: string;
+      DialCallStatus: string;
+      DialCallDuration?: string;
+    };
+
+    logger.info({
+      event: 'transfer_dial_completed',
+      callId,
+      callSid: body.CallSid,
+      dialStatus: body.DialCallStatus,
+      duration: body.DialCallDuration
+    });
+
+    await db.recordCallEvent(body.CallSid, `transfer_${body.DialCallStatus}`)
+      .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
+
+    const twiml = await transferService.completeTransfer(
+      callId || '',
+      body.DialCallStatus,
+      body.DialCallDuration ? parseInt(body.DialCallDuration, 10) : undefined
+    );
+
+    reply.type('text/xml');
+    return twiml;
+  });
+
   /**
    * POST /twilio/fallback
-   * Fallback webhook if primary fails
+   * Fallback webhook if primary fails - takes the call through the scripted intake
    */
   app.post('/fallback', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = request.body as Partial<TwilioVoiceRequest>;
+
     logger.error({
       event: 'twilio_fallback_triggered',
       body: request.body
     });
 
-    const response = new VoiceResponse();
-    response.say(
-      { voice: 'Google.en-US-Neural2-F' },
-      'We apologize, but we are experiencing technical difficulties. Please call back in a few minutes or leave a message after the tone.'
-    );
-    response.record({
-      maxLength: 120,
-      transcribe: true
+    let callId = `HC_${Date.now()}_${uuidv4().slice(0, 8)}`;
+    if (body?.CallSid) {
+      // The primary webhook may have failed before (or after) recording the call
+      const call = await db.createCall({
+        callSid: body.CallSid,
+        callId,
+        direction: 'INBOUND',
+        fromPhone: body.From || 'unknown',
+        toPhone: body.To || '',
+        status: body.CallStatus || 'in-progress'
+      }).catch(error => {
+        logger.error({ event: 'call_record_failed', callSid: body.CallSid, error });
+        return null;
+      });
+      callId = call?.callId || callId;
+
+      await db.recordCallEvent(body.CallSid, 'fallback_triggered')
+        .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
+    }
+
+    reply.type('text/xml');
+    return ivrFallback.buildStartTwiml({
+      callId,
+      language: languageForDialedNumber(body?.To || '') || 'en',
+      entry: 'webhook_failure'
     });
+  });
+
+  /**
+   * POST /twilio/ivr/start
+   * Scripted intake for a live call whose AI session couldn't connect
+   */
+  app.post('/ivr/start', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = request.query as { callId?: string; language?: string; entry?: IvrEntry };
+    const body = request.body as { CallSid: string };
+
+    logger.warn({ event: 'ivr_fallback_started', callId: query.callId, entry: query.entry });
+
+    await db.recordCallEvent(body.CallSid, 'ivr_fallback_started')
+      .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
 
     reply.type('text/xml');
-    return response.toString();
+    return ivrFallback.buildStartTwiml({
+      callId: query.callId || `HC_${Date.now()}_${uuidv4().slice(0, 8)}`,
+      language: parseLanguage(query.language) || 'en',
+      entry: query.entry === 'webhook_failure' ? 'webhook_failure' : 'ai_unavailable'
+    });
+  });
+
+  /**
+   * POST /twilio/ivr/:step
+   * Answer to one scripted intake question (speech or keypad), or the recorded message
+   */
+  app.post('/ivr/:step', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { step } = request.params as { step: IvrStep };
+    const query = request.query as Partial<Record<keyof IvrState, string>>;
+    const body = request.body as {
+      CallSid: string;
+      From?: string;
+      SpeechResult?: string;
+      Digits?: string;
+      RecordingUrl?: string;
+      RecordingDuration?: string;
+    };
+
+    const state: IvrState = {
+      callId: query.callId || '',
+      language: parseLanguage(query.language) || 'en',
+      entry: query.entry === 'webhook_failure' ? 'webhook_failure' : 'ai_unavailable',
+      name: query.name,
+      phone: query.phone,
+      reason: query.reason,
+      category: query.category
+    };
+
+    reply.type('text/xml');
+
+    if (step === 'complete') {
+      await db.recordCallEvent(body.CallSid, 'ivr_fallback_completed')
+        .catch(error => logger.error({ event: 'call_event_failed', callSid: body.CallSid, error }));
+
+      return ivrFallback.complete(state, {
+        url: body.RecordingUrl,
+        durationSeconds: body.RecordingDuration ? parseInt(body.RecordingDuration, 10) : undefined
+      }, body.From || '');
+    }
+
+    if (!['name', 'phone', 'reason', 'message'].includes(step)) {
+      return reply.status(404).send({ error: 'Unknown step' });
+    }
+
+    return ivrFallback.handleAnswer(step, state, {
+      speech: body.SpeechResult,
+      digits: body.Digits,
+      from: body.From
+    });
+  });
+
+  /**
+   * POST /twilio/voicemail/recording
+   * Recording status callback for a scripted-intake voicemail
+   */
+  app.post('/voicemail/recording', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.query as { callId?: string };
+    const body = request.body as {
+      RecordingSid?: string;
+      RecordingUrl?: string;
+      RecordingStatus?: string;
+      RecordingDuration?: string;
+    };
+
+    if (!callId) {
+      return reply.status(400).send({ error: 'Missing callId' });
+    }
+
+    try {
+      await ivrFallback.handleRecordingStatus(callId, {
+        url: body.RecordingUrl,
+        durationSeconds: body.RecordingDuration ? parseInt(body.RecordingDuration, 10) : undefined,
+        status: body.RecordingStatus
+      });
+    } catch (error) {
+      logger.error({ event: 'voicemail_recording_failed', callId, recordingSid: body.RecordingSid, error });
+    }
+
+    return { received: true };
+  });
+
+  /**
+   * POST /twilio/voicemail/transcription
+   * Transcription callback - stores the text and notifies staff of the message
+   */
+  app.post('/voicemail/transcription', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { callId } = request.query as { callId?: string };
+    const body = request.body as {
+      TranscriptionText?: string;
+      TranscriptionStatus?: string;
+    };
+
+    if (!callId) {
+      return reply.status(400).send({ error: 'Missing callId' });
+    }
+
+    try {
+      await ivrFallback.handleTranscription(callId, {
+        text: body.TranscriptionText,
+        status: body.TranscriptionStatus
+      });
+    } catch (error) {
+      logger.error({ event: 'voicemail_transcription_failed', callId, error });
+    }
+
+    return { received: true };
   });
 }
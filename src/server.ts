@@ -18,10 +18,13 @@ import { logger } from './utils/logger.js';
 import { twilioRoutes } from './routes/twilio.js';
 import { dashboardRoutes } from './routes/dashboard.js';
 import { outboundRoutes } from './routes/outbound.js';
+import { gatewayRoutes } from './routes/gateway.js';
 import { mediaStreamHandler } from './handlers/mediaStream.js';
 import { healthRoutes } from './routes/health.js';
 import { seedRoutes } from './routes/seed.js';
 import { scheduler } from './services/scheduler.js';
+import { activeCalls } from './services/activeCalls.js';
+import { validateStreamToken } from './utils/twilioSignature.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -56,10 +59,11 @@ async function start() {
     await app.register(twilioRoutes, { prefix: '/twilio' });
     await app.register(dashboardRoutes, { prefix: '/api/dashboard' });
     await app.register(outboundRoutes, { prefix: '/api' });
+    await app.register(gatewayRoutes, { prefix: '/gateway' });
     await app.register(seedRoutes);
 
-    // WebSocket route for Twilio Media Streams
-    app.get('/media-stream', { websocket: true }, mediaStreamHandler as any);
+    // WebSocket route for Twilio Media Streams (token issued in our TwiML is checked before upgrade)
+    app.get('/media-stream', { websocket: true, preValidation: validateStreamToken }, mediaStreamHandler as any);
 
     // Serve dashboard at root
     app.get('/', async (request, reply) => {
@@ -104,19 +108,28 @@ async function start() {
   }
 }
 
-// Graceful shutdown
-process.on('SIGINT', async () => {
-  console.log('\nShutting down gracefully...');
-  scheduler.stop();
-  await app.close();
-  process.exit(0);
-});
+// Graceful shutdown: stop taking calls, let active ones finish, then persist the rest
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
 
-process.on('SIGTERM', async () => {
-  console.log('\nShutting down gracefully...');
+  console.log(`\n${signal} received - draining ${activeCalls.size} active call(s)...`);
+  activeCalls.startDraining();
   scheduler.stop();
+
+  const drained = await activeCalls.waitForDrain(config.shutdown.drainTimeoutSeconds * 1000);
+  if (!drained) {
+    await activeCalls.finalizeAll('shutdown_deadline');
+  }
+
+  logger.info({ event: 'shutdown_complete', drained });
   await app.close();
   process.exit(0);
-});
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
 
 start();
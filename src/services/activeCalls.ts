@@ -0,0 +1,269 @@
+/**
+ * HALCYON AI RECEPTIONIST - ACTIVE CALL REGISTRY
+ *
+ * Process-wide view of calls currently connected to a media stream.
+ * Each mediaStreamHandler registers its call with controls that act on its own
+ * Twilio/OpenAI connections, so admin actions (hang up, inject a note,
+ * force a transfer) can reach a live call from the dashboard API.
+ *
+ * Also fans out live events (transcript lines, tool calls, status changes)
+ * to dashboard monitors listening to a call, and drains calls on shutdown.
+ */
+
+import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('active-calls');
+
+export interface LiveCallStatus {
+  phase: string;
+  callerName?: string;
+  outcome: string;
+  flags: {
+    urgent: boolean;
+    urgentReason?: string;
+    crisisMentioned: boolean;
+    transferRequested: boolean;
+  };
+}
+
+export interface ActiveCallControls {
+  getStatus: () => LiveCallStatus | null;
+  hangup: () => Promise<void>;
+  injectNote: (note: string) => void;
+  forceTransfer: (reason: string) => Promise<boolean>;
+  // Persist the intake now and end the call (shutdown deadline reached)
+  finalize: (reason: string) => Promise<void>;
+}
+
+export interface ActiveCallInfo {
+  callId: string;
+  callSid: string;
+  direction: 'inbound' | 'outbound';
+  callerPhone: string;
+  startedAt: Date;
+}
+
+export interface ActiveCallSnapshot extends ActiveCallInfo, Partial<LiveCallStatus> {
+  durationSeconds: number;
+  lastTranscript?: {
+    role: 'user' | 'assistant';
+    text: string;
+    at: Date;
+  };
+}
+
+export type LiveCallEvent =
+  | { type: 'transcript'; role: 'user' | 'assistant'; text: string; inputMethod?: 'keypad'; at: Date }
+  | { type: 'tool_call'; name: string; args: Record<string, unknown>; at: Date }
+  | { type: 'status'; status: LiveCallStatus; at: Date }
+  | { type: 'ended'; reason: string; at: Date };
+
+interface ActiveCallEntry {
+  info: ActiveCallInfo;
+  controls: ActiveCallControls;
+  lastTranscript?: ActiveCallSnapshot['lastTranscript'];
+}
+
+class ActiveCallRegistry {
+  private calls = new Map<string, ActiveCallEntry>();
+  private events = new EventEmitter();
+  private draining = false;
+
+  constructor() {
+    // One listener per open dashboard monitor
+    this.events.setMaxListeners(0);
+  }
+
+  register(info: ActiveCallInfo, controls: ActiveCallControls): void {
+    this.calls.set(info.callId, { info, controls });
+    log.info({ event: 'active_call_registered', callId: info.callId, activeCalls: this.calls.size });
+  }
+
+  /**
+   * Remove a call - safe to call more than once (stop, close and error paths all do)
+   */
+  unregister(callId: string, reason: string): void {
+    if (this.calls.delete(callId)) {
+      log.info({ event: 'active_call_unregistered', callId, reason, activeCalls: this.calls.size });
+      this.publish(callId, { type: 'ended', reason, at: new Date() });
+      this.events.emit('unregistered', callId);
+      if (this.calls.size === 0) {
+        this.events.emit('idle');
+      }
+    }
+  }
+
+  recordTranscript(callId: string, role: 'user' | 'assistant', text: string, inputMethod?: 'keypad'): void {
+    const entry = this.calls.get(callId);
+    if (entry) {
+      entry.lastTranscript = { role, text, at: new Date() };
+      this.publish(callId, { type: 'transcript', role, text, inputMethod, at: entry.lastTranscript.at });
+    }
+  }
+
+  recordToolCall(callId: string, name: string, args: Record<string, unknown>): void {
+    this.publish(callId, { type: 'tool_call', name, args, at: new Date() });
+  }
+
+  /**
+   * Push the call's current phase and flags to monitors (after anything that may change them)
+   */
+  publishStatus(callId: string): void {
+    const entry = this.calls.get(callId);
+    const status = entry?.controls.getStatus();
+    if (status) {
+      this.publish(callId, { type: 'status', status, at: new Date() });
+    }
+  }
+
+  /**
+   * Listen to live events for one call
+   * @returns Unsubscribe function
+   */
+  subscribe(callId: string, listener: (event: LiveCallEvent) => void): () => void {
+    this.events.on(callId, listener);
+    return () => {
+      this.events.off(callId, listener);
+    };
+  }
+
+  /**
+   * Listen for any call ending (a session slot freeing up)
+   * @returns Unsubscribe function
+   */
+  onCallEnded(listener: (callId: string) => void): () => void {
+    this.events.on('unregistered', listener);
+    return () => {
+      this.events.off('unregistered', listener);
+    };
+  }
+
+  private publish(callId: string, event: LiveCallEvent): void {
+    this.events.emit(callId, event);
+  }
+
+  get(callId: string): ActiveCallSnapshot | null {
+    const entry = this.calls.get(callId);
+    return entry ? this.toSnapshot(entry) : null;
+  }
+
+  /**
+   * All active calls, oldest first
+   */
+  list(): ActiveCallSnapshot[] {
+    return [...this.calls.values()]
+      .map(entry => this.toSnapshot(entry))
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
+  get size(): number {
+    return this.calls.size;
+  }
+
+  /**
+   * @returns false if the call is not active
+   */
+  async hangup(callId: string): Promise<boolean> {
+    const entry = this.calls.get(callId);
+    if (!entry) return false;
+
+    log.warn({ event: 'admin_hangup', callId });
+    await entry.controls.hangup();
+    return true;
+  }
+
+  /**
+   * @returns false if the call is not active
+   */
+  injectNote(callId: string, note: string): boolean {
+    const entry = this.calls.get(callId);
+    if (!entry) return false;
+
+    log.info({ event: 'admin_note_injected', callId, length: note.length });
+    entry.controls.injectNote(note);
+    return true;
+  }
+
+  /**
+   * @returns null if the call is not active, otherwise whether the transfer started
+   */
+  async forceTransfer(callId: string, reason: string): Promise<boolean | null> {
+    const entry = this.calls.get(callId);
+    if (!entry) return null;
+
+    log.warn({ event: 'admin_force_transfer', callId, reason });
+    const started = await entry.controls.forceTransfer(reason);
+    this.publishStatus(callId);
+    return started;
+  }
+
+  /**
+   * Stop taking new calls - /twilio/voice checks this before connecting the AI
+   */
+  startDraining(): void {
+    if (this.draining) return;
+    this.draining = true;
+    log.warn({ event: 'drain_started', activeCalls: this.calls.size });
+  }
+
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Wait for every active call to end on its own
+   * @returns false if calls were still active at the deadline
+   */
+  waitForDrain(timeoutMs: number): Promise<boolean> {
+    if (this.calls.size === 0) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+      const onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.events.off('idle', onIdle);
+        resolve(false);
+      }, timeoutMs);
+      this.events.once('idle', onIdle);
+    });
+  }
+
+  /**
+   * Force-finalize every call still active (persists each intake before the process exits)
+   */
+  async finalizeAll(reason: string): Promise<void> {
+    const entries = [...this.calls.values()];
+    log.warn({ event: 'force_finalizing_calls', count: entries.length, reason });
+
+    await Promise.all(entries.map(async entry => {
+      try {
+        await entry.controls.finalize(reason);
+      } catch (error) {
+        log.error({ event: 'force_finalize_failed', callId: entry.info.callId, error });
+      }
+      this.unregister(entry.info.callId, reason);
+    }));
+  }
+
+  private toSnapshot(entry: ActiveCallEntry): ActiveCallSnapshot {
+    let status: LiveCallStatus | null = null;
+    try {
+      status = entry.controls.getStatus();
+    } catch (error) {
+      log.error({ event: 'active_call_status_failed', callId: entry.info.callId, error });
+    }
+
+    return {
+      ...entry.info,
+      ...(status || {}),
+      durationSeconds: Math.round((Date.now() - entry.info.startedAt.getTime()) / 1000),
+      lastTranscript: entry.lastTranscript
+    };
+  }
+}
+
+// Export singleton instance
+export const activeCalls = new ActiveCallRegistry();
@@ -0,0 +1,139 @@
+/**
+ * HALCYON AI RECEPTIONIST - LOCAL CALL RECORDER
+ *
+ * Captures both sides of a media stream and writes a stereo WAV per call:
+ * - Left channel: caller (Twilio inbound μ-law frames, placed by stream timestamp)
+ * - Right channel: assistant (OpenAI audio deltas, placed by playback time)
+ *
+ * Outbound audio is streamed to Twilio faster than real time and queued there,
+ * so each chunk is placed at the later of "now" and the end of the previous chunk.
+ * When the caller interrupts and the Twilio queue is cleared, anything queued
+ * past "now" was never heard and is dropped from the recording.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import { createCallLogger } from '../utils/logger.js';
+import { decodeMulaw, buildWavHeader, pcm16ToBuffer, TELEPHONY_SAMPLE_RATE } from '../utils/audioCodec.js';
+
+const SAMPLE_RATE = TELEPHONY_SAMPLE_RATE; // Twilio media streams are 8kHz μ-law
+const SAMPLES_PER_MS = SAMPLE_RATE / 1000;
+
+interface AudioSegment {
+  offset: number; // Sample offset from the start of the stream
+  samples: Int16Array;
+}
+
+export class CallRecorder {
+  private callId: string;
+  private log;
+  private startedAt: number | null = null;
+  private inbound: AudioSegment[] = [];
+  private outbound: AudioSegment[] = [];
+  private outboundCursor = 0;
+
+  constructor(callId: string) {
+    this.callId = callId;
+    this.log = createCallLogger(callId);
+  }
+
+  /**
+   * Mark the start of the media stream (Twilio inbound timestamps are relative to this)
+   */
+  start(): void {
+    this.startedAt = Date.now();
+    this.log.info({ event: 'local_recording_started' });
+  }
+
+  /**
+   * Caller audio frame from the carrier
+   * @param timestampMs - Media timestamp (ms since stream start); arrival time if the carrier sends none
+   */
+  addInbound(payloadBase64: string, timestampMs?: number): void {
+    if (this.startedAt === null) return;
+
+    this.inbound.push({
+      offset: timestampMs !== undefined && Number.isFinite(timestampMs)
+        ? Math.round(timestampMs * SAMPLES_PER_MS)
+        : this.nowInSamples(),
+      samples: decodeMulaw(Buffer.from(payloadBase64, 'base64'))
+    });
+  }
+
+  /**
+   * Assistant audio chunk as it is sent to Twilio
+   */
+  addOutbound(payloadBase64: string): void {
+    if (this.startedAt === null) return;
+
+    const samples = decodeMulaw(Buffer.from(payloadBase64, 'base64'));
+    const offset = Math.max(this.outboundCursor, this.nowInSamples());
+
+    this.outbound.push({ offset, samples });
+    this.outboundCursor = offset + samples.length;
+  }
+
+  /**
+   * Twilio's playback queue was cleared - drop assistant audio that was never played
+   */
+  truncateOutbound(): void {
+    if (this.startedAt === null) return;
+
+    const now = this.nowInSamples();
+    this.outbound = this.outbound
+      .filter(segment => segment.offset < now)
+      .map(segment => segment.offset + segment.samples.length > now
+        ? { offset: segment.offset, samples: segment.samples.subarray(0, now - segment.offset) }
+        : segment);
+    this.outboundCursor = Math.min(this.outboundCursor, now);
+  }
+
+  /**
+   * Write the stereo WAV under config.recording.savePath
+   * @returns The file path, or null if nothing was recorded
+   */
+  async save(): Promise<string | null> {
+    if (this.startedAt === null || (this.inbound.length === 0 && this.outbound.length === 0)) {
+      return null;
+    }
+
+    const end = (segments: AudioSegment[]) =>
+      segments.reduce((max, s) => Math.max(max, s.offset + s.samples.length), 0);
+    const totalSamples = Math.max(end(this.inbound), end(this.outbound));
+
+    // Interleaved 16-bit stereo: [L0, R0, L1, R1, ...]
+    const pcm = new Int16Array(totalSamples * 2);
+    for (const segment of this.inbound) {
+      segment.samples.forEach((sample, i) => { pcm[(segment.offset + i) * 2] = sample; });
+    }
+    for (const segment of this.outbound) {
+      segment.samples.forEach((sample, i) => { pcm[(segment.offset + i) * 2 + 1] = sample; });
+    }
+
+    const filePath = path.join(config.recording.savePath, `${this.callId}.wav`);
+
+    try {
+      await fs.mkdir(config.recording.savePath, { recursive: true });
+      await fs.writeFile(filePath, Buffer.concat([
+        buildWavHeader(pcm.byteLength, { sampleRate: SAMPLE_RATE, channels: 2 }),
+        pcm16ToBuffer(pcm)
+      ]));
+
+      this.log.info({
+        event: 'local_recording_saved',
+        filePath,
+        durationSeconds: Math.round(totalSamples / SAMPLE_RATE)
+      });
+
+      return filePath;
+    } catch (error) {
+      this.log.error({ event: 'local_recording_save_failed', filePath, error });
+      return null;
+    }
+  }
+
+  private nowInSamples(): number {
+    return Math.round((Date.now() - (this.startedAt || Date.now())) * SAMPLES_PER_MS);
+  }
+}
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Config is read once at import - required settings must exist first
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID || 'ACtest',
+    TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN || 'test',
+    TWILIO_PHONE_NUMBER: process.env.TWILIO_PHONE_NUMBER || '+15550000000',
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY || 'sk-test-key',
+    LOG_LEVEL: 'silent'
+  });
+});
+
+import { CascadedConversationBackend } from './cascadedPipeline.js';
+import type { ConversationBackendOptions } from './conversationBackend.js';
+
+const TTS_CHUNK = new Uint8Array(480 * 2);           // 20ms of 24kHz pcm16 silence
+const LOUD_AUDIO = Buffer.alloc(160, 0x00).toString('base64');  // 20ms of full-scale μ-law
+
+interface ChatReply {
+  content: string | null;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+}
+
+// Stand-in for the OpenAI-compatible API: chat replies are served in order;
+// speech streams one chunk and then stays open until aborted (holdSpeech) or ends
+function stubApi(replies: Array<ChatReply | Error>, options: { holdSpeech?: boolean } = {}) {
+  const chatRequests: Array<{ messages: Array<Record<string, unknown>> }> = [];
+  let speechRequests = 0;
+
+  const fetchStub = vi.fn(async (url: string, init: RequestInit) => {
+    if (url.endsWith('/chat/completions')) {
+      chatRequests.push(JSON.parse(init.body as string));
+      const reply = replies.shift();
+      if (!reply || reply instanceof Error) {
+        return new Response('unavailable', { status: 503, statusText: 'Service Unavailable' });
+      }
+      return Response.json({ choices: [{ message: { role: 'assistant', ...reply } }] });
+    }
+
+    // The greeting always plays out - only later answers are held open
+    const hold = options.holdSpeech && ++speechRequests > 1;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(TTS_CHUNK);
+        if (!hold) {
+          controller.close();
+          return;
+        }
+        init.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+      }
+    });
+    return new Response(body);
+  });
+
+  vi.stubGlobal('fetch', fetchStub);
+  return { chatRequests };
+}
+
+function createBackend() {
+  const options = {
+    callId: 'CASCADE_TEST',
+    onAudioResponse: vi.fn(),
+    onTranscript: vi.fn(),
+    onFunctionCall: vi.fn(async () => ({ success: true })),
+    onInterruption: vi.fn(),
+    onError: vi.fn(),
+    onClose: vi.fn(),
+    onReconnect: vi.fn()
+  } satisfies ConversationBackendOptions;
+
+  return { backend: new CascadedConversationBackend(options), options };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('CascadedConversationBackend', () => {
+  it('still runs the tool calls of an answer the caller talks over', async () => {
+    const { chatRequests } = stubApi([
+      { content: 'Thank you for calling.' },
+      {
+        content: 'Let me save that for you.',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'save_intake', arguments: '{"name":"Jane"}' } }]
+      },
+      { content: 'Go ahead.' }
+    ], { holdSpeech: true });
+    const { backend, options } = createBackend();
+    await backend.connect();
+
+    backend.sendText('My name is Jane');
+    await vi.waitFor(() => expect(options.onAudioResponse).toHaveBeenCalledTimes(2));
+
+    // Caller talks over the answer while it is still being spoken
+    for (let i = 0; i < 10; i++) {
+      backend.sendAudio(LOUD_AUDIO);
+    }
+    expect(options.onInterruption).toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(options.onFunctionCall).toHaveBeenCalledWith('save_intake', { name: 'Jane' }));
+
+    // The call and its result are in the history the next answer is built from
+    backend.sendText('Sorry, go on');
+    await vi.waitFor(() => expect(chatRequests).toHaveLength(3));
+    expect(chatRequests[2].messages).toEqual(expect.arrayContaining([
+      expect.objectContaining({ role: 'assistant', tool_calls: [expect.objectContaining({ id: 'call_1' })] }),
+      { role: 'tool', tool_call_id: 'call_1', content: JSON.stringify({ success: true }) }
+    ]));
+    expect(options.onError).not.toHaveBeenCalled();
+
+    backend.close();
+  });
+
+  it('retries a failed answer once', async () => {
+    const { chatRequests } = stubApi([{ content: 'Hello.' }, new Error(), { content: 'Sorry, go ahead.' }]);
+    const { backend, options } = createBackend();
+    await backend.connect();
+
+    backend.sendText('Hi');
+
+    await vi.waitFor(() => expect(options.onTranscript).toHaveBeenCalledWith('assistant', 'Sorry, go ahead.', expect.any(String)));
+    expect(chatRequests).toHaveLength(3);
+    expect(options.onReconnect).not.toHaveBeenCalled();
+
+    backend.close();
+  });
+
+  it('hands the call to the fallback when the retry fails too', async () => {
+    stubApi([{ content: 'Hello.' }, new Error(), new Error()]);
+    const { backend, options } = createBackend();
+    await backend.connect();
+
+    backend.sendText('Hi');
+
+    await vi.waitFor(() => expect(options.onReconnect).toHaveBeenCalledWith('failed', 1));
+    expect(options.onError).toHaveBeenCalledTimes(1);
+
+    backend.close();
+  });
+});
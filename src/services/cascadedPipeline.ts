@@ -0,0 +1,619 @@
+/**
+ * HALCYON AI RECEPTIONIST - CASCADED CONVERSATION BACKEND
+ *
+ * ConversationBackend built from three request/response APIs instead of one
+ * speech-to-speech session:
+ *
+ *   caller μ-law -> speech detection -> speech-to-text -> chat completions
+ *   (same intake tools) -> text-to-speech -> μ-law back to the caller
+ *
+ * Works against any OpenAI-compatible API (CASCADE_API_BASE_URL), so firms can
+ * run cheaper or self-hosted models. Turn-taking is done here: the caller's
+ * turn ends after CASCADE_END_OF_TURN_SILENCE_MS of quiet, and speech while
+ * the assistant is answering cancels the answer in flight (barge-in).
+ */
+
+import { config } from '../config/index.js';
+import { createCallLogger } from '../utils/logger.js';
+import type { CallLanguage } from './language.js';
+import { SWITCH_TO_SPANISH_NOTE } from './spanishPrompts.js';
+import {
+  decodeMulaw,
+  encodeMulaw,
+  encodeWav,
+  pcm16FromBuffer,
+  resample,
+  rmsLevel,
+  TELEPHONY_SAMPLE_RATE,
+  REALTIME_PCM_SAMPLE_RATE
+} from '../utils/audioCodec.js';
+import type { ConversationBackend, ConversationBackendOptions } from './conversationBackend.js';
+import { emptyConversationUsage } from './costAccounting.js';
+import {
+  buildInstructions,
+  buildTools,
+  buildGreetingPrompt,
+  buildKeypadEntryInstruction,
+  buildKeypadActionInstruction,
+  buildSilencePromptInstruction,
+  FIRST_SILENCE_TIMEOUT_MS,
+  SILENCE_TIMEOUT_MS,
+  MAX_SILENCE_PROMPTS
+} from './conversationPrompts.js';
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletion {
+  choices?: { message: ChatMessage }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+// Caller audio is 8kHz μ-law, one byte per sample
+const ULAW_BYTES_PER_MS = TELEPHONY_SAMPLE_RATE / 1000;
+
+// Text-to-speech "pcm" output is 24kHz 16-bit mono - 3 samples per 8kHz sample
+const TTS_SAMPLES_PER_ULAW_SAMPLE = REALTIME_PCM_SAMPLE_RATE / TELEPHONY_SAMPLE_RATE;
+
+const SPEECH_START_MS = 200;   // Voiced audio needed before the caller counts as speaking
+const PRE_ROLL_MS = 300;       // Audio kept from before speech was detected (first syllable)
+const MAX_TURN_MS = 30000;     // Cut a turn off here even if the line never goes quiet
+const MAX_TOOL_ROUNDS = 5;     // Chat completion round trips per turn
+
+// Give up on the greeting after this long (the caller falls back to the scripted intake)
+const CONNECT_TIMEOUT_MS = 10000;
+
+export class CascadedConversationBackend implements ConversationBackend {
+  readonly name = 'cascaded' as const;
+  private options: ConversationBackendOptions;
+  private log;
+  private isConnected = false;
+  private language: CallLanguage;
+  private messages: ChatMessage[] = [];
+
+  // Turn bookkeeping - every new turn bumps the counter, so stale requests drop their results
+  private turn = 0;
+  private abort: AbortController | null = null;
+  private responseInProgress = false;
+  private itemCount = 0;
+
+  // Speech detection on caller audio
+  private speaking = false;
+  private voicedMs = 0;
+  private silentMs = 0;
+  private speechMs = 0;
+  private preRoll: Buffer[] = [];
+  private speechChunks: Buffer[] = [];
+
+  // Barge-in bookkeeping per assistant item: audio generated and the history message it spoke
+  private generatedAudioMs = new Map<string, number>();
+  private spokenMessages = new Map<string, ChatMessage>();
+
+  private silenceTimeout: NodeJS.Timeout | null = null;
+  private silencePromptCount = 0;
+  private callEnding = false;
+  private usage = emptyConversationUsage();  // Counted per request - a cancelled turn was still billed
+
+  constructor(options: ConversationBackendOptions) {
+    this.options = options;
+    this.language = options.language || 'en';
+    this.log = createCallLogger(options.callId);
+  }
+
+  /**
+   * Nothing to open - connecting means producing the greeting, so an
+   * unreachable API fails here and the caller gets the scripted fallback
+   */
+  async connect(): Promise<void> {
+    const cascade = config.conversation.cascade;
+    this.log.info({
+      event: 'cascade_connecting',
+      apiBaseUrl: cascade.apiBaseUrl,
+      sttModel: cascade.sttModel,
+      chatModel: cascade.chatModel,
+      ttsModel: cascade.ttsModel,
+      language: this.language
+    });
+
+    this.messages = [
+      { role: 'system', content: buildInstructions(this.options, this.language) },
+      { role: 'user', content: buildGreetingPrompt(this.options, this.language) }
+    ];
+    this.isConnected = true;
+
+    const turn = this.beginTurn();
+    const abort = this.abort;
+    const connectTimer = setTimeout(() => abort?.abort(), CONNECT_TIMEOUT_MS);
+
+    try {
+      await this.respond(turn);
+      this.log.info({ event: 'cascade_connected' });
+    } catch (error) {
+      this.isConnected = false;
+      throw abort?.signal.aborted
+        ? new Error(`Cascaded greeting timed out after ${CONNECT_TIMEOUT_MS}ms`)
+        : error;
+    } finally {
+      clearTimeout(connectTimer);
+    }
+  }
+
+  sendAudio(audioBase64: string): void {
+    if (!this.isConnected) return;
+
+    const chunk = Buffer.from(audioBase64, 'base64');
+    const chunkMs = chunk.length / ULAW_BYTES_PER_MS;
+    const voiced = rmsLevel(decodeMulaw(chunk)) >= config.conversation.cascade.vadThreshold;
+
+    if (!this.speaking) {
+      this.preRoll.push(chunk);
+      while (this.preRoll.length > 1 && this.bufferedMs(this.preRoll) > PRE_ROLL_MS) {
+        this.preRoll.shift();
+      }
+
+      this.voicedMs = voiced ? this.voicedMs + chunkMs : 0;
+      if (this.voicedMs >= SPEECH_START_MS) {
+        this.handleSpeechStarted();
+      }
+      return;
+    }
+
+    this.speechChunks.push(chunk);
+    this.speechMs += chunkMs;
+    this.silentMs = voiced ? 0 : this.silentMs + chunkMs;
+
+    if (this.silentMs >= config.conversation.cascade.endOfTurnSilenceMs || this.speechMs >= MAX_TURN_MS) {
+      this.handleSpeechStopped();
+    }
+  }
+
+  /**
+   * The caller heard audioEndMs of an assistant item - keep only that much of
+   * it in the history, so the model knows what was actually said
+   */
+  truncateAudio(itemId: string, audioEndMs: number): void {
+    const message = this.spokenMessages.get(itemId);
+    if (!message) return;
+
+    const generatedMs = this.generatedAudioMs.get(itemId) || 0;
+    const spokenFraction = generatedMs > 0 ? Math.min(1, Math.max(0, audioEndMs) / generatedMs) : 0;
+
+    if (message.content && spokenFraction < 1) {
+      const words = message.content.split(/\s+/);
+      message.content = words.slice(0, Math.ceil(words.length * spokenFraction)).join(' ') + '...';
+    }
+
+    this.log.info({
+      event: 'assistant_audio_truncated',
+      itemId,
+      audioEndMs: Math.floor(audioEndMs),
+      generatedMs: Math.round(generatedMs)
+    });
+
+    this.options.onTranscriptTruncated?.(itemId, spokenFraction);
+  }
+
+  sendText(text: string): void {
+    if (!this.isConnected) return;
+
+    this.messages.push({ role: 'user', content: text });
+    this.startResponse();
+  }
+
+  /**
+   * Add a supervisor note to the conversation without interrupting the caller -
+   * the model takes it into account on its next turn
+   */
+  injectNote(note: string): void {
+    if (!this.isConnected) return;
+
+    this.messages.push({ role: 'system', content: `[SUPERVISOR NOTE - do not read aloud: ${note}]` });
+    this.log.info({ event: 'supervisor_note_injected' });
+  }
+
+  sendKeypadEntry(digits: string): void {
+    this.sendKeypadInstruction(buildKeypadEntryInstruction(digits));
+  }
+
+  sendKeypadAction(action: 'transfer' | 'repeat', key: string): void {
+    this.sendKeypadInstruction(buildKeypadActionInstruction(action, key));
+  }
+
+  /**
+   * Switch an inbound call to another language mid-call - swaps the system
+   * prompt and tool descriptions, and the transcription language hint
+   */
+  switchLanguage(language: CallLanguage): void {
+    if (language === this.language || this.options.outbound) return;
+    this.language = language;
+
+    if (!this.isConnected) return;
+
+    this.messages[0] = { role: 'system', content: buildInstructions(this.options, language) };
+    if (language === 'es') {
+      this.messages.push({ role: 'system', content: SWITCH_TO_SPANISH_NOTE });
+    }
+
+    this.log.info({ event: 'language_switched', language });
+  }
+
+  /**
+   * Call this when the AI says goodbye or the call is concluding
+   */
+  markCallEnding(): void {
+    this.callEnding = true;
+    this.clearSilenceTimeout();
+    this.log.info({ event: 'call_marked_ending', message: 'Silence prompts disabled for call conclusion' });
+  }
+
+  getUsage() {
+    return { ...this.usage };
+  }
+
+  close(): void {
+    this.clearSilenceTimeout();
+    this.cancelTurn();
+
+    if (this.isConnected) {
+      this.isConnected = false;
+      this.options.onClose();
+    }
+  }
+
+  // Speech detection
+
+  private handleSpeechStarted(): void {
+    this.speaking = true;
+    this.speechChunks = this.preRoll;
+    this.speechMs = this.bufferedMs(this.preRoll);
+    this.preRoll = [];
+    this.silentMs = 0;
+
+    // Caller started speaking - cancel silence timeout and stop any answer in flight (barge-in)
+    this.log.debug({ event: 'user_speech_started' });
+    this.clearSilenceTimeout();
+    if (this.responseInProgress) {
+      this.cancelTurn();
+    }
+    this.options.onInterruption();
+  }
+
+  private handleSpeechStopped(): void {
+    const audio = Buffer.concat(this.speechChunks);
+    this.speaking = false;
+    this.voicedMs = 0;
+    this.speechChunks = [];
+
+    this.log.debug({ event: 'user_speech_stopped', speechMs: Math.round(this.speechMs) });
+    this.options.onSpeechStopped?.();
+    this.handleCallerTurn(audio);
+  }
+
+  // Turns
+
+  private async handleCallerTurn(audio: Buffer, retried = false): Promise<void> {
+    const turn = this.beginTurn();
+    let heard = false;
+
+    try {
+      const text = await this.transcribe(audio, this.abort!.signal);
+      if (turn !== this.turn) return;
+
+      if (!text) {
+        // Noise, a cough, a door - nothing to answer
+        this.endTurn(turn);
+        return;
+      }
+
+      this.options.onTranscript('user', text);
+      this.resetSilenceCounter();
+      this.messages.push({ role: 'user', content: text });
+      heard = true;
+
+      await this.respond(turn);
+    } catch (error) {
+      // Once the caller's words are in the history, only the answer is retried
+      const retry = retried ? null
+        : heard ? () => this.startResponse(true)
+        : () => this.handleCallerTurn(audio, true);
+      this.handleTurnError(turn, error, retry);
+    }
+  }
+
+  private startResponse(retried = false): void {
+    const turn = this.beginTurn();
+    this.respond(turn).catch(error => this.handleTurnError(turn, error, retried ? null : () => this.startResponse(true)));
+  }
+
+  /**
+   * Run chat completions until the model answers in words (calling tools on
+   * the way), and speak the answer
+   */
+  private async respond(turn: number): Promise<void> {
+    const signal = this.abort!.signal;
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const message = await this.complete(signal);
+
+      if (message.content && turn === this.turn) {
+        this.messages.push({ role: 'assistant', content: message.content });
+        try {
+          await this.speak(turn, this.messages[this.messages.length - 1], signal);
+        } catch (error) {
+          // Speech cut off by barge-in - the tool calls below still run
+          if (turn === this.turn) throw error;
+        }
+      }
+
+      // Tool calls run even if the caller barged in meanwhile (the intake is
+      // saved, the call still ends), and their results go into the history
+      // together with the call - the history must stay well-formed
+      if (message.tool_calls?.length) {
+        const results: ChatMessage[] = [];
+        for (const call of message.tool_calls) {
+          results.push({
+            role: 'tool',
+            tool_call_id: call.id,
+            content: JSON.stringify(await this.runTool(call))
+          });
+        }
+        this.messages.push({ role: 'assistant', content: null, tool_calls: message.tool_calls }, ...results);
+      }
+
+      if (turn !== this.turn) return;
+      if (!message.tool_calls?.length) break;
+    }
+
+    this.endTurn(turn);
+  }
+
+  private async runTool(call: ChatToolCall): Promise<unknown> {
+    try {
+      const args = JSON.parse(call.function.arguments || '{}');
+      this.log.info({ event: 'function_call', name: call.function.name, args });
+      return await this.options.onFunctionCall(call.function.name, args);
+    } catch (error) {
+      this.log.error({ event: 'function_call_error', name: call.function.name, error });
+      return { error: 'Function execution failed' };
+    }
+  }
+
+  private sendKeypadInstruction(text: string): void {
+    if (!this.isConnected) return;
+
+    this.clearSilenceTimeout();
+    this.resetSilenceCounter();
+
+    if (this.responseInProgress) {
+      this.cancelTurn();
+      this.options.onInterruption();
+    }
+
+    this.messages.push({ role: 'user', content: text });
+    this.startResponse();
+  }
+
+  private beginTurn(): number {
+    this.abort?.abort();
+    this.abort = new AbortController();
+    this.responseInProgress = true;
+    this.clearSilenceTimeout();
+    return ++this.turn;
+  }
+
+  private endTurn(turn: number): void {
+    if (turn !== this.turn) return;
+
+    this.abort = null;
+    this.responseInProgress = false;
+    this.log.debug({ event: 'response_complete' });
+    // Start silence timeout - if user doesn't respond within X seconds, re-prompt
+    this.startSilenceTimeout();
+  }
+
+  private cancelTurn(): void {
+    this.abort?.abort();
+    this.abort = null;
+    this.responseInProgress = false;
+    this.turn++;
+  }
+
+  /**
+   * A failed turn is retried once; a second failure hands the caller to the
+   * scripted fallback, the same as a realtime session that can't reconnect
+   */
+  private handleTurnError(turn: number, error: unknown, retry: (() => void) | null): void {
+    // Cancelled by barge-in or a newer turn - expected
+    if (turn !== this.turn) return;
+
+    this.abort = null;
+    this.responseInProgress = false;
+
+    if (retry) {
+      this.log.warn({ event: 'cascade_turn_retry', error });
+      retry();
+      return;
+    }
+
+    this.log.error({ event: 'cascade_turn_failed', error });
+    this.options.onError(error instanceof Error ? error : new Error(String(error)));
+    this.options.onReconnect?.('failed', 1);
+  }
+
+  // API calls
+
+  private async transcribe(audio: Buffer, signal: AbortSignal): Promise<string> {
+    const cascade = config.conversation.cascade;
+    const form = new FormData();
+    form.append('file', new Blob([encodeWav(decodeMulaw(audio), TELEPHONY_SAMPLE_RATE)], { type: 'audio/wav' }), 'caller.wav');
+    form.append('model', cascade.sttModel);
+    form.append('language', this.language);
+
+    const response = await fetch(`${cascade.apiBaseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${cascade.apiKey}` },
+      body: form,
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription failed: ${response.status} ${response.statusText}`);
+    }
+    this.usage.transcribedSeconds += audio.length / TELEPHONY_SAMPLE_RATE;
+
+    const result = await response.json() as { text?: string };
+    return (result.text || '').trim();
+  }
+
+  private async complete(signal: AbortSignal): Promise<ChatMessage> {
+    const cascade = config.conversation.cascade;
+    const tools = buildTools(this.options, this.language).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+
+    const response = await fetch(`${cascade.apiBaseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${cascade.apiKey}`
+      },
+      body: JSON.stringify({
+        model: cascade.chatModel,
+        messages: this.messages,
+        tools,
+        tool_choice: 'auto',
+        temperature: 0.6,
+        max_tokens: 512
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat completion failed: ${response.status} ${response.statusText}`);
+    }
+
+    const completion = await response.json() as ChatCompletion;
+    const cached = completion.usage?.prompt_tokens_details?.cached_tokens || 0;
+    this.usage.inputTextTokens += (completion.usage?.prompt_tokens || 0) - cached;
+    this.usage.cachedInputTokens += cached;
+    this.usage.outputTextTokens += completion.usage?.completion_tokens || 0;
+
+    const message = completion.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('Chat completion returned no message');
+    }
+
+    return message;
+  }
+
+  /**
+   * Stream text-to-speech to the caller as it arrives - downsampled to 8kHz
+   * and μ-law encoded
+   */
+  private async speak(turn: number, message: ChatMessage, signal: AbortSignal): Promise<void> {
+    const cascade = config.conversation.cascade;
+    const text = message.content || '';
+    const itemId = `cascade_${turn}_${++this.itemCount}`;
+
+    const response = await fetch(`${cascade.apiBaseUrl}/audio/speech`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${cascade.apiKey}`
+      },
+      body: JSON.stringify({
+        model: cascade.ttsModel,
+        voice: cascade.ttsVoice,
+        input: text,
+        response_format: 'pcm'
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Speech synthesis failed: ${response.status} ${response.statusText}`);
+    }
+    this.usage.synthesizedCharacters += text.length;
+    if (turn !== this.turn) return;
+
+    this.spokenMessages.set(itemId, message);
+    this.options.onTranscript('assistant', text, itemId);
+
+    const reader = response.body.getReader();
+    const frameBytes = TTS_SAMPLES_PER_ULAW_SAMPLE * 2;
+    let carry = Buffer.alloc(0);
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || turn !== this.turn) break;
+
+      const pcm = Buffer.concat([carry, Buffer.from(value)]);
+      const usable = pcm.length - (pcm.length % frameBytes);
+      carry = pcm.subarray(usable);
+      if (usable === 0) continue;
+
+      const ulaw = encodeMulaw(resample(pcm16FromBuffer(pcm.subarray(0, usable)), REALTIME_PCM_SAMPLE_RATE, TELEPHONY_SAMPLE_RATE));
+      this.generatedAudioMs.set(itemId, (this.generatedAudioMs.get(itemId) || 0) + ulaw.length / ULAW_BYTES_PER_MS);
+      this.options.onAudioResponse(ulaw.toString('base64'), itemId);
+    }
+  }
+
+  private bufferedMs(chunks: Buffer[]): number {
+    return chunks.reduce((total, chunk) => total + chunk.length, 0) / ULAW_BYTES_PER_MS;
+  }
+
+  // Silence timeout handling - re-prompt if user doesn't respond
+  private startSilenceTimeout(): void {
+    this.clearSilenceTimeout();
+
+    if (this.callEnding || this.silencePromptCount >= MAX_SILENCE_PROMPTS) return;
+
+    const timeoutMs = this.silencePromptCount === 0 ? FIRST_SILENCE_TIMEOUT_MS : SILENCE_TIMEOUT_MS;
+    this.silenceTimeout = setTimeout(() => {
+      this.handleSilenceTimeout();
+    }, timeoutMs);
+  }
+
+  private clearSilenceTimeout(): void {
+    if (this.silenceTimeout) {
+      clearTimeout(this.silenceTimeout);
+      this.silenceTimeout = null;
+    }
+  }
+
+  private handleSilenceTimeout(): void {
+    if (this.callEnding || this.speaking) return;
+
+    this.silencePromptCount++;
+    this.log.info({ event: 'silence_timeout_triggered', prompt_count: this.silencePromptCount });
+
+    this.messages.push({ role: 'user', content: buildSilencePromptInstruction(this.silencePromptCount) });
+    this.startResponse();
+  }
+
+  private resetSilenceCounter(): void {
+    this.silencePromptCount = 0;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * HALCYON AI RECEPTIONIST - CONVERSATION BACKENDS
+ *
+ * The "brain" behind a call, behind one interface so vendors and models can be
+ * switched without touching the media stream handler or IntakeSession:
+ * - realtime: OpenAI Realtime speech-to-speech (OpenAIRealtimeClient)
+ * - cascaded: speech-to-text -> chat completions with the same tools -> text-to-speech
+ *   (CascadedConversationBackend)
+ *
+ * Chosen per call (backend stream parameter), else per dialed number
+ * (CONVERSATION_BACKEND_BY_NUMBER), else CONVERSATION_BACKEND.
+ * Audio in and out is base64 μ-law 8kHz, as carried by the telephony provider.
+ */
+
+import { config } from '../config/index.js';
+import type { IntakeMode } from './officeHours.js';
+import type { OutboundCallContext } from './outboundPrompts.js';
+import type { ReturningCaller } from './returningCallers.js';
+import type { CallLanguage } from './language.js';
+import type { ConversationUsage } from './costAccounting.js';
+import { OpenAIRealtimeClient } from './openaiRealtime.js';
+import { CascadedConversationBackend } from './cascadedPipeline.js';
+
+export type ConversationBackendName = 'realtime' | 'cascaded';
+
+export interface ConversationBackendOptions {
+  callId: string;
+  mode?: IntakeMode;
+  nextOpening?: string;  // Spoken description of when the office reopens (after-hours mode)
+  outbound?: OutboundCallContext;  // Set for calls we placed - replaces the inbound intake script
+  returningCaller?: ReturningCaller;  // Calling number matches a prior intake / callback request
+  language?: CallLanguage;  // Chosen before the stream started (menu / dialed number) - defaults to English
+  onAudioResponse: (audioBase64: string, itemId: string) => void;
+  onTranscript: (role: 'user' | 'assistant', text: string, itemId?: string) => void;
+  // Assistant item was cut off by the caller - spokenFraction of its audio was actually heard
+  onTranscriptTruncated?: (itemId: string, spokenFraction: number) => void;
+  onFunctionCall: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+  // Caller started speaking (or keyed input) - stop playback and truncate what wasn't heard
+  onInterruption: () => void;
+  // Caller finished speaking - the turn's response latency is measured from here
+  onSpeechStopped?: () => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+  // Recap of the call so far (recent exchanges + data collected) - replayed after a reconnect
+  getResumeContext?: () => string;
+  // Connection to the model dropped mid-call ('lost'), came back ('restored') or couldn't be restored ('failed')
+  onReconnect?: (outcome: 'lost' | 'restored' | 'failed', attempt: number) => void;
+}
+
+export interface ConversationBackend {
+  readonly name: ConversationBackendName;
+
+  /** Open the session and start the greeting - rejects if the backend is unreachable */
+  connect(): Promise<void>;
+
+  /** Caller audio (base64 μ-law 8kHz) */
+  sendAudio(audioBase64: string): void;
+
+  /** Caller barged in after hearing audioEndMs of an assistant item - drop the rest */
+  truncateAudio(itemId: string, audioEndMs: number): void;
+
+  /** Text turn from the caller's side (system instructions, e.g. a transfer announcement) */
+  sendText(text: string): void;
+
+  /** Supervisor note the model should take into account without reading aloud */
+  injectNote(note: string): void;
+
+  sendKeypadEntry(digits: string): void;
+  sendKeypadAction(action: 'transfer' | 'repeat', key: string): void;
+
+  /** Carry on in another language (caller's first utterance was Spanish) */
+  switchLanguage(language: CallLanguage): void;
+
+  /** The call is wrapping up - no more silence re-prompts */
+  markCallEnding(): void;
+
+  /** Model usage so far on this call (tokens, transcribed audio, synthesized text) */
+  getUsage(): ConversationUsage;
+
+  close(): void;
+}
+
+/**
+ * Normalize a backend name from a query string or setting
+ */
+export function parseConversationBackend(value?: string | null): ConversationBackendName | null {
+  return value === 'realtime' || value === 'cascaded' ? value : null;
+}
+
+/**
+ * Backend for a call to `to` - CONVERSATION_BACKEND_BY_NUMBER, else CONVERSATION_BACKEND
+ */
+export function backendForDialedNumber(to: string): ConversationBackendName {
+  const digits = to.replace(/\D/g, '');
+  const match = Object.entries(config.conversation.backendByNumber)
+    .find(([number]) => number.replace(/\D/g, '') === digits);
+
+  return parseConversationBackend(match?.[1]) || config.conversation.backend;
+}
+
+export function createConversationBackend(name: ConversationBackendName, options: ConversationBackendOptions): ConversationBackend {
+  return name === 'cascaded'
+    ? new CascadedConversationBackend(options)
+    : new OpenAIRealtimeClient(options);
+}
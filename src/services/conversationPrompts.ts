@@ -0,0 +1,125 @@
+/**
+ * HALCYON AI RECEPTIONIST - CONVERSATION SCRIPT
+ *
+ * What every conversation backend says and can do, independent of vendor:
+ * system instructions, tools, the opening prompt, keypad and silence
+ * instructions, and the silence re-prompt timing.
+ */
+
+import { INTAKE_SYSTEM_PROMPT, INTAKE_TOOLS, buildModeInstructions } from './intakePrompts.js';
+import { buildOutboundInstructions, buildOutboundGreeting, getOutboundTools } from './outboundPrompts.js';
+import {
+  buildReturningCallerInstructions,
+  buildReturningCallerGreetingHint,
+  VERIFY_RETURNING_CALLER_TOOL,
+  RESUME_INTAKE_TOOL
+} from './returningCallers.js';
+import { TWIML_PHRASES, type CallLanguage } from './language.js';
+import { SPANISH_INSTRUCTIONS, localizeTools } from './spanishPrompts.js';
+import type { ConversationBackendOptions } from './conversationBackend.js';
+
+// Silence timeout - how long to wait before re-prompting if user doesn't respond
+// First prompt waits longer (20s), subsequent prompts wait 15s
+export const FIRST_SILENCE_TIMEOUT_MS = 20000; // 20 seconds for first re-prompt (give caller plenty of time)
+export const SILENCE_TIMEOUT_MS = 15000; // 15 seconds for subsequent prompts
+export const MAX_SILENCE_PROMPTS = 2;   // Max times to re-prompt before giving up (reduced from 3)
+
+/**
+ * System instructions for the call (outbound script, or the intake prompt in the call's language)
+ */
+export function buildInstructions(options: ConversationBackendOptions, language: CallLanguage): string {
+  if (options.outbound) {
+    return buildOutboundInstructions(options.outbound);
+  }
+
+  const mode = options.mode || 'business_hours';
+  return INTAKE_SYSTEM_PROMPT +
+    buildModeInstructions(mode, options.nextOpening) +
+    (options.returningCaller ? buildReturningCallerInstructions(options.returningCaller) : '') +
+    (language === 'es' ? SPANISH_INSTRUCTIONS : '');
+}
+
+/**
+ * Tools for the call, with descriptions in the call's language
+ */
+export function buildTools(options: ConversationBackendOptions, language: CallLanguage) {
+  if (options.outbound) {
+    return getOutboundTools(options.outbound.purpose);
+  }
+
+  const caller = options.returningCaller;
+  const tools = !caller
+    ? INTAKE_TOOLS
+    : caller.resumableIntake
+      ? [...INTAKE_TOOLS, VERIFY_RETURNING_CALLER_TOOL, RESUME_INTAKE_TOOL]
+      : [...INTAKE_TOOLS, VERIFY_RETURNING_CALLER_TOOL];
+
+  return localizeTools(tools, language);
+}
+
+/**
+ * Instruction that opens the conversation - the caller has already heard a TwiML hold message
+ * (in the call's language)
+ */
+export function buildGreetingPrompt(options: ConversationBackendOptions, language: CallLanguage): string {
+  if (options.outbound) {
+    return buildOutboundGreeting(options.outbound);
+  }
+
+  const returningHint = options.returningCaller
+    ? buildReturningCallerGreetingHint(options.returningCaller)
+    : '';
+  const languageHint = language === 'es' ? ' Speak Spanish - the caller chose Spanish.' : '';
+
+  return options.mode === 'after_hours'
+    ? `[SYSTEM: Call connected after hours. The caller just heard a brief hold message. Now introduce yourself, mention that the office is currently closed but you can still help, and ask how you can help.${returningHint}${languageHint} Do NOT say hello again.]`
+    : `[SYSTEM: Call connected. The caller just heard "${TWIML_PHRASES[language].connecting}" Now introduce yourself and ask how you can help.${returningHint}${languageHint} Do NOT say hello again.]`;
+}
+
+/**
+ * Digits the caller typed, as an instruction to the model
+ */
+export function buildKeypadEntryInstruction(digits: string): string {
+  return `[KEYPAD: The caller typed "${digits}" on their phone keypad instead of speaking. ` +
+    'Treat these digits as their exact answer to your last question (for example a date of birth as MMDDYYYY, ' +
+    'a phone number, or a reference number). Read the value back to confirm it, then continue.]';
+}
+
+/**
+ * A mapped keypad shortcut (e.g. 0 = transfer, * = repeat), as an instruction to the model
+ */
+export function buildKeypadActionInstruction(action: 'transfer' | 'repeat', key: string): string {
+  const instructions = {
+    transfer: `[KEYPAD: The caller pressed ${key} to speak with a person. Call request_human_transfer now with the reason "Caller pressed ${key} on keypad".]`,
+    repeat: `[KEYPAD: The caller pressed ${key} to hear that again. Repeat your last question slowly and clearly, then wait for their answer.]`
+  };
+
+  return instructions[action];
+}
+
+/**
+ * Gentle "are you still there?" instruction for the nth silence re-prompt (1-based)
+ */
+export function buildSilencePromptInstruction(promptCount: number): string {
+  const prompts = [
+    "Are you still there? Take your time, I'm listening.",
+    "Hello? I want to make sure we're still connected."
+  ];
+
+  const promptText = prompts[Math.min(promptCount - 1, prompts.length - 1)];
+  return `[SYSTEM: The caller has been quiet. Very gently check if they're still there. Say something natural like: "${promptText}" Then wait patiently for their response.]`;
+}
+
+/**
+ * Instruction for a session opened after the connection dropped mid-call -
+ * it starts with no memory, so it gets a recap and the data collected so far
+ */
+export function buildResumeInstruction(context: string, language: CallLanguage): string {
+  const apology = language === 'es' ? '"Perdón, se cortó por un momento"' : '"Sorry, I lost you for a moment"';
+
+  return '[SYSTEM: The connection dropped for a few seconds and is back. You are in the middle of this call - ' +
+    'do NOT greet the caller or introduce yourself again.\n' +
+    (context ? `${context}\n` : '') +
+    `Say something short like ${apology}, then repeat your last question (or ask them to repeat what they just said) ` +
+    'and continue from where you left off. Do not ask again for information already collected.]';
+}
@@ -0,0 +1,103 @@
+/**
+ * HALCYON AI RECEPTIONIST - COST ACCOUNTING
+ *
+ * What a call cost, from configurable unit prices (PRICE_* settings, USD):
+ * - ai: model usage reported by the conversation backend
+ * - telephony: carrier minutes, each call rounded up to the minute the way Twilio bills
+ * - sms / email: messages sent on the call's behalf
+ *
+ * The breakdown is stored on the Call; DailyStats roll the day's calls up into
+ * cost per intake and cost per accepted case.
+ */
+
+import { config } from '../config/index.js';
+
+// Model usage for one call. Input token counts exclude cached tokens, which are
+// counted (and priced) separately.
+// A type alias (not an interface) so it stays assignable to Prisma's Json input
+export type ConversationUsage = {
+  inputTextTokens: number;
+  inputAudioTokens: number;
+  cachedInputTokens: number;
+  outputTextTokens: number;
+  outputAudioTokens: number;
+  transcribedSeconds: number;      // Cascaded: caller audio sent to speech-to-text
+  synthesizedCharacters: number;   // Cascaded: assistant text sent to text-to-speech
+};
+
+export type CallCostBreakdown = {
+  ai: number;
+  telephony: number;
+  sms: number;
+  email: number;
+  total: number;
+  telephonyMinutes: number;
+};
+
+export interface CallCostInput {
+  backend: string | null;  // ConversationBackendName the call ran on - priced as realtime if unknown
+  usage: ConversationUsage | null;
+  durationSeconds: number | null;
+  smsCount: number;
+  emailCount: number;
+}
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export function emptyConversationUsage(): ConversationUsage {
+  return {
+    inputTextTokens: 0,
+    inputAudioTokens: 0,
+    cachedInputTokens: 0,
+    outputTextTokens: 0,
+    outputAudioTokens: 0,
+    transcribedSeconds: 0,
+    synthesizedCharacters: 0
+  };
+}
+
+/**
+ * Round to a hundredth of a cent - per-call amounts are fractions of a cent
+ */
+export function roundCost(amount: number): number {
+  return Math.round(amount * 10000) / 10000;
+}
+
+function aiCost(backend: string | null, usage: ConversationUsage): number {
+  if (backend === 'cascaded') {
+    const prices = config.pricing.cascade;
+    return (
+      usage.inputTextTokens * prices.inputPer1M +
+      usage.cachedInputTokens * prices.cachedInputPer1M +
+      usage.outputTextTokens * prices.outputPer1M +
+      usage.synthesizedCharacters * prices.ttsPer1MCharacters
+    ) / TOKENS_PER_PRICE_UNIT + usage.transcribedSeconds / 60 * prices.sttPerMinute;
+  }
+
+  const prices = config.pricing.realtime;
+  return (
+    usage.inputTextTokens * prices.textInputPer1M +
+    usage.inputAudioTokens * prices.audioInputPer1M +
+    usage.cachedInputTokens * prices.cachedInputPer1M +
+    usage.outputTextTokens * prices.textOutputPer1M +
+    usage.outputAudioTokens * prices.audioOutputPer1M
+  ) / TOKENS_PER_PRICE_UNIT;
+}
+
+export function calculateCallCost(call: CallCostInput): CallCostBreakdown {
+  const telephonyMinutes = Math.ceil((call.durationSeconds || 0) / 60);
+
+  const ai = roundCost(call.usage ? aiCost(call.backend, call.usage) : 0);
+  const telephony = roundCost(telephonyMinutes * config.pricing.telephonyPerMinute);
+  const sms = roundCost(call.smsCount * config.pricing.smsEach);
+  const email = roundCost(call.emailCount * config.pricing.emailEach);
+
+  return {
+    ai,
+    telephony,
+    sms,
+    email,
+    total: roundCost(ai + telephony + sms + email),
+    telephonyMinutes
+  };
+}
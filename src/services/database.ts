@@ -5,10 +5,15 @@
  * DATABASE IS OPTIONAL - calls will work without persistence if DATABASE_URL is not set
  */
 
-import { PrismaClient, IntakeStatus, TaskPriority, TaskStatus, CallbackCategory, CallbackPriority } from '@prisma/client';
-import { IntakeResult } from './intakeSession.js';
+import { PrismaClient, IntakeStatus, TaskPriority, TaskStatus, CallbackCategory, CallbackPriority, OutboundOutcome, CallDirection, Prisma } from '@prisma/client';
+import type { IntakeResult, IntakeCheckpoint, IntakeData, TranscriptEntry } from './intakeSession.js';
+import type { LatencySample } from './latencyTracker.js';
+import { calculateCallCost, roundCost, type ConversationUsage } from './costAccounting.js';
 import { logger } from '../utils/logger.js';
 
+// Twilio CallStatus values after which the call is over
+const TERMINAL_CALL_STATUSES = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+
 // Check if database is configured
 const isDatabaseConfigured = !!process.env.DATABASE_URL;
 
@@ -47,102 +52,117 @@ export class DatabaseService {
     }
 
     try {
-      const intake = await prisma.intake.create({
-        data: {
-          callId: result.callId,
-          intakeId: result.intakeId,
-          callDuration: result.data.transcript.length > 0
-            ? Math.floor((new Date().getTime() - result.createdAt.getTime()) / 1000)
-            : null,
-          callerPhone: result.data.demographics.phone || 'unknown',
-
-          // Client info
-          firstName: result.data.demographics.firstName,
-          lastName: result.data.demographics.lastName,
-          dateOfBirth: result.data.demographics.dateOfBirth
-            ? new Date(result.data.demographics.dateOfBirth)
-            : null,
-          age: result.data.demographics.age,
-          email: result.data.demographics.email,
-          city: result.data.demographics.city,
-          state: result.data.demographics.state,
-
-          // Education
-          educationLevel: result.data.education.level,
-          educationDetails: result.data.education.details,
-
-          // Medical
-          conditions: result.data.medical.conditions,
-          severity: result.data.medical.severity,
-          durationMonths: result.data.medical.durationMonths,
-          treatments: result.data.medical.treatments,
-          hospitalizations: result.data.medical.hospitalizations || 0,
-          medications: result.data.medical.medications,
-          sideEffects: result.data.medical.sideEffects,
-
-          // Functional limitations
-          functionalLimitations: result.data.functionalLimitations as object,
-
-          // Work history
-          workHistory: result.data.workHistory.jobs,
-          totalWorkYears: result.data.workHistory.totalWorkYears,
-          lastWorkDate: result.data.workHistory.lastWorkDate
-            ? new Date(result.data.workHistory.lastWorkDate)
-            : null,
-          currentlyWorking: result.data.workHistory.currentlyWorking || false,
-          heaviestLifting: result.data.workHistory.heaviestLifting,
-
-          // Application
-          applicationStatus: result.data.application.status,
-          denialDate: result.data.application.denialDate
-            ? new Date(result.data.application.denialDate)
-            : null,
-          hearingDate: result.data.application.hearingDate
-            ? new Date(result.data.application.hearingDate)
-            : null,
-
-          // Scoring
-          totalScore: result.scoring.totalScore,
-          recommendation: result.scoring.recommendation,
-          viabilityRating: result.scoring.viabilityRating,
-          approvalLikelihood: result.scoring.approvalLikelihood,
-          caseStrengths: result.scoring.caseStrengths,
-          caseConcerns: result.scoring.caseConcerns,
-
-          // Transcript
-          transcript: result.data.transcript,
-
-          // Flags
-          isUrgent: result.flags.urgent,
-          urgentReason: result.flags.urgentReason,
-          crisisMentioned: result.flags.crisisMentioned,
-          transferRequested: result.flags.transferRequested,
-
-          // SMS Consent (TCPA Compliance)
-          smsConsentGiven: result.data.smsConsent?.consentGiven || false,
-          smsConsentTimestamp: result.data.smsConsent?.consentTimestamp,
-          smsConsentPhone: result.data.smsConsent?.phoneNumber,
-          smsConsentMethod: result.data.smsConsent?.consentGiven ? 'verbal_during_intake_call' : null,
-
-          // Notes
-          aiNotes: result.data.notes,
-
-          // Status
-          status: this.mapRecommendationToStatus(result.scoring.recommendation)
-        }
-      });
+      const fields = {
+        callerPhone: result.data.demographics.phone || 'unknown',
+
+        // Client info
+        firstName: result.data.demographics.firstName,
+        lastName: result.data.demographics.lastName,
+        dateOfBirth: result.data.demographics.dateOfBirth
+          ? new Date(result.data.demographics.dateOfBirth)
+          : null,
+        age: result.data.demographics.age,
+        email: result.data.demographics.email,
+        city: result.data.demographics.city,
+        state: result.data.demographics.state,
+
+        // Education
+        educationLevel: result.data.education.level,
+        educationDetails: result.data.education.details,
+
+        // Medical
+        conditions: result.data.medical.conditions,
+        severity: result.data.medical.severity,
+        durationMonths: result.data.medical.durationMonths,
+        treatments: result.data.medical.treatments,
+        hospitalizations: result.data.medical.hospitalizations || 0,
+        medications: result.data.medical.medications,
+        sideEffects: result.data.medical.sideEffects,
+
+        // Functional limitations
+        functionalLimitations: result.data.functionalLimitations as object,
+
+        // Work history
+        workHistory: result.data.workHistory.jobs,
+        totalWorkYears: result.data.workHistory.totalWorkYears,
+        lastWorkDate: result.data.workHistory.lastWorkDate
+          ? new Date(result.data.workHistory.lastWorkDate)
+          : null,
+        currentlyWorking: result.data.workHistory.currentlyWorking || false,
+        heaviestLifting: result.data.workHistory.heaviestLifting,
+
+        // Application
+        applicationStatus: result.data.application.status,
+        denialDate: result.data.application.denialDate
+          ? new Date(result.data.application.denialDate)
+          : null,
+        hearingDate: result.data.application.hearingDate
+          ? new Date(result.data.application.hearingDate)
+          : null,
+
+        // Scoring
+        totalScore: result.scoring.totalScore,
+        recommendation: result.scoring.recommendation,
+        viabilityRating: result.scoring.viabilityRating,
+        approvalLikelihood: result.scoring.approvalLikelihood,
+        caseStrengths: result.scoring.caseStrengths,
+        caseConcerns: result.scoring.caseConcerns,
+
+        // Transcript
+        transcript: result.data.transcript,
+
+        // Flags
+        isUrgent: result.flags.urgent,
+        urgentReason: result.flags.urgentReason,
+        crisisMentioned: result.flags.crisisMentioned,
+        transferRequested: result.flags.transferRequested,
+
+        // SMS Consent (TCPA Compliance)
+        smsConsentGiven: result.data.smsConsent?.consentGiven || false,
+        smsConsentTimestamp: result.data.smsConsent?.consentTimestamp,
+        smsConsentPhone: result.data.smsConsent?.phoneNumber,
+        smsConsentMethod: result.data.smsConsent?.consentGiven ? 'verbal_during_intake_call' : null,
+
+        // Notes
+        aiNotes: result.data.notes,
+        isPartial: result.partial || false,
+        outcome: result.outcome,
+        language: result.language,
+
+        // Status
+        status: this.mapRecommendationToStatus(result.scoring.recommendation)
+      };
+
+      // A resumed intake already has its row from the dropped call - update it in place
+      const intake = result.resumed
+        ? await prisma.intake.update({
+            where: { intakeId: result.intakeId },
+            data: fields
+          })
+        : await prisma.intake.create({
+            data: {
+              ...fields,
+              callId: result.callId,
+              intakeId: result.intakeId,
+              callDuration: result.data.transcript.length > 0
+                ? Math.floor((new Date().getTime() - result.createdAt.getTime()) / 1000)
+                : null
+            }
+          });
 
       // Log activity
-      await this.logActivity(intake.id, 'intake_created', 'system', {
+      await this.logActivity(intake.id, result.resumed ? 'intake_resumed' : 'intake_created', 'system', {
         score: result.scoring.totalScore,
-        recommendation: result.scoring.recommendation
+        recommendation: result.scoring.recommendation,
+        partial: result.partial || false
       });
 
-      // Create follow-up task if high score
+      // Create follow-up task if high score (Spanish calls need a bilingual callback)
+      const languageSuffix = result.language === 'es' ? ' (Spanish)' : '';
       if (result.scoring.totalScore >= 70) {
         await this.createTask({
           intakeId: intake.id,
-          title: `High Priority Callback: ${result.data.demographics.firstName} ${result.data.demographics.lastName}`,
+          title: `High Priority Callback: ${result.data.demographics.firstName} ${result.data.demographics.lastName}${languageSuffix}`,
           description: `Score: ${result.scoring.totalScore}. Call within 24 hours.`,
           priority: 'URGENT',
           dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
@@ -150,7 +170,7 @@ export class DatabaseService {
       } else if (result.scoring.totalScore >= 45) {
         await this.createTask({
           intakeId: intake.id,
-          title: `Callback: ${result.data.demographics.firstName} ${result.data.demographics.lastName}`,
+          title: `Callback: ${result.data.demographics.firstName} ${result.data.demographics.lastName}${languageSuffix}`,
           description: `Score: ${result.scoring.totalScore}. Call within 48 hours.`,
           priority: 'HIGH',
           dueDate: new Date(Date.now() + 48 * 60 * 60 * 1000) // 48 hours
@@ -160,6 +180,8 @@ export class DatabaseService {
       // Update daily stats
       await this.updateDailyStats(result);
 
+      await this.linkCall(result.callId, { intakeId: intake.id });
+
       logger.info({
         event: 'intake_saved',
         intakeId: intake.id,
@@ -174,6 +196,55 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Checkpoint an in-progress intake (upsert on callId)
+   */
+  async saveIntakeDraft(callId: string, checkpoint: IntakeCheckpoint) {
+    if (!prisma) return null;
+
+    // Interfaces inside the checkpoint aren't assignable to Prisma's Json input type
+    const json = checkpoint as unknown as Prisma.InputJsonObject;
+
+    return prisma.intakeDraft.upsert({
+      where: { callId },
+      create: {
+        callId,
+        intakeId: checkpoint.intakeId,
+        callerPhone: checkpoint.callerInfo.callerPhone,
+        checkpoint: json
+      },
+      update: { checkpoint: json }
+    });
+  }
+
+  async deleteIntakeDraft(callId: string) {
+    if (!prisma) return;
+    await prisma.intakeDraft.deleteMany({ where: { callId } });
+  }
+
+  /**
+   * Drafts not checkpointed since the cutoff - their call is gone without a finalize
+   */
+  async listStaleIntakeDrafts(updatedBefore: Date, maxRecoveryAttempts: number) {
+    if (!prisma) return [];
+    return prisma.intakeDraft.findMany({
+      where: {
+        updatedAt: { lt: updatedBefore },
+        recoveryAttempts: { lt: maxRecoveryAttempts }
+      },
+      orderBy: { updatedAt: 'asc' },
+      take: 20
+    });
+  }
+
+  async recordIntakeDraftRecoveryFailure(callId: string) {
+    if (!prisma) return null;
+    return prisma.intakeDraft.update({
+      where: { callId },
+      data: { recoveryAttempts: { increment: 1 } }
+    });
+  }
+
   /**
    * Get intake by ID
    */
@@ -182,6 +253,7 @@ export class DatabaseService {
     return prisma.intake.findUnique({
       where: { id },
       include: {
+        calls: { orderBy: { createdAt: 'asc' } },
         tasks: true,
         activities: {
           orderBy: { createdAt: 'desc' },
@@ -196,8 +268,89 @@ export class DatabaseService {
    */
   async getIntakeByCallId(callId: string) {
     if (!prisma) return null;
-    return prisma.intake.findUnique({
-      where: { callId }
+    return prisma.intake.findFirst({
+      // A resumed intake keeps its first call's callId - later legs are linked through Call
+      where: { OR: [{ callId }, { calls: { some: { callId } } }] }
+    });
+  }
+
+  /**
+   * A saved intake rebuilt as session data, so a reconnecting caller can pick up where they left off
+   */
+  async getIntakeSessionData(intakeId: string): Promise<{ data: IntakeData; flags: IntakeResult['flags'] } | null> {
+    if (!prisma) return null;
+
+    const intake = await prisma.intake.findUnique({ where: { intakeId } });
+    if (!intake) return null;
+
+    const isoDate = (date: Date | null) => date ? date.toISOString().slice(0, 10) : undefined;
+
+    return {
+      data: {
+        demographics: {
+          firstName: intake.firstName ?? undefined,
+          lastName: intake.lastName ?? undefined,
+          dateOfBirth: isoDate(intake.dateOfBirth),
+          age: intake.age ?? undefined,
+          phone: intake.callerPhone,
+          email: intake.email ?? undefined,
+          city: intake.city ?? undefined,
+          state: intake.state ?? undefined
+        },
+        education: {
+          level: (intake.educationLevel ?? undefined) as IntakeData['education']['level'],
+          details: intake.educationDetails ?? undefined
+        },
+        medical: {
+          conditions: intake.conditions as string[],
+          severity: (intake.severity ?? undefined) as IntakeData['medical']['severity'],
+          durationMonths: intake.durationMonths ?? undefined,
+          treatments: intake.treatments as string[],
+          hospitalizations: intake.hospitalizations,
+          medications: intake.medications as string[],
+          sideEffects: intake.sideEffects as string[]
+        },
+        functionalLimitations: {
+          assistiveDevices: [],
+          ...(intake.functionalLimitations as object)
+        },
+        workHistory: {
+          jobs: intake.workHistory as IntakeData['workHistory']['jobs'],
+          heaviestLifting: (intake.heaviestLifting ?? undefined) as IntakeData['workHistory']['heaviestLifting'],
+          totalWorkYears: intake.totalWorkYears ?? undefined,
+          lastWorkDate: isoDate(intake.lastWorkDate),
+          currentlyWorking: intake.currentlyWorking
+        },
+        application: {
+          status: (intake.applicationStatus ?? undefined) as IntakeData['application']['status'],
+          denialDate: isoDate(intake.denialDate),
+          hearingDate: isoDate(intake.hearingDate)
+        },
+        smsConsent: {
+          consentGiven: intake.smsConsentGiven,
+          consentTimestamp: intake.smsConsentTimestamp ?? undefined,
+          phoneNumber: intake.smsConsentPhone ?? undefined
+        },
+        notes: intake.aiNotes || '',
+        transcript: intake.transcript as unknown as TranscriptEntry[]
+      },
+      flags: {
+        urgent: intake.isUrgent,
+        urgentReason: intake.urgentReason ?? undefined,
+        crisisMentioned: intake.crisisMentioned,
+        transferRequested: intake.transferRequested
+      }
+    };
+  }
+
+  /**
+   * Link a locally written call recording to the intake for this call
+   */
+  async setLocalRecordingPath(callId: string, filePath: string) {
+    if (!prisma) return null;
+    return prisma.intake.updateMany({
+      where: { OR: [{ callId }, { calls: { some: { callId } } }] },
+      data: { localRecordingPath: filePath }
     });
   }
 
@@ -281,6 +434,8 @@ export class DatabaseService {
           status: true,
           isUrgent: true,
           urgentReason: true,
+          isPartial: true,
+          language: true,
           conditions: true,
           applicationStatus: true
         }
@@ -326,6 +481,9 @@ export class DatabaseService {
       disposition
     });
 
+    // Cost per accepted case is counted against the day the intake came in
+    await this.refreshDailyCost(intake.createdAt);
+
     return intake;
   }
 
@@ -440,6 +598,29 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Get a system setting value (null if unset or no database)
+   */
+  async getSetting<T = unknown>(key: string): Promise<T | null> {
+    if (!prisma) return null;
+    const setting = await prisma.setting.findUnique({
+      where: { key }
+    });
+    return setting ? (setting.value as T) : null;
+  }
+
+  /**
+   * Create or replace a system setting value
+   */
+  async saveSetting(key: string, value: unknown) {
+    if (!prisma) return null;
+    return prisma.setting.upsert({
+      where: { key },
+      create: { key, value: value as object },
+      update: { value: value as object }
+    });
+  }
+
   /**
    * Get dashboard stats
    */
@@ -554,7 +735,9 @@ export class DatabaseService {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    const scoreCategory = result.scoring.totalScore >= 70 ? 'high'
+    // A resumed intake was already scored when its first call was saved
+    const scoreCategory = result.resumed ? null
+      : result.scoring.totalScore >= 70 ? 'high'
       : result.scoring.totalScore >= 45 ? 'medium' : 'low';
 
     await prisma.dailyStats.upsert({
@@ -601,7 +784,11 @@ export class DatabaseService {
     category: string;
     priority?: string;
     notes?: string;
-    transcript?: Array<{ role: string; content: string; timestamp: Date }>;
+    language?: string;
+    source?: 'ai' | 'ivr_fallback';
+    recordingUrl?: string;
+    recordingDuration?: number;
+    transcript?: Array<{ role: string; content: string; timestamp: Date; inputMethod?: string; interrupted?: boolean }>;
   }): Promise<string> {
     if (!prisma) {
       logger.warn({ event: 'callback_not_saved', reason: 'Database not configured' });
@@ -637,6 +824,10 @@ export class DatabaseService {
           category: categoryMap[params.category] || 'GENERAL',
           priority: priorityMap[params.priority || 'NORMAL'] || 'NORMAL',
           notes: params.notes,
+          language: params.language || 'en',
+          source: params.source || 'ai',
+          recordingUrl: params.recordingUrl,
+          recordingDuration: params.recordingDuration,
           transcript: params.transcript || []
         }
       });
@@ -653,13 +844,15 @@ export class DatabaseService {
 
       await prisma.task.create({
         data: {
-          title: `Callback: ${params.callerName || 'Unknown Caller'}`,
+          title: `Callback: ${params.callerName || 'Unknown Caller'}${params.source === 'ivr_fallback' ? ' (AI unavailable)' : ''}${params.language === 'es' ? ' (Spanish)' : ''}`,
           description: `Purpose: ${params.purpose}\nCategory: ${params.category}\nPhone: ${params.callerPhone}`,
           priority: priorityToTaskPriority[params.priority || 'NORMAL'] || 'MEDIUM',
           dueDate: new Date(Date.now() + dueHours * 60 * 60 * 1000)
         }
       });
 
+      await this.linkCall(params.callId, { callbackRequestId: callbackRequest.id });
+
       logger.info({
         event: 'callback_request_saved',
         callbackId: callbackRequest.id,
@@ -685,6 +878,78 @@ export class DatabaseService {
     });
   }
 
+  async getCallbackRequestByCallId(callId: string) {
+    if (!prisma) return null;
+    return prisma.callbackRequest.findUnique({
+      where: { callId }
+    });
+  }
+
+  /**
+   * Attach recording / transcription details that arrive after the callback request was saved
+   * @returns The updated request, or null if none exists for the call yet
+   */
+  async updateCallbackVoicemail(callId: string, data: {
+    recordingUrl?: string;
+    recordingDuration?: number;
+    transcription?: string;
+    category?: CallbackCategory;
+  }) {
+    if (!prisma) return null;
+
+    const existing = await prisma.callbackRequest.findUnique({ where: { callId } });
+    if (!existing) return null;
+
+    return prisma.callbackRequest.update({
+      where: { callId },
+      data
+    });
+  }
+
+  /**
+   * Fold a later request on the same call (e.g. the scripted fallback intake after
+   * the AI had already taken one) into the existing callback request - callId is unique
+   * @returns The merged request, or null if none exists for the call yet
+   */
+  async mergeIntoCallbackRequest(callId: string, params: {
+    callerPhone: string;
+    callerName?: string;
+    purpose: string;
+    category: string;
+    priority?: string;
+    notes?: string;
+    recordingUrl?: string;
+    recordingDuration?: number;
+  }) {
+    if (!prisma) return null;
+
+    const existing = await prisma.callbackRequest.findUnique({ where: { callId } });
+    if (!existing) return null;
+
+    const priorities: CallbackPriority[] = ['LOW', 'NORMAL', 'HIGH', 'URGENT'];
+    const priority = (priorities as string[]).includes(params.priority || '') ? params.priority as CallbackPriority : 'NORMAL';
+
+    const merged = await prisma.callbackRequest.update({
+      where: { callId },
+      data: {
+        callerPhone: existing.callerPhone === 'unknown' ? params.callerPhone : existing.callerPhone,
+        callerName: existing.callerName || params.callerName,
+        category: existing.category === 'GENERAL' && params.category !== 'GENERAL' ? params.category as CallbackCategory : existing.category,
+        priority: priorities.indexOf(priority) > priorities.indexOf(existing.priority) ? priority : existing.priority,
+        notes: [
+          existing.notes,
+          params.notes,
+          params.purpose !== existing.purpose ? `Also said: ${params.purpose}` : ''
+        ].filter(Boolean).join('\n'),
+        recordingUrl: params.recordingUrl ?? existing.recordingUrl,
+        recordingDuration: params.recordingDuration ?? existing.recordingDuration
+      }
+    });
+
+    logger.info({ event: 'callback_request_merged', callbackId: merged.id, callId });
+    return merged;
+  }
+
   /**
    * List callback requests
    */
@@ -753,6 +1018,451 @@ export class DatabaseService {
       }
     });
   }
+
+  /**
+   * Most recent intake and callback request from a phone number (returning caller lookup)
+   */
+  async getCallerHistory(callerPhone: string) {
+    if (!prisma) return null;
+
+    const [intake, callbackRequest, intakeCount, callbackCount] = await Promise.all([
+      prisma.intake.findFirst({
+        where: { callerPhone },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          intakeId: true,
+          createdAt: true,
+          updatedAt: true,
+          outcome: true,
+          firstName: true,
+          lastName: true,
+          dateOfBirth: true,
+          status: true,
+          conditions: true,
+          medications: true,
+          workHistory: true,
+          applicationStatus: true,
+          educationLevel: true,
+          assignedAttorney: true,
+          assignedParalegal: true
+        }
+      }),
+      prisma.callbackRequest.findFirst({
+        where: { callerPhone },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          callId: true,
+          createdAt: true,
+          callerName: true,
+          purpose: true,
+          category: true,
+          status: true
+        }
+      }),
+      prisma.intake.count({ where: { callerPhone } }),
+      prisma.callbackRequest.count({ where: { callerPhone } })
+    ]);
+
+    if (!intake && !callbackRequest) return null;
+
+    return { intake, callbackRequest, intakeCount, callbackCount };
+  }
+
+  /**
+   * Record a call as soon as Twilio hands it to us
+   * Idempotent on callSid - a retried or concurrent webhook returns the existing call (and its callId)
+   */
+  async createCall(data: {
+    callSid: string;
+    callId: string;
+    direction: CallDirection;
+    fromPhone: string;
+    toPhone: string;
+    status?: string;
+  }) {
+    if (!prisma) return null;
+    const status = data.status || 'initiated';
+
+    try {
+      return await prisma.call.upsert({
+        where: { callSid: data.callSid },
+        create: {
+          ...data,
+          status,
+          statusHistory: [{ event: status, at: new Date().toISOString() }]
+        },
+        update: {}
+      });
+    } catch (error) {
+      // Another webhook created it between the upsert's lookup and insert
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.call.findUnique({ where: { callSid: data.callSid } });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a call's latency samples (keyed by our callId - the media stream doesn't always know the CallSid)
+   */
+  async saveCallLatency(callId: string, samples: LatencySample[]) {
+    if (!prisma) return null;
+    return prisma.call.updateMany({
+      where: { callId },
+      data: { latency: samples }
+    });
+  }
+
+  /**
+   * Calls with latency samples, for the latency report
+   */
+  async getCallLatency(startDate: Date, endDate: Date) {
+    if (!prisma) return [];
+    return prisma.call.findMany({
+      where: {
+        createdAt: { gte: startDate, lte: endDate },
+        latency: { not: Prisma.DbNull }
+      },
+      select: { callId: true, createdAt: true, latency: true },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Store what the conversation backend used on a call, then cost it
+   */
+  async saveCallUsage(callId: string, data: { backend: string; usage: ConversationUsage; streamSeconds: number }) {
+    if (!prisma) return null;
+    await prisma.call.updateMany({
+      where: { callId },
+      data: { aiBackend: data.backend, aiUsage: data.usage, streamSeconds: data.streamSeconds }
+    });
+    return this.refreshCallCost(callId);
+  }
+
+  /**
+   * Count an SMS or email sent on a call's behalf, then re-cost the call.
+   * Never throws - the message has already gone out.
+   */
+  async recordCallMessage(callId: string, kind: 'sms' | 'email') {
+    if (!prisma) return;
+
+    try {
+      await prisma.call.updateMany({
+        where: { callId },
+        data: kind === 'sms' ? { smsCount: { increment: 1 } } : { emailCount: { increment: 1 } }
+      });
+      await this.refreshCallCost(callId);
+    } catch (error) {
+      logger.error({ event: 'call_message_count_failed', callId, kind, error });
+    }
+  }
+
+  /**
+   * Recompute a call's cost breakdown from its usage, duration and message
+   * counts, then the cost totals of the day it started
+   */
+  async refreshCallCost(callId: string) {
+    if (!prisma) return null;
+
+    const call = await prisma.call.findUnique({ where: { callId } });
+    if (!call) return null;
+
+    const cost = calculateCallCost({
+      backend: call.aiBackend,
+      usage: call.aiUsage as ConversationUsage | null,
+      // Twilio's duration once the status callback has it (SIP gateway calls never get one)
+      durationSeconds: call.duration ?? call.streamSeconds,
+      smsCount: call.smsCount,
+      emailCount: call.emailCount
+    });
+
+    await prisma.call.update({
+      where: { callId },
+      data: { cost, costTotal: cost.total }
+    });
+    await this.refreshDailyCost(call.createdAt);
+
+    return cost;
+  }
+
+  /**
+   * Recompute a day's cost totals from its calls, against the intakes created
+   * that day and those of them accepted so far
+   */
+  async refreshDailyCost(day: Date) {
+    if (!prisma) return null;
+
+    const date = new Date(day);
+    date.setHours(0, 0, 0, 0);
+    const nextDay = new Date(date);
+    nextDay.setDate(nextDay.getDate() + 1);
+    const createdAt = { gte: date, lt: nextDay };
+
+    const [calls, intakes, accepted] = await Promise.all([
+      prisma.call.aggregate({ where: { createdAt }, _sum: { costTotal: true } }),
+      prisma.intake.count({ where: { createdAt } }),
+      prisma.intake.count({ where: { createdAt, status: 'ACCEPTED' } })
+    ]);
+
+    const totalCost = roundCost(calls._sum.costTotal || 0);
+    const costs = {
+      totalCost,
+      casesAccepted: accepted,
+      costPerIntake: intakes > 0 ? roundCost(totalCost / intakes) : null,
+      costPerAcceptedCase: accepted > 0 ? roundCost(totalCost / accepted) : null
+    };
+
+    return prisma.dailyStats.upsert({
+      where: { date },
+      create: { date, ...costs },
+      update: costs
+    });
+  }
+
+  /**
+   * Daily cost totals, for the cost report
+   */
+  async getDailyCosts(startDate: Date, endDate: Date) {
+    if (!prisma) return [];
+
+    // DailyStats rows are keyed by local midnight - include startDate's own day
+    const firstDay = new Date(startDate);
+    firstDay.setHours(0, 0, 0, 0);
+
+    return prisma.dailyStats.findMany({
+      where: { date: { gte: firstDay, lte: endDate } },
+      select: {
+        date: true,
+        totalCost: true,
+        costPerIntake: true,
+        costPerAcceptedCase: true,
+        casesAccepted: true
+      },
+      orderBy: { date: 'asc' }
+    });
+  }
+
+  /**
+   * Get call by Twilio CallSid
+   */
+  async getCallBySid(callSid: string) {
+    if (!prisma) return null;
+    return prisma.call.findUnique({
+      where: { callSid }
+    });
+  }
+
+  /**
+   * Append a webhook event to the call's history, optionally updating other fields
+   * @returns The updated call, or null if the CallSid is unknown
+   */
+  async recordCallEvent(callSid: string, event: string, data: Prisma.CallUpdateInput = {}) {
+    if (!prisma) return null;
+
+    const entry = JSON.stringify([{ event, at: new Date().toISOString() }]);
+
+    // Append in the database, not read-modify-write - webhooks for one call arrive concurrently
+    return prisma.$transaction(async tx => {
+      const appended = await tx.$executeRaw`
+        UPDATE "Call"
+        SET "statusHistory" = "statusHistory" || ${entry}::jsonb
+        WHERE "callSid" = ${callSid}
+      `;
+      if (appended === 0) {
+        logger.warn({ event: 'call_event_unknown_sid', callSid, callEvent: event });
+        return null;
+      }
+
+      return tx.call.update({ where: { callSid }, data });
+    });
+  }
+
+  /**
+   * Apply a Twilio status callback - tracks answer/end times and copies the
+   * final duration onto the linked intake
+   */
+  async updateCallStatus(callSid: string, status: string, durationSeconds?: number) {
+    if (!prisma) return null;
+
+    const existing = await prisma.call.findUnique({ where: { callSid } });
+    const isTerminal = TERMINAL_CALL_STATUSES.includes(status);
+
+    const call = await this.recordCallEvent(callSid, status, {
+      status,
+      answeredAt: status === 'in-progress' && !existing?.answeredAt ? new Date() : undefined,
+      endedAt: isTerminal ? new Date() : undefined,
+      duration: durationSeconds
+    });
+
+    if (call?.intakeId && durationSeconds !== undefined) {
+      await this.syncIntakeDuration(call.intakeId);
+    }
+
+    // Billed minutes are final once Twilio reports the duration
+    if (call && isTerminal && durationSeconds !== undefined) {
+      await this.refreshCallCost(call.callId);
+    }
+
+    return call;
+  }
+
+  /**
+   * Store the Twilio recording for a call, and on its intake if one exists yet
+   */
+  async setCallRecording(callSid: string, recordingUrl: string, recordingSid: string, durationSeconds?: string) {
+    if (!prisma) return null;
+
+    const call = await this.recordCallEvent(callSid, 'recording_completed', { recordingUrl, recordingSid });
+
+    if (call?.intakeId) {
+      await prisma.intake.update({
+        where: { id: call.intakeId },
+        data: { recordingUrl }
+      });
+      await this.logActivity(call.intakeId, 'recording_saved', 'system', {
+        recordingSid,
+        duration: durationSeconds
+      });
+    }
+
+    return call;
+  }
+
+  /**
+   * Link a call to the intake or callback request it produced.
+   * Recording/duration webhooks may have arrived first, so copy them across.
+   */
+  private async linkCall(callId: string, link: { intakeId: string } | { callbackRequestId: string }) {
+    if (!prisma) return;
+
+    try {
+      const call = await prisma.call.findUnique({ where: { callId } });
+      if (!call) return;
+
+      await prisma.call.update({ where: { callId }, data: link });
+
+      if ('intakeId' in link && call.recordingUrl) {
+        await prisma.intake.update({
+          where: { id: link.intakeId },
+          data: { recordingUrl: call.recordingUrl }
+        });
+      }
+      if ('intakeId' in link && call.duration !== null) {
+        await this.syncIntakeDuration(link.intakeId);
+      }
+    } catch (error) {
+      logger.error({ event: 'call_link_failed', callId, error });
+    }
+  }
+
+  /**
+   * Intake call duration is the total across its calls (more than one when resumed)
+   */
+  private async syncIntakeDuration(intakeId: string) {
+    if (!prisma) return;
+
+    const total = await prisma.call.aggregate({
+      where: { intakeId },
+      _sum: { duration: true }
+    });
+
+    await prisma.intake.update({
+      where: { id: intakeId },
+      data: { callDuration: total._sum.duration }
+    });
+  }
+
+  /**
+   * Record a newly placed outbound call attempt
+   */
+  async createOutboundCall(data: Prisma.OutboundCallCreateInput) {
+    if (!prisma) return null;
+    return prisma.outboundCall.create({ data });
+  }
+
+  /**
+   * Get outbound call attempt by our call ID
+   */
+  async getOutboundCall(callId: string) {
+    if (!prisma) return null;
+    return prisma.outboundCall.findUnique({
+      where: { callId }
+    });
+  }
+
+  /**
+   * Get outbound call attempt by Twilio Call SID
+   */
+  async getOutboundCallBySid(callSid: string) {
+    if (!prisma) return null;
+    return prisma.outboundCall.findUnique({
+      where: { callSid }
+    });
+  }
+
+  /**
+   * Update an outbound call attempt
+   */
+  async updateOutboundCall(callId: string, data: Prisma.OutboundCallUpdateInput) {
+    if (!prisma) return null;
+    return prisma.outboundCall.update({
+      where: { callId },
+      data
+    });
+  }
+
+  /**
+   * List outbound call attempts (most recent first)
+   */
+  async listOutboundCalls(params: {
+    outcome?: OutboundOutcome;
+    toPhone?: string;
+    page?: number;
+    pageSize?: number;
+  }) {
+    if (!prisma) return { calls: [], pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0 } };
+    const { outcome, toPhone, page = 1, pageSize = 20 } = params;
+
+    const where: Record<string, unknown> = {};
+    if (outcome) where.outcome = outcome;
+    if (toPhone) where.toPhone = { contains: toPhone };
+
+    const [calls, total] = await Promise.all([
+      prisma.outboundCall.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      }),
+      prisma.outboundCall.count({ where })
+    ]);
+
+    return {
+      calls,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    };
+  }
+
+  /**
+   * Outbound attempts whose scheduled retry is due
+   */
+  async listDueOutboundRetries(now: Date = new Date()) {
+    if (!prisma) return [];
+    return prisma.outboundCall.findMany({
+      where: {
+        retryAt: { lte: now },
+        retryPlaced: false
+      },
+      orderBy: { retryAt: 'asc' },
+      take: 20
+    });
+  }
 }
 
 // Export singleton instance
@@ -10,6 +10,7 @@
 import sgMail from '@sendgrid/mail';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { LANGUAGE_NAMES, localizeTimeframe, type CallLanguage } from './language.js';
 
 // Initialize SendGrid
 if (config.email.sendgridApiKey) {
@@ -26,6 +27,7 @@ interface IntakeData {
   caseStrengths: string[];
   caseConcerns: string[];
   aiSummary?: string;
+  language?: CallLanguage;
   createdAt: Date;
 }
 
@@ -37,9 +39,68 @@ interface MessageData {
   category: string;
   priority: string;
   notes?: string;
+  language?: CallLanguage;
+  source?: 'ai' | 'ivr_fallback';
+  recordingUrl?: string;
+  transcription?: string;
+  transcriptionPending?: boolean;  // Voicemail still being transcribed - a follow-up email will carry it
+  transcriptionFollowUp?: boolean; // This email only adds the transcription to one already sent
   createdAt: Date;
 }
 
+// Client confirmation email copy per call language
+const CLIENT_CONFIRMATION_TEXT: Record<CallLanguage, {
+  subject: string;
+  greeting: (firstName: string) => string;
+  thanks: string;
+  referenceLabel: string;
+  referenceHint: string;
+  nextStepsTitle: string;
+  nextSteps: (callbackTimeframe: string) => string;
+  urgentQuestions: string;
+  phoneLabel: string;
+  websiteLabel: string;
+  closing: string;
+  signOff: string;
+  team: string;
+  footer: string;
+}> = {
+  en: {
+    subject: `Thank you for contacting ${config.firm.name}`,
+    greeting: firstName => `Dear ${firstName},`,
+    thanks: `Thank you for calling ${config.firm.name} today regarding your Social Security Disability case. We appreciate you taking the time to share your information with us.`,
+    referenceLabel: 'Your Reference Number',
+    referenceHint: 'Please save this for your records',
+    nextStepsTitle: 'What happens next?',
+    nextSteps: timeframe => `An attorney will review your case information and contact you within <strong>${timeframe}</strong>.`,
+    urgentQuestions: 'If you have any urgent questions in the meantime, please don\'t hesitate to call us.',
+    phoneLabel: 'Phone',
+    websiteLabel: 'Website',
+    closing: 'We look forward to speaking with you soon.',
+    signOff: 'Best regards,',
+    team: `The ${config.firm.name} Team`,
+    footer: `This email was sent from ${config.firm.name}.<br>
+        If you did not request this, please disregard this message.`
+  },
+  es: {
+    subject: `Gracias por comunicarse con ${config.firm.name}`,
+    greeting: firstName => `Estimado(a) ${firstName}:`,
+    thanks: `Gracias por llamar hoy a ${config.firm.name} sobre su caso de Seguro Social por Incapacidad. Le agradecemos el tiempo que dedicó a compartir su información con nosotros.`,
+    referenceLabel: 'Su número de referencia',
+    referenceHint: 'Por favor guárdelo para sus registros',
+    nextStepsTitle: '¿Qué sigue?',
+    nextSteps: timeframe => `Un abogado revisará la información de su caso y un miembro de nuestro equipo que habla español se comunicará con usted dentro de <strong>${timeframe}</strong>.`,
+    urgentQuestions: 'Si tiene alguna pregunta urgente mientras tanto, no dude en llamarnos.',
+    phoneLabel: 'Teléfono',
+    websiteLabel: 'Sitio web',
+    closing: 'Esperamos hablar con usted pronto.',
+    signOff: 'Atentamente,',
+    team: `El equipo de ${config.firm.name}`,
+    footer: `Este correo fue enviado por ${config.firm.name}.<br>
+        Si usted no lo solicitó, por favor ignore este mensaje.`
+  }
+};
+
 interface DailyDigestData {
   date: string;
   newIntakes: number;
@@ -48,6 +109,11 @@ interface DailyDigestData {
   highScoreIntakes: IntakeData[];
   pendingMessages: MessageData[];
   statusSummary: Record<string, number>;
+  cost?: {
+    total: number;
+    perIntake: number | null;        // null when there were no intakes
+    perAcceptedCase: number | null;  // null until one of the day's intakes is accepted
+  };
 }
 
 export class EmailService {
@@ -64,16 +130,17 @@ export class EmailService {
   /**
    * Send staff notification for new intake
    */
-  async sendIntakeNotification(intake: IntakeData): Promise<void> {
+  async sendIntakeNotification(intake: IntakeData): Promise<boolean> {
     if (!this.enabled || !config.email.enableNotifications) {
       logger.info({ event: 'email_notification_skipped', type: 'intake', id: intake.id });
-      return;
+      return false;
     }
 
     const scoreCategory = this.getScoreCategory(intake.totalScore);
     const urgentBadge = intake.isUrgent ? '🚨 URGENT - ' : '';
 
-    const subject = `${urgentBadge}New Intake: ${intake.callerName} (Score: ${intake.totalScore}/10)`;
+    const languageTag = intake.language === 'es' ? ' [Spanish]' : '';
+    const subject = `${urgentBadge}New Intake: ${intake.callerName}${languageTag} (Score: ${intake.totalScore}/10)`;
 
     const html = `
 <!DOCTYPE html>
@@ -137,6 +204,7 @@ export class EmailService {
           <span class="info-label">Reference ID</span>
           <span class="info-value">${intake.id}</span>
         </div>
+        ${this.languageRow(intake.language)}
       </div>
 
       ${intake.conditions && intake.conditions.length > 0 ? `
@@ -185,20 +253,23 @@ export class EmailService {
 </html>
     `;
 
-    await this.sendEmail(config.email.notificationsTo, subject, html);
+    return this.sendEmail(config.email.notificationsTo, subject, html);
   }
 
   /**
    * Send staff notification for new callback request/message
    */
-  async sendMessageNotification(message: MessageData): Promise<void> {
+  async sendMessageNotification(message: MessageData): Promise<boolean> {
     if (!this.enabled || !config.email.enableNotifications) {
       logger.info({ event: 'email_notification_skipped', type: 'message', id: message.id });
-      return;
+      return false;
     }
 
     const urgentBadge = message.priority === 'URGENT' ? '🚨 URGENT - ' : '';
-    const subject = `${urgentBadge}New Message: ${message.callerName || 'Unknown Caller'}`;
+    const languageTag = message.language === 'es' ? ' [Spanish]' : '';
+    const sourceTag = message.source === 'ivr_fallback' ? ' [AI unavailable]' : '';
+    const heading = message.transcriptionFollowUp ? 'Voicemail Transcription' : 'New Message';
+    const subject = `${urgentBadge}${heading}: ${message.callerName || 'Unknown Caller'}${languageTag}${sourceTag}`;
 
     const html = `
 <!DOCTYPE html>
@@ -250,6 +321,7 @@ export class EmailService {
           <span class="info-label">Time</span>
           <span class="info-value">${this.formatDate(message.createdAt)}</span>
         </div>
+        ${this.languageRow(message.language)}
       </div>
 
       <div class="section">
@@ -266,6 +338,22 @@ export class EmailService {
       </div>
       ` : ''}
 
+      ${message.source === 'ivr_fallback' ? `
+      <div class="section">
+        <h3>Taken by Scripted Intake</h3>
+        <p>The AI assistant was unavailable, so the caller answered a short automated menu.${message.recordingUrl ? ` <a href="${message.recordingUrl}">Listen to their message</a>.` : ''}${message.transcriptionPending ? ' A transcription will follow in a separate email.' : ''}</p>
+      </div>
+      ` : ''}
+
+      ${message.transcription ? `
+      <div class="section">
+        <h3>Voicemail Transcription</h3>
+        <div class="purpose-box">
+          ${message.transcription}
+        </div>
+      </div>
+      ` : ''}
+
       <div style="text-align: center; margin-top: 20px;">
         <a href="${config.server.publicUrl}" class="cta-button">View in Dashboard</a>
       </div>
@@ -280,7 +368,7 @@ export class EmailService {
 </html>
     `;
 
-    await this.sendEmail(config.email.notificationsTo, subject, html);
+    return this.sendEmail(config.email.notificationsTo, subject, html);
   }
 
   /**
@@ -290,14 +378,16 @@ export class EmailService {
     toEmail: string,
     firstName: string,
     intakeId: string,
-    callbackTimeframe: string
-  ): Promise<void> {
+    callbackTimeframe: string,
+    language: CallLanguage = 'en'
+  ): Promise<boolean> {
     if (!this.enabled || !config.email.enableClientConfirmation) {
       logger.info({ event: 'email_confirmation_skipped', intakeId });
-      return;
+      return false;
     }
 
-    const subject = `Thank you for contacting ${config.firm.name}`;
+    const text = CLIENT_CONFIRMATION_TEXT[language];
+    const subject = text.subject;
 
     const html = `
 <!DOCTYPE html>
@@ -324,38 +414,37 @@ export class EmailService {
     </div>
 
     <div class="content">
-      <p>Dear ${firstName},</p>
+      <p>${text.greeting(firstName)}</p>
 
-      <p>Thank you for calling ${config.firm.name} today regarding your Social Security Disability case. We appreciate you taking the time to share your information with us.</p>
+      <p>${text.thanks}</p>
 
       <div class="reference">
-        <p style="margin: 0; color: #6b7280;">Your Reference Number</p>
+        <p style="margin: 0; color: #6b7280;">${text.referenceLabel}</p>
         <p class="reference-number">${intakeId}</p>
-        <p style="margin: 0; font-size: 14px; color: #6b7280;">Please save this for your records</p>
+        <p style="margin: 0; font-size: 14px; color: #6b7280;">${text.referenceHint}</p>
       </div>
 
       <div class="timeline">
-        <strong>What happens next?</strong>
-        <p style="margin: 10px 0 0 0;">An attorney will review your case information and contact you within <strong>${callbackTimeframe}</strong>.</p>
+        <strong>${text.nextStepsTitle}</strong>
+        <p style="margin: 10px 0 0 0;">${text.nextSteps(localizeTimeframe(callbackTimeframe, language))}</p>
       </div>
 
-      <p>If you have any urgent questions in the meantime, please don't hesitate to call us.</p>
+      <p>${text.urgentQuestions}</p>
 
       <div class="contact-info">
-        <p><strong>Phone:</strong> ${config.firm.phone}</p>
-        ${config.firm.website ? `<p><strong>Website:</strong> <a href="${config.firm.website}">${config.firm.website}</a></p>` : ''}
+        <p><strong>${text.phoneLabel}:</strong> ${config.firm.phone}</p>
+        ${config.firm.website ? `<p><strong>${text.websiteLabel}:</strong> <a href="${config.firm.website}">${config.firm.website}</a></p>` : ''}
       </div>
 
-      <p>We look forward to speaking with you soon.</p>
+      <p>${text.closing}</p>
 
-      <p>Best regards,<br>
-      <strong>The ${config.firm.name} Team</strong></p>
+      <p>${text.signOff}<br>
+      <strong>${text.team}</strong></p>
     </div>
 
     <div class="footer">
       <p style="margin: 0; color: #6b7280; font-size: 14px;">
-        This email was sent from ${config.firm.name}.<br>
-        If you did not request this, please disregard this message.
+        ${text.footer}
       </p>
     </div>
   </div>
@@ -363,7 +452,7 @@ export class EmailService {
 </html>
     `;
 
-    await this.sendEmail(toEmail, subject, html);
+    return this.sendEmail(toEmail, subject, html);
   }
 
   /**
@@ -436,6 +525,23 @@ export class EmailService {
         </div>
       </div>
 
+      ${data.cost ? `
+      <div class="stats-grid">
+        <div class="stat-card">
+          <div class="stat-value">${this.formatCost(data.cost.total)}</div>
+          <div class="stat-label">Call Costs</div>
+        </div>
+        <div class="stat-card">
+          <div class="stat-value">${this.formatCost(data.cost.perIntake)}</div>
+          <div class="stat-label">Cost per Intake</div>
+        </div>
+        <div class="stat-card">
+          <div class="stat-value">${this.formatCost(data.cost.perAcceptedCase)}</div>
+          <div class="stat-label">Cost per Accepted Case</div>
+        </div>
+      </div>
+      ` : ''}
+
       ${data.highScoreIntakes.length > 0 ? `
       <div class="section">
         <h3>🌟 High Priority Intakes</h3>
@@ -505,11 +611,12 @@ export class EmailService {
 
   /**
    * Send generic email
+   * @returns Whether an email actually went out (false when the service is disabled)
    */
-  private async sendEmail(to: string, subject: string, html: string): Promise<void> {
+  private async sendEmail(to: string, subject: string, html: string): Promise<boolean> {
     if (!this.enabled) {
       logger.warn({ event: 'email_send_skipped', reason: 'service_disabled' });
-      return;
+      return false;
     }
 
     try {
@@ -528,6 +635,7 @@ export class EmailService {
         to,
         subject
       });
+      return true;
     } catch (error: any) {
       logger.error({
         event: 'email_failed',
@@ -572,6 +680,25 @@ export class EmailService {
     return phone;
   }
 
+  /**
+   * Helper: Format a USD amount for display (cents, or "-" when there's nothing to divide by)
+   */
+  private formatCost(amount: number | null): string {
+    return amount === null ? '-' : `$${amount.toFixed(2)}`;
+  }
+
+  /**
+   * Helper: Language row for staff notifications (only shown for non-English calls)
+   */
+  private languageRow(language?: CallLanguage): string {
+    if (!language || language === 'en') return '';
+
+    return `<div class="info-row">
+          <span class="info-label">Language</span>
+          <span class="info-value">${LANGUAGE_NAMES[language]} - assign a bilingual callback</span>
+        </div>`;
+  }
+
   /**
    * Helper: Format date
    */
@@ -0,0 +1,220 @@
+/**
+ * HALCYON AI RECEPTIONIST - SIP GATEWAY TELEPHONY ADAPTER
+ *
+ * TelephonyProvider for carriers reached through a raw-WebSocket / SIP gateway
+ * (e.g. a FreeSWITCH or Asterisk bridge). The gateway owns the SIP leg and
+ * exchanges JSON frames with us over /gateway/media:
+ *
+ *   gateway -> us   { type: 'start', callSid, streamId?, parameters? }
+ *                   { type: 'audio', payload, timestamp? }     base64 μ-law 8kHz
+ *                   { type: 'dtmf', digit }
+ *                   { type: 'mark', name }                     playback reached a mark
+ *                   { type: 'stop' }
+ *
+ *   us -> gateway   { type: 'audio', payload } / { type: 'mark', name } / { type: 'clear' }
+ *                   { type: 'hangup' } / { type: 'say_and_hangup', text }
+ *                   { type: 'redirect', url }
+ *                   { type: 'transfer', numbers, ringTimeoutSeconds, callerId?, whisper, statusUrl }
+ *
+ * Call control rides on the call's media socket; SMS is POSTed to GATEWAY_SMS_URL.
+ * Transfer results come back on statusUrl as { status, durationSeconds? }
+ * (status: answered | no-answer | busy | failed | canceled).
+ */
+
+import { WebSocket, type RawData } from 'ws';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import type {
+  TelephonyProvider,
+  TelephonyProviderName,
+  IncomingCall,
+  MediaSocket,
+  MediaEvents,
+  MediaConnection,
+  TransferTarget,
+  SmsResult
+} from './telephony.js';
+
+const log = createLogger('gateway-telephony');
+
+interface GatewayMessage {
+  type: string;
+  callSid?: string;
+  streamId?: string;
+  parameters?: Record<string, string>;
+  payload?: string;
+  timestamp?: number;
+  digit?: string;
+  name?: string;
+}
+
+export class GatewayTelephonyProvider implements TelephonyProvider {
+  readonly name: TelephonyProviderName = 'gateway';
+  readonly supportsTwimlRedirect: boolean = false;
+  protected sockets = new Map<string, MediaSocket>();  // callSid -> live media socket
+
+  parseIncomingCall(body: Record<string, unknown>): IncomingCall {
+    const field = (name: string) => typeof body[name] === 'string' ? body[name] as string : '';
+
+    return {
+      callSid: field('callSid') || field('callId'),
+      from: field('from'),
+      to: field('to'),
+      status: field('status') || 'ringing',
+      callerCity: field('callerCity') || undefined,
+      callerState: field('callerState') || undefined
+    };
+  }
+
+  attachMedia(socket: MediaSocket, events: MediaEvents): MediaConnection {
+    let callSid: string | null = null;
+
+    const send = (message: Record<string, unknown>): boolean => {
+      if (socket.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(message));
+      return true;
+    };
+
+    socket.on('message', async (data: RawData) => {
+      try {
+        const message: GatewayMessage = JSON.parse(data.toString());
+
+        switch (message.type) {
+          case 'start':
+            callSid = message.callSid || null;
+            if (callSid) this.sockets.set(callSid, socket);
+            await events.onStart({
+              callSid: callSid || '',
+              streamId: message.streamId || callSid || '',
+              parameters: message.parameters || {}
+            });
+            break;
+
+          case 'audio':
+            if (message.payload) {
+              events.onAudio(message.payload, message.timestamp);
+            }
+            break;
+
+          case 'dtmf':
+            if (message.digit) {
+              events.onDtmf(message.digit);
+            }
+            break;
+
+          case 'mark':
+            if (message.name) {
+              events.onMark(message.name);
+            }
+            break;
+
+          case 'stop':
+            await events.onStop();
+            break;
+
+          default:
+            log.debug({ event: 'unknown_gateway_message', type: message.type });
+        }
+      } catch (error) {
+        log.error({ event: 'gateway_message_parse_error', error });
+      }
+    });
+
+    socket.on('error', error => events.onError(error));
+    socket.on('close', (code, reason) => {
+      if (callSid && this.sockets.get(callSid) === socket) {
+        this.sockets.delete(callSid);
+      }
+      events.onClose(code, reason.toString());
+    });
+
+    return {
+      get isOpen() {
+        return socket.readyState === WebSocket.OPEN;
+      },
+      sendAudio: payload => send({ type: 'audio', payload }),
+      sendMark: name => { send({ type: 'mark', name }); },
+      clearAudio: () => { send({ type: 'clear' }); },
+      close: () => socket.close()
+    };
+  }
+
+  async hangup(callSid: string, delayMs: number = 3000): Promise<boolean> {
+    await this.wait(delayMs);
+    return this.control(callSid, { type: 'hangup' });
+  }
+
+  endCallWithMessage(callSid: string, message: string): Promise<boolean> {
+    return this.control(callSid, { type: 'say_and_hangup', text: message });
+  }
+
+  /**
+   * The gateway fetches the URL and runs it however it can - gateways without a
+   * TwiML interpreter usually hang up, so the caller isn't left in dead air.
+   * Our own TwiML fallbacks aren't sent here (supportsTwimlRedirect is false).
+   */
+  redirect(callSid: string, url: string): Promise<boolean> {
+    return this.control(callSid, { type: 'redirect', url });
+  }
+
+  async transfer(callSid: string, target: TransferTarget, delayMs: number = 3000): Promise<boolean> {
+    await this.wait(delayMs);
+
+    const statusUrl = new URL('/gateway/transfer-status', config.server.publicUrl);
+    statusUrl.searchParams.set('callId', target.callId);
+
+    return this.control(callSid, {
+      type: 'transfer',
+      numbers: target.numbers,
+      ringTimeoutSeconds: target.ringTimeoutSeconds,
+      callerId: target.callerId,
+      whisper: target.whisper,
+      statusUrl: statusUrl.toString()
+    });
+  }
+
+  async sendSms(to: string, body: string): Promise<SmsResult> {
+    if (!config.telephony.gatewaySmsUrl) {
+      throw new Error('GATEWAY_SMS_URL is not configured');
+    }
+
+    const response = await fetch(config.telephony.gatewaySmsUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.telephony.gatewayApiKey ? { Authorization: `Bearer ${config.telephony.gatewayApiKey}` } : {})
+      },
+      body: JSON.stringify({ to, body, from: config.telephony.gatewaySmsFrom })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gateway SMS failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json().catch(() => ({})) as Partial<SmsResult>;
+    return { id: result.id || '', status: result.status || 'sent' };
+  }
+
+  /**
+   * Send a call control frame on the call's media socket
+   */
+  protected control(callSid: string, message: Record<string, unknown>): Promise<boolean> {
+    const socket = this.sockets.get(callSid);
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      log.warn({ event: 'gateway_control_skipped', callSid, type: message.type, reason: 'No live media socket' });
+      return Promise.resolve(false);
+    }
+
+    log.info({ event: 'gateway_control_sent', callSid, type: message.type });
+    socket.send(JSON.stringify(message));
+    return Promise.resolve(true);
+  }
+
+  private wait(ms: number): Promise<void> {
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
+
+// Export singleton instance
+export const gatewayTelephony = new GatewayTelephonyProvider();
@@ -0,0 +1,69 @@
+/**
+ * HALCYON AI RECEPTIONIST - INTAKE RECOVERY
+ *
+ * Finalizes orphaned intake drafts - checkpoints left behind when a call
+ * ended without a clean finalize (process crash, redeploy, failed save).
+ * Recovered intakes are saved with isPartial so staff know to follow up.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { db } from './database.js';
+import { activeCalls } from './activeCalls.js';
+import { IntakeSession, type IntakeCheckpoint } from './intakeSession.js';
+
+const log = createLogger('intake-recovery');
+
+export class IntakeRecoveryService {
+  private running = false;
+
+  /**
+   * Finalize every stale draft whose call isn't live in this process
+   * @returns Number of drafts recovered
+   */
+  async recoverOrphanedDrafts(): Promise<number> {
+    // Overlapping sweeps would finalize the same draft twice
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const cutoff = new Date(Date.now() - config.intakeDrafts.staleMinutes * 60 * 1000);
+      const drafts = await db.listStaleIntakeDrafts(cutoff, config.intakeDrafts.maxRecoveryAttempts);
+
+      let recovered = 0;
+      for (const draft of drafts) {
+        if (activeCalls.get(draft.callId)) continue;
+
+        try {
+          // Saved before but the draft wasn't cleaned up - nothing to recover
+          if (await db.getIntakeByCallId(draft.callId)) {
+            await db.deleteIntakeDraft(draft.callId);
+            continue;
+          }
+
+          const session = IntakeSession.restore(draft.callId, draft.checkpoint as unknown as IntakeCheckpoint);
+          await session.finalize({ partial: true });
+
+          // finalize keeps the draft if the save failed
+          const saved = await db.getIntakeByCallId(draft.callId);
+          if (!saved) {
+            throw new Error('Intake was not saved');
+          }
+
+          recovered++;
+          log.warn({ event: 'intake_draft_recovered', callId: draft.callId, intakeId: draft.intakeId, lastCheckpoint: draft.updatedAt });
+        } catch (error) {
+          log.error({ event: 'intake_draft_recovery_failed', callId: draft.callId, attempt: draft.recoveryAttempts + 1, error });
+          await db.recordIntakeDraftRecoveryFailure(draft.callId).catch(() => undefined);
+        }
+      }
+
+      return recovered;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const intakeRecovery = new IntakeRecoveryService();
@@ -13,6 +13,14 @@ import { emailService } from './emailService.js';
 import { db } from './database.js';
 import { config } from '../config/index.js';
 import { skinnyAppClient } from './skinnyAppClient.js';
+import { transferService, type TransferRequest } from './transferService.js';
+import type { IntakeMode } from './officeHours.js';
+import type { LiveCallStatus } from './activeCalls.js';
+import { returningCallers, MAX_VERIFICATION_ATTEMPTS, type ReturningCaller, type VerificationAnswer } from './returningCallers.js';
+import { LANGUAGE_NAMES, type CallLanguage } from './language.js';
+
+// Interview sections in the order the AI covers them
+const INTAKE_SECTIONS = ['demographics', 'education', 'medical', 'functional_limitations', 'work_history', 'application_status'];
 
 // Intake data types
 export interface Demographics {
@@ -75,6 +83,16 @@ export interface SmsConsent {
   phoneNumber?: string;
 }
 
+// A type alias (not an interface) so it stays assignable to Prisma's Json input
+export type TranscriptEntry = {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: Date;
+  inputMethod?: 'keypad';  // Caller typed this on their keypad rather than speaking
+  interrupted?: boolean;   // Assistant was cut off - text trimmed to what the caller heard
+  leg?: number;            // Which call this was said on, once a dropped intake is resumed (1 = first)
+};
+
 export interface IntakeData {
   demographics: Demographics;
   education: Education;
@@ -84,7 +102,7 @@ export interface IntakeData {
   application: ApplicationStatus;
   smsConsent: SmsConsent;
   notes: string;
-  transcript: Array<{ role: 'user' | 'assistant'; text: string; timestamp: Date }>;
+  transcript: TranscriptEntry[];
 }
 
 export interface ScoringResult {
@@ -111,14 +129,83 @@ export interface IntakeResult {
   outcome: string;
   createdAt: Date;
   completedAt?: Date;
+  partial?: boolean;  // Recovered from a checkpoint, or cut short by a lost AI connection - the call ended without a clean finalize
+  skinnyAppMs?: number;  // Skinny App scoring round-trip, when it was called
+  resumed?: boolean;  // Continues an intake saved by an earlier, dropped call - updates that record
+  language: CallLanguage;
 }
 
+// Everything needed to rebuild a session after a dropped call or crash (stored on IntakeDraft)
+export type IntakeCheckpoint = {
+  intakeId: string;
+  callerInfo: CallerInfo;
+  mode: IntakeMode;
+  data: IntakeData;
+  flags: IntakeResult['flags'];
+  outcome: string;
+  phase: string;
+  transferReason?: string;
+  callLeg?: number;
+  language?: CallLanguage;
+  createdAt: string;
+};
+
 interface CallerInfo {
   callerPhone: string;
   callerCity: string;
   callerState: string;
 }
 
+export interface IntakeSessionOptions {
+  mode?: IntakeMode;
+  returningCaller?: ReturningCaller;  // Prior record for this number - only shared once verified
+  language?: CallLanguage;
+}
+
+// Transcript entries replayed to the AI after its connection drops mid-call
+const RESUME_CONTEXT_ENTRIES = 8;
+
+/**
+ * One intake section from a resumed call: fields this call collected win, fields it
+ * left empty keep the earlier call's value, and lists gain this call's new entries
+ */
+function mergeSection<T extends object>(prior: T, current: T): T {
+  const merged = { ...prior } as Record<string, unknown>;
+
+  Object.entries(current).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+
+    if (Array.isArray(value)) {
+      const priorItems = Array.isArray(merged[key]) ? merged[key] as unknown[] : [];
+      const known = new Set(priorItems.map(item => JSON.stringify(item)));
+      merged[key] = [...priorItems, ...value.filter(item => !known.has(JSON.stringify(item)))];
+      return;
+    }
+
+    merged[key] = value;
+  });
+
+  return merged as T;
+}
+
+// Conversation phase implied by each function call
+const FUNCTION_PHASES: Record<string, string> = {
+  record_demographics: 'demographics',
+  record_education: 'education',
+  record_medical_conditions: 'medical',
+  record_medications: 'medical',
+  record_functional_limitations: 'functional_limitations',
+  record_work_history: 'work_history',
+  record_application_status: 'application_status',
+  record_sms_consent: 'sms_consent',
+  record_assessment: 'assessment',
+  record_callback_request: 'callback_request',
+  verify_returning_caller: 'verification',
+  resume_intake: 'resumed',
+  request_human_transfer: 'transfer',
+  end_call: 'ending'
+};
+
 export class IntakeSession {
   private callId: string;
   private intakeId: string;
@@ -126,6 +213,12 @@ export class IntakeSession {
   private scoringEngine: ScoringEngine;
   private smsService: SMSService;
   private callerInfo: CallerInfo;
+  private mode: IntakeMode;
+  private returningCaller: ReturningCaller | undefined;
+  private callerVerified = false;
+  private verificationAttempts = 0;
+  private callLeg: number | undefined;  // Set once this call resumes a dropped intake
+  private language: CallLanguage;
 
   private data: IntakeData = {
     demographics: {},
@@ -157,12 +250,22 @@ export class IntakeSession {
     transferRequested: false
   };
 
+  private transferReason: string | undefined;
+  private assistantItems = new Map<string, TranscriptEntry>();  // OpenAI item id -> transcript entry
   private outcome = 'in_progress';
+  private phase = 'greeting';  // Last section the AI recorded (shown on the live calls view)
   private scoring: ScoringResult | null = null;
   private createdAt: Date;
+  // Draft checkpoints: one write at a time, with a follow-up write if state changed meanwhile
+  private checkpointInFlight: Promise<void> | null = null;
+  private checkpointPending = false;
+  private finalized = false;
 
-  constructor(callId: string, callerInfo: CallerInfo) {
+  constructor(callId: string, callerInfo: CallerInfo, options: IntakeSessionOptions = {}) {
     this.callId = callId;
+    this.mode = options.mode || 'business_hours';
+    this.returningCaller = options.returningCaller;
+    this.language = options.language || 'en';
     this.intakeId = `INT_${Date.now()}_${uuidv4().slice(0, 8)}`;
     this.callerInfo = callerInfo;
     this.log = createCallLogger(callId);
@@ -181,17 +284,135 @@ export class IntakeSession {
     });
   }
 
-  addTranscript(role: 'user' | 'assistant', text: string): void {
-    this.data.transcript.push({
+  /**
+   * Rebuild a session from its last checkpoint (recovering an orphaned draft)
+   */
+  static restore(callId: string, checkpoint: IntakeCheckpoint): IntakeSession {
+    const session = new IntakeSession(callId, checkpoint.callerInfo, { mode: checkpoint.mode, language: checkpoint.language });
+    session.intakeId = checkpoint.intakeId;
+    session.data = checkpoint.data;
+    session.flags = { ...checkpoint.flags, urgentReason: checkpoint.flags.urgentReason };
+    session.outcome = checkpoint.outcome;
+    session.phase = checkpoint.phase;
+    session.transferReason = checkpoint.transferReason;
+    session.callLeg = checkpoint.callLeg;
+    session.createdAt = new Date(checkpoint.createdAt);
+    return session;
+  }
+
+  getCheckpoint(): IntakeCheckpoint {
+    return {
+      intakeId: this.intakeId,
+      callerInfo: this.callerInfo,
+      mode: this.mode,
+      data: this.data,
+      flags: this.flags,
+      outcome: this.outcome,
+      phase: this.phase,
+      transferReason: this.transferReason,
+      callLeg: this.callLeg,
+      language: this.language,
+      createdAt: this.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Save the current state as a draft so it survives a dropped call or crash
+   */
+  private checkpoint(): void {
+    if (this.finalized) return;
+
+    if (this.checkpointInFlight) {
+      this.checkpointPending = true;
+      return;
+    }
+
+    this.checkpointInFlight = db.saveIntakeDraft(this.callId, this.getCheckpoint())
+      .then(() => undefined, error => {
+        this.log.error({ event: 'intake_checkpoint_failed', error });
+      })
+      .finally(() => {
+        this.checkpointInFlight = null;
+        if (this.checkpointPending) {
+          this.checkpointPending = false;
+          this.checkpoint();
+        }
+      });
+  }
+
+  addTranscript(role: 'user' | 'assistant', text: string, itemId?: string): void {
+    const entry: TranscriptEntry = {
       role,
       text,
-      timestamp: new Date()
+      timestamp: new Date(),
+      leg: this.callLeg
+    };
+    this.data.transcript.push(entry);
+
+    if (itemId) {
+      this.assistantItems.set(itemId, entry);
+    }
+
+    this.checkpoint();
+  }
+
+  /**
+   * Trim an assistant utterance to the part the caller heard before interrupting
+   * @param spokenFraction - Share of the utterance's audio that was played (0-1)
+   */
+  truncateTranscript(itemId: string, spokenFraction: number): void {
+    const entry = this.assistantItems.get(itemId);
+    if (!entry || entry.interrupted) return;
+
+    const words = entry.text.split(/\s+/).filter(Boolean);
+    const spokenWords = Math.round(words.length * spokenFraction);
+
+    if (spokenWords === 0) {
+      // Nothing was heard - drop the line entirely
+      this.data.transcript.splice(this.data.transcript.indexOf(entry), 1);
+    } else if (spokenWords < words.length) {
+      entry.text = words.slice(0, spokenWords).join(' ');
+      entry.interrupted = true;
+    }
+
+    this.checkpoint();
+
+    this.log.debug({
+      event: 'transcript_truncated',
+      itemId,
+      spokenWords,
+      totalWords: words.length
     });
   }
 
+  /**
+   * Record digits the caller entered on their keypad (flagged so staff can tell them apart from speech)
+   */
+  addKeypadEntry(digits: string): void {
+    this.data.transcript.push({
+      role: 'user',
+      text: digits,
+      timestamp: new Date(),
+      inputMethod: 'keypad',
+      leg: this.callLeg
+    });
+
+    this.checkpoint();
+  }
+
   async handleFunctionCall(name: string, args: Record<string, unknown>): Promise<unknown> {
     this.log.info({ event: 'function_call_received', name, args });
 
+    if (FUNCTION_PHASES[name]) {
+      this.phase = FUNCTION_PHASES[name];
+    }
+
+    const result = await this.runFunction(name, args);
+    this.checkpoint();
+    return result;
+  }
+
+  private async runFunction(name: string, args: Record<string, unknown>): Promise<unknown> {
     switch (name) {
       case 'record_demographics':
         return this.recordDemographics(args);
@@ -232,12 +453,147 @@ export class IntakeSession {
       case 'record_callback_request':
         return this.recordCallbackRequest(args);
 
+      case 'verify_returning_caller':
+        return this.verifyReturningCaller(args);
+
+      case 'resume_intake':
+        return this.resumeIntake();
+
       default:
         this.log.warn({ event: 'unknown_function', name });
         return { error: `Unknown function: ${name}` };
     }
   }
 
+  /**
+   * Light identity check before any prior-record details are given to the AI
+   */
+  private verifyReturningCaller(args: Record<string, unknown>): object {
+    const caller = this.returningCaller;
+    if (!caller) {
+      return {
+        verified: false,
+        instruction: 'There is no prior record for this phone number. Continue as a new caller.'
+      };
+    }
+
+    if (this.callerVerified) {
+      return returningCallers.buildVerifiedContext(caller);
+    }
+
+    if (this.verificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+      return {
+        verified: false,
+        instruction: 'Verification is no longer available on this call. Do not share anything from the prior record - continue as a new caller.'
+      };
+    }
+
+    this.verificationAttempts++;
+    const verified = returningCallers.verify(caller, args as VerificationAnswer);
+
+    this.log.info({
+      event: 'returning_caller_verification',
+      verified,
+      attempt: this.verificationAttempts
+    });
+
+    if (!verified) {
+      const attemptsRemaining = MAX_VERIFICATION_ATTEMPTS - this.verificationAttempts;
+      return {
+        verified: false,
+        attempts_remaining: attemptsRemaining,
+        instruction: attemptsRemaining > 0
+          ? 'That does not match our records. Politely ask them to try once more - do not reveal what is on file.'
+          : 'That does not match our records. Do not share anything from the prior record - continue as a new caller.'
+      };
+    }
+
+    this.callerVerified = true;
+
+    // Carry the verified identity into this intake so it isn't asked again
+    this.data.demographics.firstName ||= caller.firstName;
+    this.data.demographics.lastName ||= caller.lastName;
+    this.data.demographics.dateOfBirth ||= caller.dateOfBirth;
+
+    return returningCallers.buildVerifiedContext(caller);
+  }
+
+  /**
+   * Continue the intake from the caller's dropped call: adopt its record, merge its data
+   * under what this call has collected, and stitch this call's transcript onto it
+   */
+  private async resumeIntake(): Promise<object> {
+    const resumable = this.returningCaller?.resumableIntake;
+    if (!resumable || !this.callerVerified) {
+      return {
+        resumed: false,
+        instruction: 'There is no verified interrupted intake to resume. Continue the intake normally.'
+      };
+    }
+
+    if (this.callLeg === undefined) {
+      const prior = await db.getIntakeSessionData(resumable.referenceNumber);
+      if (!prior) {
+        return {
+          resumed: false,
+          instruction: 'The earlier intake could not be loaded. Apologize briefly and continue the intake from the beginning.'
+        };
+      }
+
+      prior.data.transcript.forEach(entry => { entry.leg ??= 1; });
+      this.callLeg = Math.max(...prior.data.transcript.map(entry => entry.leg!), 1) + 1;
+      this.data.transcript.forEach(entry => { entry.leg = this.callLeg; });
+
+      // Anything already collected on this call (a corrected phone number or address) beats the old record
+      const current = this.data;
+      this.data = {
+        demographics: mergeSection(prior.data.demographics, current.demographics),
+        education: mergeSection(prior.data.education, current.education),
+        medical: mergeSection(prior.data.medical, current.medical),
+        functionalLimitations: mergeSection(prior.data.functionalLimitations, current.functionalLimitations),
+        workHistory: mergeSection(prior.data.workHistory, current.workHistory),
+        application: mergeSection(prior.data.application, current.application),
+        smsConsent: current.smsConsent.consentGiven ? current.smsConsent : prior.data.smsConsent,
+        notes: current.notes || prior.data.notes,
+        transcript: [...prior.data.transcript, ...current.transcript]
+      };
+      this.flags = {
+        urgent: prior.flags.urgent || this.flags.urgent,
+        urgentReason: this.flags.urgentReason || prior.flags.urgentReason,
+        crisisMentioned: prior.flags.crisisMentioned || this.flags.crisisMentioned,
+        transferRequested: prior.flags.transferRequested || this.flags.transferRequested
+      };
+      this.intakeId = resumable.referenceNumber;
+
+      this.log.info({ event: 'intake_resumed', intakeId: this.intakeId, callLeg: this.callLeg });
+    }
+
+    const completed = this.getCompletedSections();
+    const { demographics, education, medical, functionalLimitations, workHistory, application } = this.data;
+
+    return {
+      resumed: true,
+      collected: { demographics, education, medical, functionalLimitations, workHistory, application },
+      sections_completed: completed,
+      sections_remaining: INTAKE_SECTIONS.filter(section => !completed.includes(section)),
+      instruction: 'In one or two sentences, recap what you already have (their name and main conditions), then continue with the first remaining section. Do not ask completed sections again unless the caller wants to change something - record any corrections.'
+    };
+  }
+
+  private getCompletedSections(): string[] {
+    const { demographics, education, medical, functionalLimitations, workHistory, application } = this.data;
+    const completed: string[] = [];
+
+    if (demographics.firstName && demographics.dateOfBirth) completed.push('demographics');
+    if (education.level) completed.push('education');
+    if (medical.conditions.length > 0) completed.push('medical');
+    if (Object.keys(functionalLimitations).some(key => key !== 'assistiveDevices')) completed.push('functional_limitations');
+    if (workHistory.jobs.length > 0 || workHistory.totalWorkYears !== undefined) completed.push('work_history');
+    if (application.status) completed.push('application_status');
+
+    return completed;
+  }
+
   private recordDemographics(args: Record<string, unknown>): object {
     this.data.demographics = {
       ...this.data.demographics,
@@ -592,15 +948,119 @@ export class IntakeSession {
 
   private requestHumanTransfer(args: Record<string, unknown>): object {
     this.flags.transferRequested = true;
+    this.transferReason = args.reason as string;
 
     this.log.info({
       event: 'human_transfer_requested',
-      reason: args.reason
+      reason: args.reason,
+      liveTransferAvailable: transferService.isEnabled(),
+      mode: this.mode
     });
 
+    if (!transferService.isEnabled() || this.mode === 'after_hours') {
+      return {
+        transfer_initiated: false,
+        instruction: 'Live transfer is not available right now. Apologize, explain that a team member will call them back, and collect their details with record_callback_request.'
+      };
+    }
+
+    this.outcome = 'transferred';
+
     return {
       transfer_initiated: true,
-      instruction: 'Acknowledge their request and let them know you\'re transferring them to a team member.'
+      instruction: 'Acknowledge their request and let them know you\'re transferring them to a team member now. Keep it to one short sentence - the call will be connected in a few seconds.'
+    };
+  }
+
+  /**
+   * Recap for a conversation backend that lost its context mid-call: the last
+   * few exchanges and everything collected so far
+   */
+  getResumeContext(): string {
+    const recent = this.data.transcript
+      .slice(-RESUME_CONTEXT_ENTRIES)
+      .map(t => `${t.role === 'user' ? 'Caller' : 'You'}: ${t.text}`);
+    const collected = JSON.stringify(
+      { ...this.data, transcript: undefined },
+      (_key, value) => value === '' || (Array.isArray(value) && value.length === 0) ? undefined : value
+    );
+
+    return [
+      recent.length > 0 ? `Last exchanges:\n${recent.join('\n')}` : 'Nothing has been said yet.',
+      `Information already collected: ${collected}`,
+      `Current phase: ${this.phase}.`
+    ].join('\n');
+  }
+
+  getLanguage(): CallLanguage {
+    return this.language;
+  }
+
+  /**
+   * Switch the call's language (detected from the caller's first utterance)
+   */
+  setLanguage(language: CallLanguage): void {
+    if (language === this.language) return;
+
+    this.language = language;
+    this.log.info({ event: 'intake_language_changed', language });
+    this.checkpoint();
+  }
+
+  /**
+   * Current phase, caller name and flags for the live calls view
+   */
+  getLiveStatus(): LiveCallStatus {
+    const d = this.data.demographics;
+
+    return {
+      phase: this.phase,
+      callerName: `${d.firstName || ''} ${d.lastName || ''}`.trim() || undefined,
+      outcome: this.outcome,
+      flags: { ...this.flags }
+    };
+  }
+
+  /**
+   * Details needed to warm-transfer this caller, including the whisper
+   * summary read to the staff member before the call is bridged
+   */
+  getTransferDetails(): Omit<TransferRequest, 'callId' | 'callSid'> {
+    const d = this.data.demographics;
+    const callerName = `${d.firstName || ''} ${d.lastName || ''}`.trim() || undefined;
+
+    const parts = [`Transfer from the ${config.firm.name} intake line.`];
+    parts.push(callerName ? `Caller is ${callerName}${d.age ? `, age ${d.age}` : ''}.` : 'Caller has not given their name.');
+    if (this.transferReason) {
+      parts.push(`They asked for a person because: ${this.transferReason}.`);
+    }
+    if (this.data.medical.conditions.length > 0) {
+      parts.push(`Conditions mentioned: ${this.data.medical.conditions.slice(0, 3).join(', ')}.`);
+    }
+    if (this.data.application.status) {
+      parts.push(`Application status: ${this.data.application.status.replace(/_/g, ' ')}.`);
+    }
+    if (this.flags.urgent) {
+      parts.push(`Flagged urgent: ${this.flags.urgentReason || 'no reason given'}.`);
+    }
+    if (this.language !== 'en') {
+      parts.push(`The caller speaks ${LANGUAGE_NAMES[this.language]}.`);
+    }
+    parts.push('Connecting you now.');
+
+    return {
+      callerPhone: d.phone || this.callerInfo.callerPhone,
+      callerName,
+      reason: this.transferReason,
+      language: this.language,
+      whisper: parts.join(' '),
+      transcript: this.data.transcript.map(t => ({
+        role: t.role,
+        content: t.text,
+        timestamp: t.timestamp,
+        inputMethod: t.inputMethod,
+        interrupted: t.interrupted
+      }))
     };
   }
 
@@ -627,12 +1087,16 @@ export class IntakeSession {
 
     if (canSendSms) {
       try {
-        await this.smsService.sendConfirmation(
+        const sent = await this.smsService.sendConfirmation(
           this.data.demographics.phone!,
           this.data.demographics.firstName || 'there',
           this.intakeId,
-          this.scoring?.callbackTimeframe || '48 hours'
+          this.scoring?.callbackTimeframe || '48 hours',
+          this.language
         );
+        if (sent) {
+          await db.recordCallMessage(this.callId, 'sms');
+        }
         this.log.info({ event: 'sms_sent', consentTimestamp: this.data.smsConsent.consentTimestamp });
       } catch (error) {
         this.log.error({ event: 'sms_failed', error });
@@ -672,7 +1136,9 @@ export class IntakeSession {
       const formattedTranscript = this.data.transcript.map(t => ({
         role: t.role,
         content: t.text,
-        timestamp: t.timestamp
+        timestamp: t.timestamp,
+        inputMethod: t.inputMethod,
+        interrupted: t.interrupted
       }));
 
       const messageId = await db.saveCallbackRequest({
@@ -683,6 +1149,7 @@ export class IntakeSession {
         category,
         priority: isUrgent ? 'URGENT' : 'NORMAL',
         notes,
+        language: this.language,
         transcript: formattedTranscript
       });
 
@@ -695,7 +1162,7 @@ export class IntakeSession {
 
       // Send email notification for new message
       try {
-        await emailService.sendMessageNotification({
+        const sent = await emailService.sendMessageNotification({
           id: messageId,
           callerName,
           callerPhone: phoneNumber || 'unknown',
@@ -703,8 +1170,12 @@ export class IntakeSession {
           category,
           priority: isUrgent ? 'URGENT' : 'NORMAL',
           notes,
+          language: this.language,
           createdAt: new Date()
         });
+        if (sent) {
+          await db.recordCallMessage(this.callId, 'email');
+        }
         this.log.info({ event: 'message_email_notification_sent', messageId });
       } catch (emailError) {
         this.log.error({ event: 'message_email_notification_failed', error: emailError });
@@ -724,15 +1195,25 @@ export class IntakeSession {
     }
   }
 
-  async finalize(): Promise<IntakeResult> {
+  /**
+   * Score and save the intake, then drop its draft
+   * @param options.partial - Recovering an orphaned draft, or saving a call whose AI connection was lost, rather than finishing a live call
+   */
+  async finalize(options: { partial?: boolean } = {}): Promise<IntakeResult> {
+    // Stop checkpointing and let the last write land so it can't recreate the draft
+    this.finalized = true;
+    await this.checkpointInFlight;
+
     let usedSkinnyApp = false;
     let skinnyAppAssessmentId: string | undefined;
+    let skinnyAppMs: number | undefined;
 
     // Try Skinny App first if enabled (for unified scoring and storage)
     if (skinnyAppClient.isEnabled() && this.outcome !== 'callback_request') {
       try {
         this.log.info({ event: 'skinny_app_scoring_attempt', intakeId: this.intakeId });
 
+        const skinnyAppStartedAt = Date.now();
         const response = await skinnyAppClient.submitAssessment(
           this.callId,
           this.intakeId,
@@ -746,7 +1227,7 @@ export class IntakeSession {
             isUrgent: this.flags.urgent,
             urgentReason: this.flags.urgentReason,
           }
-        );
+        ).finally(() => { skinnyAppMs = Date.now() - skinnyAppStartedAt; });
 
         // Map Skinny App response to our scoring format
         this.scoring = skinnyAppClient.mapToScoringResult(response);
@@ -792,7 +1273,11 @@ export class IntakeSession {
       flags: this.flags,
       outcome: this.outcome,
       createdAt: this.createdAt,
-      completedAt: new Date()
+      completedAt: new Date(),
+      partial: options.partial,
+      skinnyAppMs,
+      resumed: this.callLeg !== undefined,
+      language: this.language
     };
 
     this.log.info({
@@ -809,6 +1294,9 @@ export class IntakeSession {
     try {
       await db.saveIntake(result);
       this.log.info({ event: 'intake_saved_to_db', intakeId: this.intakeId });
+
+      // Saved - the draft is only kept when the save fails, so recovery can retry it
+      await db.deleteIntakeDraft(this.callId);
     } catch (error) {
       this.log.error({ event: 'intake_db_save_failed', error });
       // Don't throw - we still want to return the result even if DB save fails
@@ -817,7 +1305,7 @@ export class IntakeSession {
     // Send email notification for completed intake (only if it's a real intake, not a callback)
     if (this.outcome !== 'callback_request') {
       try {
-        await emailService.sendIntakeNotification({
+        const sent = await emailService.sendIntakeNotification({
           id: this.intakeId,
           callerName: `${this.data.demographics.firstName || ''} ${this.data.demographics.lastName || ''}`.trim() || 'Unknown',
           callerPhone: this.data.demographics.phone || 'Unknown',
@@ -827,22 +1315,30 @@ export class IntakeSession {
           caseStrengths: this.scoring.caseStrengths || [],
           caseConcerns: this.scoring.caseConcerns || [],
           aiSummary: this.data.notes,
+          language: this.language,
           createdAt: this.createdAt
         });
+        if (sent) {
+          await db.recordCallMessage(this.callId, 'email');
+        }
         this.log.info({ event: 'intake_email_notification_sent', intakeId: this.intakeId });
       } catch (emailError) {
         this.log.error({ event: 'intake_email_notification_failed', error: emailError });
       }
 
-      // Send client confirmation email if we have their email
-      if (this.data.demographics.email) {
+      // Send client confirmation email if we have their email (not for a dropped call's partial intake)
+      if (this.data.demographics.email && !options.partial) {
         try {
-          await emailService.sendClientConfirmation(
+          const sent = await emailService.sendClientConfirmation(
             this.data.demographics.email,
             this.data.demographics.firstName || 'there',
             this.intakeId,
-            this.scoring.callbackTimeframe
+            this.scoring.callbackTimeframe,
+            this.language
           );
+          if (sent) {
+            await db.recordCallMessage(this.callId, 'email');
+          }
           this.log.info({ event: 'client_confirmation_email_sent', intakeId: this.intakeId });
         } catch (emailError) {
           this.log.error({ event: 'client_confirmation_email_failed', error: emailError });
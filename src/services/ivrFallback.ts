@@ -0,0 +1,385 @@
+/**
+ * HALCYON AI RECEPTIONIST - SCRIPTED IVR FALLBACK
+ *
+ * Degraded path for when the AI can't take the call (OpenAI connection failed,
+ * or Twilio hit /twilio/fallback because our voice webhook errored).
+ * A short <Gather>-based intake collects name, callback number and reason by
+ * speech or keypad, records a message, and saves a CallbackRequest with
+ * source "ivr_fallback" so staff know the AI was unavailable.
+ *
+ * Answers so far travel in the webhook query string, so a step survives a restart.
+ *
+ * The recorded message is a voicemail: Twilio's recording status and
+ * transcription callbacks fill in the audio link and transcription afterwards.
+ * Staff are notified when the message is saved and sent the transcription once it's in.
+ */
+
+import twilio from 'twilio';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { db } from './database.js';
+import { emailService } from './emailService.js';
+import { TWIML_VOICES, parseLanguage, type CallLanguage } from './language.js';
+import type { CallbackCategory } from '@prisma/client';
+
+const { VoiceResponse } = twilio.twiml;
+
+const log = createLogger('ivr-fallback');
+
+// Seconds of recorded message we keep
+const MAX_MESSAGE_SECONDS = 120;
+// Twilio only transcribes recordings of at least this many seconds
+const MIN_TRANSCRIBED_SECONDS = 2;
+
+export type IvrStep = 'name' | 'phone' | 'reason' | 'message' | 'complete';
+
+// Why the caller ended up here
+export type IvrEntry = 'ai_unavailable' | 'webhook_failure';
+
+export interface IvrState {
+  callId: string;
+  language: CallLanguage;
+  entry: IvrEntry;
+  name?: string;
+  phone?: string;
+  reason?: string;
+  category?: string;
+}
+
+// Keypad shortcuts for the reason question
+const REASON_DIGITS: Record<string, { category: string; reason: string }> = {
+  '1': { category: 'GENERAL', reason: 'New disability claim' },
+  '2': { category: 'EXISTING_CLIENT', reason: 'Current client' },
+  '3': { category: 'OTHER', reason: 'Other' }
+};
+
+const IVR_PHRASES: Record<CallLanguage, {
+  intro: Record<IvrEntry, string>;
+  askName: string;
+  askPhone: string;
+  askReason: string;
+  askMessage: string;
+  done: string;
+  callbackOnly: string;
+}> = {
+  en: {
+    intro: {
+      ai_unavailable: 'Sorry, our intake assistant is not available right now. I will take a few details so a member of our team can call you back.',
+      webhook_failure: `Thank you for calling ${config.firm.name}. We are experiencing technical difficulties, but I can take a few details so a member of our team can call you back.`
+    },
+    askName: 'Please say your first and last name.',
+    askPhone: 'To be called back at the number you are calling from, press 1. Otherwise, enter your ten digit phone number.',
+    askReason: 'Briefly tell me what you are calling about. Or press 1 for a new disability claim, 2 if you are a current client, or 3 for anything else.',
+    askMessage: 'After the tone, leave any other details you would like us to know, then press the pound key or hang up.',
+    done: 'Thank you. A member of our team will call you back as soon as possible. Goodbye.',
+    callbackOnly: 'Sorry, our intake assistant is not available right now. A member of our team will call you back at this number as soon as possible. Goodbye.'
+  },
+  es: {
+    intro: {
+      ai_unavailable: 'Lo sentimos, nuestra asistente no está disponible en este momento. Le tomaré algunos datos para que un miembro de nuestro equipo le devuelva la llamada.',
+      webhook_failure: `Gracias por llamar a ${config.firm.name}. Estamos teniendo dificultades técnicas, pero puedo tomarle algunos datos para que un miembro de nuestro equipo le devuelva la llamada.`
+    },
+    askName: 'Por favor diga su nombre y apellido.',
+    askPhone: 'Para que le llamemos al número desde el que llama, oprima 1. De lo contrario, marque su número de teléfono de diez dígitos.',
+    askReason: 'Díganos brevemente el motivo de su llamada. O oprima 1 para un reclamo nuevo de incapacidad, 2 si ya es cliente, o 3 para cualquier otro asunto.',
+    askMessage: 'Después del tono, deje cualquier otro detalle que quiera que sepamos y luego oprima la tecla de numeral o cuelgue.',
+    done: 'Gracias. Un miembro de nuestro equipo le devolverá la llamada lo antes posible. Adiós.',
+    callbackOnly: 'Lo sentimos, nuestra asistente no está disponible en este momento. Un miembro de nuestro equipo le devolverá la llamada a este número lo antes posible. Adiós.'
+  }
+};
+
+// Voicemail keywords -> category, for callers who didn't pick one on the keypad
+const VOICEMAIL_CATEGORIES: Array<{ category: CallbackCategory; pattern: RegExp }> = [
+  { category: 'BILLING', pattern: /\b(bill|billing|invoice|payment|fee|charge)/i },
+  { category: 'CASE_STATUS', pattern: /\b(status|hearing|update on my case|my case|decision)/i },
+  { category: 'DOCUMENTS', pattern: /\b(document|records|paperwork|form|letter|fax)/i },
+  { category: 'REFERRAL', pattern: /\b(refer|referral|referred)/i },
+  { category: 'VENDOR', pattern: /\b(vendor|sales|partnership)/i }
+];
+
+function categorizeVoicemail(text: string): CallbackCategory | null {
+  return VOICEMAIL_CATEGORIES.find(({ pattern }) => pattern.test(text))?.category || null;
+}
+
+export class IvrFallbackService {
+  /**
+   * Webhook URL for a step, carrying the answers collected so far
+   */
+  buildStepUrl(step: IvrStep, state: IvrState): string {
+    const url = new URL(`/twilio/ivr/${step}`, config.server.publicUrl);
+    Object.entries(state).forEach(([key, value]) => {
+      if (value) url.searchParams.set(key, value);
+    });
+    return url.toString();
+  }
+
+  /**
+   * First prompt of the scripted intake
+   */
+  buildStartTwiml(state: IvrState): string {
+    const response = new VoiceResponse();
+    response.say(TWIML_VOICES[state.language], IVR_PHRASES[state.language].intro[state.entry]);
+    this.appendQuestion(response, 'name', state);
+    return response.toString();
+  }
+
+  /**
+   * Store the caller's answer to `step` and return the TwiML for the next question
+   * (no answer just moves on - the caller is never stuck on a question)
+   */
+  handleAnswer(step: Exclude<IvrStep, 'complete'>, state: IvrState, input: { speech?: string; digits?: string; from?: string }): string {
+    const next: IvrState = { ...state };
+    const speech = input.speech?.trim();
+
+    switch (step) {
+      case 'name':
+        next.name = speech || undefined;
+        break;
+
+      case 'phone': {
+        const typed = (input.digits || speech || '').replace(/\D/g, '');
+        next.phone = typed.length >= 10 ? typed : input.from;
+        break;
+      }
+
+      case 'reason': {
+        const shortcut = input.digits ? REASON_DIGITS[input.digits] : undefined;
+        next.reason = shortcut?.reason || speech || undefined;
+        next.category = shortcut?.category || 'GENERAL';
+        break;
+      }
+
+      case 'message':
+        // Answered by the <Record> action - see complete()
+        break;
+    }
+
+    const order: IvrStep[] = ['name', 'phone', 'reason', 'message'];
+    const response = new VoiceResponse();
+    this.appendQuestion(response, order[order.indexOf(step) + 1] || 'message', next);
+    return response.toString();
+  }
+
+  private buildVoicemailUrl(kind: 'recording' | 'transcription', callId: string): string {
+    const url = new URL(`/twilio/voicemail/${kind}`, config.server.publicUrl);
+    url.searchParams.set('callId', callId);
+    return url.toString();
+  }
+
+  private appendQuestion(response: InstanceType<typeof VoiceResponse>, step: IvrStep, state: IvrState): void {
+    const voice = TWIML_VOICES[state.language];
+    const phrases = IVR_PHRASES[state.language];
+
+    if (step === 'message') {
+      response.say(voice, phrases.askMessage);
+      response.record({
+        maxLength: MAX_MESSAGE_SECONDS,
+        finishOnKey: '#',
+        playBeep: true,
+        action: this.buildStepUrl('complete', state),
+        method: 'POST',
+        recordingStatusCallback: this.buildVoicemailUrl('recording', state.callId),
+        recordingStatusCallbackMethod: 'POST',
+        transcribe: true,
+        transcribeCallback: this.buildVoicemailUrl('transcription', state.callId)
+      });
+      // Record falls through only when nothing was recorded
+      response.redirect({ method: 'POST' }, this.buildStepUrl('complete', state));
+      return;
+    }
+
+    const question = { name: phrases.askName, phone: phrases.askPhone, reason: phrases.askReason }[step as 'name' | 'phone' | 'reason'];
+    const gather = response.gather({
+      input: step === 'name' ? ['speech'] : ['dtmf', 'speech'],
+      numDigits: step === 'reason' ? 1 : step === 'phone' ? 10 : undefined,
+      timeout: 5,
+      speechTimeout: 'auto',
+      language: voice.language,
+      action: this.buildStepUrl(step, state),
+      method: 'POST'
+    });
+    gather.say(voice, question);
+
+    // No input - move on with the answer left blank
+    response.redirect({ method: 'POST' }, this.buildStepUrl(step, state));
+  }
+
+  /**
+   * Save the scripted intake as a CallbackRequest and thank the caller
+   */
+  async complete(state: IvrState, recording: { url?: string; durationSeconds?: number }, from: string): Promise<string> {
+    const callerPhone = state.phone || from || 'unknown';
+    const purpose = state.reason || 'Callback requested (AI unavailable - no reason given)';
+    const notes = [
+      `Taken by the scripted fallback intake (${state.entry === 'ai_unavailable' ? 'AI connection failed' : 'voice webhook failed'}).`,
+      state.phone && state.phone !== from ? `Calling from ${from}.` : '',
+      recording.url ? `Left a ${recording.durationSeconds || 0}s message.` : 'No message left.'
+    ].filter(Boolean).join(' ');
+
+    // With a message to transcribe, staff get the transcription in a follow-up email
+    const awaitingTranscription = !!recording.url && (recording.durationSeconds || 0) >= MIN_TRANSCRIBED_SECONDS;
+
+    const request = {
+      callerPhone,
+      callerName: state.name,
+      purpose,
+      category: state.category || 'GENERAL',
+      priority: 'HIGH',
+      notes,
+      recordingUrl: recording.url,
+      recordingDuration: recording.durationSeconds
+    };
+
+    try {
+      // The AI may have taken a callback request on this call before the connection failed
+      const merged = await db.mergeIntoCallbackRequest(state.callId, request);
+      const messageId = merged?.id || await db.saveCallbackRequest({
+        ...request,
+        callId: state.callId,
+        language: state.language,
+        source: 'ivr_fallback'
+      });
+
+      log.info({ event: 'ivr_callback_saved', callId: state.callId, messageId, merged: !!merged, entry: state.entry, awaitingTranscription });
+
+      // Notify now - a transcription callback that never arrives mustn't leave the message unseen
+      const sent = await emailService.sendMessageNotification({
+        id: messageId,
+        callerName: merged?.callerName || state.name,
+        callerPhone: merged?.callerPhone || callerPhone,
+        purpose: merged?.purpose || purpose,
+        category: merged?.category || state.category || 'GENERAL',
+        priority: merged?.priority || 'HIGH',
+        notes: merged?.notes || notes,
+        language: state.language,
+        source: 'ivr_fallback',
+        recordingUrl: recording.url,
+        transcriptionPending: awaitingTranscription,
+        createdAt: new Date()
+      });
+      if (sent) {
+        await db.recordCallMessage(state.callId, 'email');
+      }
+    } catch (error) {
+      log.error({ event: 'ivr_callback_failed', callId: state.callId, error });
+    }
+
+    return this.buildGoodbye(state.language);
+  }
+
+  /**
+   * AI unavailable on a line that can't run the scripted intake (no TwiML) -
+   * save a callback request for the calling number and return what to tell the caller
+   */
+  async requestCallback(params: { callId: string; callerPhone: string; language: CallLanguage }): Promise<string> {
+    const request = {
+      callerPhone: params.callerPhone,
+      purpose: 'Callback requested (AI unavailable - no reason given)',
+      category: 'GENERAL',
+      priority: 'HIGH',
+      notes: 'AI connection failed; the caller\'s line (SIP gateway) can\'t run the scripted intake, so no details were taken.'
+    };
+
+    try {
+      // The AI may have taken a callback request on this call before the connection failed
+      const merged = await db.mergeIntoCallbackRequest(params.callId, request);
+      const messageId = merged?.id || await db.saveCallbackRequest({
+        ...request,
+        callId: params.callId,
+        language: params.language,
+        source: 'ivr_fallback'
+      });
+
+      log.info({ event: 'ivr_callback_saved', callId: params.callId, messageId, merged: !!merged, entry: 'ai_unavailable', scripted: false });
+
+      const sent = await emailService.sendMessageNotification({
+        id: messageId,
+        callerName: merged?.callerName || undefined,
+        callerPhone: merged?.callerPhone || params.callerPhone,
+        purpose: merged?.purpose || request.purpose,
+        category: merged?.category || request.category,
+        priority: merged?.priority || request.priority,
+        notes: merged?.notes || request.notes,
+        language: params.language,
+        source: 'ivr_fallback',
+        createdAt: new Date()
+      });
+      if (sent) {
+        await db.recordCallMessage(params.callId, 'email');
+      }
+    } catch (error) {
+      log.error({ event: 'ivr_callback_failed', callId: params.callId, error });
+    }
+
+    return IVR_PHRASES[params.language].callbackOnly;
+  }
+
+  private buildGoodbye(language: CallLanguage): string {
+    const response = new VoiceResponse();
+    response.say(TWIML_VOICES[language], IVR_PHRASES[language].done);
+    response.hangup();
+    return response.toString();
+  }
+
+  /**
+   * recordingStatusCallback - the final recording URL and length
+   */
+  async handleRecordingStatus(callId: string, recording: { url?: string; durationSeconds?: number; status?: string }): Promise<void> {
+    if (recording.status !== 'completed' || !recording.url) {
+      log.warn({ event: 'voicemail_recording_unavailable', callId, status: recording.status });
+      return;
+    }
+
+    const updated = await db.updateCallbackVoicemail(callId, {
+      recordingUrl: recording.url,
+      recordingDuration: recording.durationSeconds
+    });
+    log.info({ event: 'voicemail_recording_saved', callId, found: !!updated });
+  }
+
+  /**
+   * transcribeCallback - store the transcription, refine the category and send it to staff
+   * (they were notified of the message when it was saved)
+   */
+  async handleTranscription(callId: string, transcription: { text?: string; status?: string }): Promise<void> {
+    const text = transcription.status === 'completed' ? transcription.text?.trim() : undefined;
+    const existing = await db.getCallbackRequestByCallId(callId);
+    if (!existing) {
+      log.warn({ event: 'voicemail_transcription_orphaned', callId, status: transcription.status });
+      return;
+    }
+
+    const category = text && existing.category === 'GENERAL' ? categorizeVoicemail(text) : null;
+    const message = await db.updateCallbackVoicemail(callId, {
+      transcription: text,
+      ...(category ? { category } : {})
+    }) || existing;
+
+    log.info({ event: 'voicemail_transcribed', callId, status: transcription.status, category: message.category });
+
+    // Failed transcription - the notification sent when the message was saved stands
+    if (!text) return;
+
+    const sent = await emailService.sendMessageNotification({
+      id: message.id,
+      callerName: message.callerName || undefined,
+      callerPhone: message.callerPhone,
+      purpose: message.purpose,
+      category: message.category,
+      priority: message.priority,
+      notes: message.notes || undefined,
+      language: parseLanguage(message.language) || 'en',
+      source: 'ivr_fallback',
+      recordingUrl: message.recordingUrl || undefined,
+      transcription: message.transcription || text,
+      transcriptionFollowUp: true,
+      createdAt: message.createdAt
+    });
+    if (sent) {
+      await db.recordCallMessage(callId, 'email');
+    }
+  }
+}
+
+// Export singleton instance
+export const ivrFallback = new IvrFallbackService();
@@ -0,0 +1,96 @@
+/**
+ * HALCYON AI RECEPTIONIST - KEYPAD (DTMF) INPUT
+ *
+ * Buffers digits from Twilio `dtmf` stream events for one call:
+ * - A mapped key pressed on its own (e.g. 0 = transfer, * = repeat) fires an action
+ * - Anything else is collected until the terminator key (#) or a pause in typing,
+ *   then handed off as a single entry (date of birth, callback number, reference number)
+ */
+
+import { config } from '../config/index.js';
+import { createCallLogger } from '../utils/logger.js';
+
+export type KeypadAction = 'transfer' | 'repeat';
+
+const KEYPAD_ACTIONS: KeypadAction[] = ['transfer', 'repeat'];
+
+export interface KeypadInputOptions {
+  onEntry: (digits: string) => void;
+  onAction: (action: KeypadAction, key: string) => void;
+}
+
+export class KeypadInput {
+  private log;
+  private options: KeypadInputOptions;
+  private buffer = '';
+  private entryTimer: NodeJS.Timeout | null = null;
+
+  constructor(callId: string, options: KeypadInputOptions) {
+    this.log = createCallLogger(callId);
+    this.options = options;
+  }
+
+  /**
+   * Handle a single digit from a Twilio dtmf event
+   */
+  press(key: string): void {
+    this.log.info({ event: 'dtmf_received', key, buffered: this.buffer.length });
+
+    // Mapped keys only act as shortcuts when they start an entry,
+    // so a 0 inside a phone number isn't treated as "transfer"
+    const action = this.getAction(key);
+    if (action && this.buffer.length === 0) {
+      this.log.info({ event: 'dtmf_action', key, action });
+      this.options.onAction(action, key);
+      return;
+    }
+
+    if (key === config.keypad.terminator) {
+      this.flush();
+      return;
+    }
+
+    this.buffer += key;
+    this.restartEntryTimer();
+  }
+
+  /**
+   * Hand off whatever has been typed so far
+   */
+  flush(): void {
+    this.clearEntryTimer();
+
+    if (!this.buffer) return;
+
+    const digits = this.buffer;
+    this.buffer = '';
+
+    this.log.info({ event: 'dtmf_entry_completed', length: digits.length });
+    this.options.onEntry(digits);
+  }
+
+  /**
+   * Discard any partial entry (call ending)
+   */
+  reset(): void {
+    this.clearEntryTimer();
+    this.buffer = '';
+  }
+
+  private getAction(key: string): KeypadAction | null {
+    const action = config.keypad.keymap[key];
+    return KEYPAD_ACTIONS.includes(action as KeypadAction) ? action as KeypadAction : null;
+  }
+
+  private restartEntryTimer(): void {
+    this.clearEntryTimer();
+    this.entryTimer = setTimeout(() => this.flush(), config.keypad.interDigitTimeoutMs);
+  }
+
+  private clearEntryTimer(): void {
+    if (this.entryTimer) {
+      clearTimeout(this.entryTimer);
+      this.entryTimer = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Config is read once at import - required settings must exist first
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID || 'ACtest',
+    TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN || 'test',
+    TWILIO_PHONE_NUMBER: process.env.TWILIO_PHONE_NUMBER || '+15550000000',
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY || 'sk-test-key'
+  });
+});
+
+import { detectLanguage, parseLanguage } from './language.js';
+
+describe('detectLanguage', () => {
+  it.each([
+    'Social Security disability',
+    'my SSDI claim',
+    'I need help with my Social Security disability claim',
+    'I live in Los Angeles',
+    'Can you do me a favor and call me back'
+  ])('keeps %j in English', text => {
+    expect(detectLanguage(text)).toBe('en');
+  });
+
+  it.each([
+    'Social Security.',
+    'Social Security',
+    'hola',
+    'Sí, gracias'
+  ])('waits for more than %j', text => {
+    expect(detectLanguage(text)).toBeNull();
+  });
+
+  it.each([
+    'Hola, necesito ayuda con mi caso',
+    'Buenos días, quiero hablar con alguien',
+    'Estoy llamando por el seguro social',
+    'Necesito ayuda por favor'
+  ])('switches %j to Spanish', text => {
+    expect(detectLanguage(text)).toBe('es');
+  });
+
+  it('needs more than one distinct Spanish word', () => {
+    expect(detectLanguage('hola hola hola')).toBe('en');
+  });
+});
+
+describe('parseLanguage', () => {
+  it('accepts codes, locales and names', () => {
+    expect(parseLanguage('es-MX')).toBe('es');
+    expect(parseLanguage(' Spanish ')).toBe('es');
+    expect(parseLanguage('en')).toBe('en');
+    expect(parseLanguage('fr')).toBeNull();
+    expect(parseLanguage(undefined)).toBeNull();
+  });
+});
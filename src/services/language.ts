@@ -0,0 +1,122 @@
+/**
+ * HALCYON AI RECEPTIONIST - CALL LANGUAGE
+ *
+ * Which language a call is handled in, and how it was chosen:
+ * - dialed number: the caller dialed one of SPANISH_PHONE_NUMBERS
+ * - menu: the caller pressed 2 on the language menu
+ * - detected: the caller's first utterance was in Spanish
+ * Plus the TwiML voices and short phrases spoken before the AI connects.
+ */
+
+import { config } from '../config/index.js';
+
+export type CallLanguage = 'en' | 'es';
+
+export type LanguageSource = 'default' | 'dialed_number' | 'menu' | 'detected';
+
+export const LANGUAGE_NAMES: Record<CallLanguage, string> = {
+  en: 'English',
+  es: 'Spanish'
+};
+
+// Twilio <Say> voice per language
+export const TWIML_VOICES = {
+  en: { voice: 'Google.en-US-Neural2-F', language: 'en-US' },
+  es: { voice: 'Google.es-US-Neural2-A', language: 'es-US' }
+} as const;
+
+// Lines spoken by TwiML before the caller reaches the AI
+export const TWIML_PHRASES: Record<CallLanguage, {
+  connecting: string;
+  liveStaffOption: (firm: string) => string;
+  holdForStaff: string;
+  staffBusy: string;
+  overflowOffer: string;
+  queuePosition: (position: number) => string;
+  callbackConfirmed: string;
+  queueTimedOut: string;
+  transferUnanswered: (firm: string) => string;
+}> = {
+  en: {
+    connecting: 'Please wait while I connect you to our intake assistant.',
+    liveStaffOption: firm => `Thank you for calling ${firm}. To speak with a member of our team, press 1. Otherwise, stay on the line for our intake assistant.`,
+    holdForStaff: 'Please hold while I connect you.',
+    staffBusy: 'Sorry, our team is busy helping other callers. Let me connect you to our intake assistant.',
+    overflowOffer: 'Thank you for calling. All of our intake assistants are helping other callers right now. Press 1 and we will call you back at this number as soon as possible, or stay on the line to hold.',
+    queuePosition: position => `You are number ${position} in line. Press 1 at any time to get a call back instead of waiting.`,
+    callbackConfirmed: 'Thank you. We will call you back at this number as soon as possible. Goodbye.',
+    queueTimedOut: 'We are sorry for the wait. Rather than keep you on hold, we will call you back at this number as soon as possible. Goodbye.',
+    transferUnanswered: firm => `I'm sorry, no one from our team is available right now. I've passed your information along, and someone will call you back within one to two business days. Thank you for calling ${firm}.`
+  },
+  es: {
+    connecting: 'Por favor espere mientras le comunico con nuestra asistente de admisión.',
+    liveStaffOption: firm => `Gracias por llamar a ${firm}. Para hablar con un miembro de nuestro equipo, oprima 1. De lo contrario, permanezca en la línea para hablar con nuestra asistente.`,
+    holdForStaff: 'Por favor espere mientras le comunico.',
+    staffBusy: 'Lo sentimos, nuestro equipo está ayudando a otras personas. Le comunico con nuestra asistente de admisión.',
+    overflowOffer: 'Gracias por llamar. En este momento todas nuestras asistentes están ayudando a otras personas. Oprima 1 y le devolveremos la llamada a este número lo antes posible, o permanezca en la línea para esperar.',
+    queuePosition: position => `Usted es el número ${position} en la fila. Oprima 1 en cualquier momento para que le devolvamos la llamada en lugar de esperar.`,
+    callbackConfirmed: 'Gracias. Le devolveremos la llamada a este número lo antes posible. Adiós.',
+    queueTimedOut: 'Lamentamos la espera. En lugar de mantenerle en espera, le devolveremos la llamada a este número lo antes posible. Adiós.',
+    transferUnanswered: firm => `Lo siento, en este momento no hay nadie de nuestro equipo disponible. Ya pasé su información, y un miembro de nuestro equipo que habla español le devolverá la llamada dentro de uno a dos días hábiles. Gracias por llamar a ${firm}.`
+  }
+};
+
+// Common Spanish words that rarely appear in English speech - short words that also turn
+// up in English ("mi", "la", "con"), English words ("social", "favor") and place-name
+// parts ("los", "las") are left out so they can't flip an English caller
+const SPANISH_MARKERS = new Set([
+  'hola', 'buenos', 'buenas', 'días', 'dias', 'tardes', 'noches', 'gracias', 'por',
+  'quiero', 'necesito', 'quisiera', 'puedo', 'tengo', 'estoy', 'llamo', 'llamando', 'español',
+  'espanol', 'habla', 'hablar', 'ayuda', 'sí', 'usted', 'ustedes', 'una', 'que', 'qué', 'cómo',
+  'incapacidad', 'seguro', 'necesita', 'ayudarme', 'puede', 'señor', 'señora'
+]);
+
+// An utterance shorter than this, or with fewer distinct markers, says too little to switch on
+const MIN_DETECTION_WORDS = 3;
+const MIN_SPANISH_MARKERS = 2;
+
+/**
+ * Normalize a language value from a query string or setting
+ */
+export function parseLanguage(value?: string | null): CallLanguage | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'es' || normalized.startsWith('es-') || normalized === 'spanish') return 'es';
+  if (normalized === 'en' || normalized.startsWith('en-') || normalized === 'english') return 'en';
+  return null;
+}
+
+/**
+ * Guess the language of a transcribed utterance
+ * @returns null when there's too little to go on
+ */
+export function detectLanguage(text: string): CallLanguage | null {
+  const words = text.toLowerCase().match(/[a-záéíóúñü]+/g) || [];
+  if (words.length < MIN_DETECTION_WORDS) return null;
+
+  const spanishWords = words.filter(word => SPANISH_MARKERS.has(word));
+  if (new Set(spanishWords).size < MIN_SPANISH_MARKERS) return 'en';
+
+  const hasSpanishCharacters = /[ñ¿¡áéíóú]/.test(text.toLowerCase());
+  return spanishWords.length / words.length >= 0.3 || hasSpanishCharacters ? 'es' : 'en';
+}
+
+/**
+ * Language implied by the number the caller dialed (SPANISH_PHONE_NUMBERS)
+ */
+export function languageForDialedNumber(to: string): CallLanguage | null {
+  const digits = to.replace(/\D/g, '');
+  return config.language.spanishNumbers.some(number => number.replace(/\D/g, '') === digits) ? 'es' : null;
+}
+
+/**
+ * Translate the scoring engine's callback timeframe ("24 hours", "3-5 business days")
+ */
+export function localizeTimeframe(timeframe: string, language: CallLanguage): string {
+  if (language === 'en') return timeframe;
+
+  return timeframe
+    .replace(/business days/, 'días hábiles')
+    .replace(/hours/, 'horas')
+    .replace(/as time permits/, 'en cuanto sea posible');
+}
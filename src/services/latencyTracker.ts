@@ -0,0 +1,123 @@
+/**
+ * HALCYON AI RECEPTIONIST - LATENCY TRACKING
+ *
+ * Per-call timing of the pauses callers notice:
+ * - response: end of caller speech -> first assistant audio sent to the carrier
+ * - tool: function call execution time
+ * - skinny_app: Skinny App scoring round-trip when the intake is saved
+ *
+ * Each call's samples are stored on its Call record; reports aggregate them
+ * into p50/p95 per day.
+ */
+
+import { createCallLogger } from '../utils/logger.js';
+
+export type LatencyKind = 'response' | 'tool' | 'skinny_app';
+
+// A type alias (not an interface) so it stays assignable to Prisma's Json input
+export type LatencySample = {
+  kind: LatencyKind;
+  ms: number;
+  at: string;      // When the measured step finished (ISO)
+  tool?: string;   // Function name, for tool samples
+};
+
+export interface LatencyStats {
+  count: number;
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+export type LatencySummary = Record<LatencyKind, LatencyStats>;
+
+export interface DailyLatency extends LatencySummary {
+  date: string;  // YYYY-MM-DD, server local time (same days as DailyStats)
+  calls: number;
+}
+
+const LATENCY_KINDS: LatencyKind[] = ['response', 'tool', 'skinny_app'];
+
+export class CallLatencyTracker {
+  private log;
+  private samples: LatencySample[] = [];
+  private speechStoppedAt: number | null = null;
+
+  constructor(callId: string) {
+    this.log = createCallLogger(callId);
+  }
+
+  /**
+   * Caller finished a turn (end of speech, or a keypad entry) - the clock runs
+   * until the first assistant audio goes out
+   */
+  speechStopped(): void {
+    this.speechStoppedAt = Date.now();
+  }
+
+  /**
+   * Assistant audio was sent to the carrier - closes the turn if one is open
+   */
+  audioSent(): void {
+    if (this.speechStoppedAt === null) return;
+
+    const ms = Date.now() - this.speechStoppedAt;
+    this.speechStoppedAt = null;
+    this.record('response', ms);
+    this.log.debug({ event: 'turn_latency', ms });
+  }
+
+  record(kind: LatencyKind, ms: number, tool?: string): void {
+    this.samples.push({ kind, ms: Math.round(ms), at: new Date().toISOString(), ...(tool ? { tool } : {}) });
+  }
+
+  getSamples(): LatencySample[] {
+    return this.samples;
+  }
+}
+
+/**
+ * Nearest-rank percentile of already sorted values
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+export function summarizeLatency(samples: LatencySample[]): LatencySummary {
+  const summary = {} as LatencySummary;
+
+  for (const kind of LATENCY_KINDS) {
+    const values = samples.filter(s => s.kind === kind).map(s => s.ms).sort((a, b) => a - b);
+    summary[kind] = {
+      count: values.length,
+      p50: percentile(values, 50),
+      p95: percentile(values, 95),
+      max: values.length > 0 ? values[values.length - 1] : null
+    };
+  }
+
+  return summary;
+}
+
+/**
+ * Group calls' samples by the day the call started and summarize each day
+ */
+export function aggregateLatencyByDay(calls: Array<{ createdAt: Date; latency: unknown }>): DailyLatency[] {
+  const days = new Map<string, { calls: number; samples: LatencySample[] }>();
+
+  for (const call of calls) {
+    if (!Array.isArray(call.latency)) continue;
+
+    const d = call.createdAt;
+    const date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    const day = days.get(date) || { calls: 0, samples: [] };
+    day.calls++;
+    day.samples.push(...call.latency as LatencySample[]);
+    days.set(date, day);
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({ date, calls: day.calls, ...summarizeLatency(day.samples) }));
+}
@@ -0,0 +1,122 @@
+/**
+ * HALCYON AI RECEPTIONIST - IN-MEMORY TELEPHONY PROVIDER
+ *
+ * Runs the intake engine without a carrier, for tests and local scripts.
+ * A MemoryMediaSocket plays the caller's side of the gateway frame protocol
+ * in-process; hangups, redirects, transfers and SMS are recorded (and always succeed).
+ *
+ *   const socket = memoryTelephony.createSocket();
+ *   handleMediaSession(socket, { callId, callerPhone }, memoryTelephony);
+ *   socket.start('MEM_1');
+ *   socket.sendAudio(ulawBase64);
+ *   socket.playedAudio  // what the AI said back
+ */
+
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { GatewayTelephonyProvider } from './gatewayTelephony.js';
+import type { TelephonyProviderName, TransferTarget, SmsResult, MediaSocket } from './telephony.js';
+
+export type MemoryCallAction =
+  | { type: 'hangup'; callSid: string }
+  | { type: 'say_and_hangup'; callSid: string; message: string }
+  | { type: 'redirect'; callSid: string; url: string }
+  | { type: 'transfer'; callSid: string; target: TransferTarget };
+
+/**
+ * Caller side of an in-memory media session
+ */
+export class MemoryMediaSocket extends EventEmitter implements MediaSocket {
+  readyState: number = WebSocket.OPEN;
+  readonly sent: Array<Record<string, unknown>> = [];  // Frames the server sent, in order
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close', code, Buffer.from(reason));
+  }
+
+  start(callSid: string, parameters: Record<string, string> = {}): void {
+    this.deliver({ type: 'start', callSid, streamId: callSid, parameters });
+  }
+
+  sendAudio(payload: string, timestamp?: number): void {
+    this.deliver({ type: 'audio', payload, timestamp });
+  }
+
+  pressKey(digit: string): void {
+    this.deliver({ type: 'dtmf', digit });
+  }
+
+  /**
+   * Report every mark sent so far as played
+   */
+  acknowledgeMarks(): void {
+    this.sent
+      .filter(frame => frame.type === 'mark')
+      .forEach(frame => this.deliver({ type: 'mark', name: frame.name }));
+  }
+
+  stop(): void {
+    this.deliver({ type: 'stop' });
+  }
+
+  get playedAudio(): string[] {
+    return this.sent.filter(frame => frame.type === 'audio').map(frame => frame.payload as string);
+  }
+
+  private deliver(message: Record<string, unknown>): void {
+    this.emit('message', Buffer.from(JSON.stringify(message)));
+  }
+}
+
+export class MemoryTelephonyProvider extends GatewayTelephonyProvider {
+  readonly name: TelephonyProviderName = 'memory';
+  readonly actions: MemoryCallAction[] = [];
+  readonly messages: Array<{ to: string; body: string; sentAt: Date }> = [];
+
+  createSocket(): MemoryMediaSocket {
+    return new MemoryMediaSocket();
+  }
+
+  async hangup(callSid: string): Promise<boolean> {
+    this.actions.push({ type: 'hangup', callSid });
+    await this.control(callSid, { type: 'hangup' });
+    return true;
+  }
+
+  async endCallWithMessage(callSid: string, message: string): Promise<boolean> {
+    this.actions.push({ type: 'say_and_hangup', callSid, message });
+    await this.control(callSid, { type: 'say_and_hangup', text: message });
+    return true;
+  }
+
+  async redirect(callSid: string, url: string): Promise<boolean> {
+    this.actions.push({ type: 'redirect', callSid, url });
+    await this.control(callSid, { type: 'redirect', url });
+    return true;
+  }
+
+  async transfer(callSid: string, target: TransferTarget): Promise<boolean> {
+    this.actions.push({ type: 'transfer', callSid, target });
+    await this.control(callSid, { type: 'transfer', numbers: target.numbers, whisper: target.whisper });
+    return true;
+  }
+
+  async sendSms(to: string, body: string): Promise<SmsResult> {
+    this.messages.push({ to, body, sentAt: new Date() });
+    return { id: `MEM_SMS_${this.messages.length}`, status: 'delivered' };
+  }
+
+  reset(): void {
+    this.actions.length = 0;
+    this.messages.length = 0;
+  }
+}
+
+// Export singleton instance
+export const memoryTelephony = new MemoryTelephonyProvider();
@@ -0,0 +1,342 @@
+/**
+ * HALCYON AI RECEPTIONIST - OFFICE HOURS SERVICE
+ *
+ * Decides how each incoming call is handled based on the firm's calendar:
+ * - Weekly schedule and timezone
+ * - Holidays and ad-hoc closures
+ * - Whether callers are offered a live staff option during office hours
+ *
+ * The calendar is stored in the `office_hours` Setting so it can be edited
+ * from the dashboard without a redeploy.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { db } from './database.js';
+
+const log = createLogger('office-hours');
+
+export const OFFICE_HOURS_SETTING_KEY = 'office_hours';
+
+// Re-read the setting at most this often (calls hit this on every /twilio/voice)
+const CACHE_TTL_MS = 60 * 1000;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+type Weekday = typeof WEEKDAYS[number];
+
+export interface OfficeHoursWindow {
+  open: string;  // HH:MM, 24h, in the calendar timezone
+  close: string; // HH:MM, 24h, in the calendar timezone
+}
+
+export interface OfficeClosure {
+  start: string; // ISO datetime
+  end: string;   // ISO datetime
+  reason?: string;
+}
+
+export interface OfficeHoursCalendar {
+  timezone: string;
+  weekly: Record<Weekday, OfficeHoursWindow[]>;
+  holidays: Array<{ date: string; name?: string }>; // YYYY-MM-DD in the calendar timezone
+  closures: OfficeClosure[];
+  offerLiveStaff: boolean;
+}
+
+/**
+ * How the call should be handled:
+ * - live_staff_option: office open, caller may press 1 for a team member or stay with the AI
+ * - ai_intake: office open, straight to the AI intake
+ * - after_hours: office closed, AI runs with after-hours instructions
+ */
+export type CallRouting = 'live_staff_option' | 'ai_intake' | 'after_hours';
+
+/**
+ * What the AI needs to know - whether the office is open right now
+ */
+export type IntakeMode = 'business_hours' | 'after_hours';
+
+export interface RoutingDecision {
+  routing: CallRouting;
+  mode: IntakeMode;
+  closedReason?: string;
+  nextOpening?: string; // Spoken description, e.g. "tomorrow morning at 9:00 AM"
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  weekday: Weekday;
+}
+
+function defaultCalendar(): OfficeHoursCalendar {
+  const weekday: OfficeHoursWindow[] = [{ open: config.officeHours.open, close: config.officeHours.close }];
+  return {
+    timezone: config.officeHours.timezone,
+    weekly: {
+      sun: [],
+      mon: weekday,
+      tue: weekday,
+      wed: weekday,
+      thu: weekday,
+      fri: weekday,
+      sat: []
+    },
+    holidays: [],
+    closures: [],
+    offerLiveStaff: true
+  };
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;  // HH:MM, 24h
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);  // Rejects e.g. 2025-02-30
+}
+
+/**
+ * Check a calendar submitted from the dashboard before it's saved - a malformed
+ * one would break routing of every inbound call
+ * @returns An error message, or null if the calendar is valid
+ */
+export function validateOfficeHoursCalendar(body: unknown): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'timezone and weekly schedule are required';
+  }
+  const calendar = body as Partial<Record<keyof OfficeHoursCalendar, unknown>>;
+
+  if (typeof calendar.timezone !== 'string' || !calendar.weekly || typeof calendar.weekly !== 'object' || Array.isArray(calendar.weekly)) {
+    return 'timezone and weekly schedule are required';
+  }
+
+  try {
+    // Throws RangeError for unknown IANA zones
+    new Intl.DateTimeFormat('en-US', { timeZone: calendar.timezone });
+  } catch {
+    return `Unknown timezone: ${calendar.timezone}`;
+  }
+
+  for (const [day, windows] of Object.entries(calendar.weekly)) {
+    if (!(WEEKDAYS as readonly string[]).includes(day)) {
+      return `Unknown weekday: ${day} (use ${WEEKDAYS.join(', ')})`;
+    }
+    if (!Array.isArray(windows)) {
+      return `weekly.${day} must be an array of { open, close } windows`;
+    }
+    for (const window of windows) {
+      if (!window || !TIME_PATTERN.test(window.open) || !TIME_PATTERN.test(window.close)) {
+        return `weekly.${day}: open and close must be HH:MM (24h)`;
+      }
+      if (window.open >= window.close) {
+        return `weekly.${day}: open (${window.open}) must be before close (${window.close})`;
+      }
+    }
+  }
+
+  if (calendar.holidays !== undefined) {
+    if (!Array.isArray(calendar.holidays)) {
+      return 'holidays must be an array';
+    }
+    const invalid = calendar.holidays.find(h => !h || !isValidDate(h.date));
+    if (invalid !== undefined) {
+      return `Invalid holiday date: ${JSON.stringify(invalid?.date)} (use YYYY-MM-DD)`;
+    }
+  }
+
+  if (calendar.closures !== undefined) {
+    if (!Array.isArray(calendar.closures)) {
+      return 'closures must be an array';
+    }
+    for (const closure of calendar.closures) {
+      const start = new Date(closure?.start).getTime();
+      const end = new Date(closure?.end).getTime();
+      if (typeof closure?.start !== 'string' || typeof closure?.end !== 'string' || isNaN(start) || isNaN(end)) {
+        return 'closures need ISO start and end datetimes';
+      }
+      if (start >= end) {
+        return `Closure starting ${closure.start} must end after it starts`;
+      }
+    }
+  }
+
+  if (calendar.offerLiveStaff !== undefined && typeof calendar.offerLiveStaff !== 'boolean') {
+    return 'offerLiveStaff must be true or false';
+  }
+
+  return null;
+}
+
+export class OfficeHoursService {
+  private cached: OfficeHoursCalendar | null = null;
+  private cachedAt = 0;
+
+  /**
+   * Get the current calendar (setting merged over env defaults)
+   */
+  async getCalendar(): Promise<OfficeHoursCalendar> {
+    if (this.cached && Date.now() - this.cachedAt < CACHE_TTL_MS) {
+      return this.cached;
+    }
+
+    const defaults = defaultCalendar();
+    let calendar = defaults;
+
+    try {
+      const stored = await db.getSetting<Partial<OfficeHoursCalendar>>(OFFICE_HOURS_SETTING_KEY);
+      if (stored) {
+        calendar = {
+          ...defaults,
+          ...stored,
+          weekly: { ...defaults.weekly, ...(stored.weekly || {}) }
+        };
+      }
+    } catch (error) {
+      log.error({ event: 'office_hours_load_failed', error });
+    }
+
+    this.cached = calendar;
+    this.cachedAt = Date.now();
+    return calendar;
+  }
+
+  /**
+   * Save the calendar from the dashboard
+   */
+  async saveCalendar(calendar: OfficeHoursCalendar): Promise<void> {
+    await db.saveSetting(OFFICE_HOURS_SETTING_KEY, calendar);
+    this.cached = calendar;
+    this.cachedAt = Date.now();
+    log.info({ event: 'office_hours_saved', timezone: calendar.timezone });
+  }
+
+  /**
+   * Decide how to handle a call arriving at `now`
+   * @param liveStaffAvailable - Whether a staff ring group is configured at all
+   */
+  async route(liveStaffAvailable: boolean, now: Date = new Date()): Promise<RoutingDecision> {
+    const calendar = await this.getCalendar();
+    const closedReason = this.getClosedReason(calendar, now);
+
+    if (closedReason) {
+      return {
+        routing: 'after_hours',
+        mode: 'after_hours',
+        closedReason,
+        nextOpening: this.describeNextOpening(calendar, now)
+      };
+    }
+
+    return {
+      routing: calendar.offerLiveStaff && liveStaffAvailable ? 'live_staff_option' : 'ai_intake',
+      mode: 'business_hours'
+    };
+  }
+
+  /**
+   * Returns why the office is closed at `now`, or null if it is open
+   */
+  private getClosedReason(calendar: OfficeHoursCalendar, now: Date): string | null {
+    const local = this.toLocal(now, calendar.timezone);
+
+    const holiday = calendar.holidays.find(h => h.date === local.date);
+    if (holiday) {
+      return holiday.name ? `holiday: ${holiday.name}` : 'holiday';
+    }
+
+    const closure = calendar.closures.find(c => {
+      const start = new Date(c.start).getTime();
+      const end = new Date(c.end).getTime();
+      return now.getTime() >= start && now.getTime() < end;
+    });
+    if (closure) {
+      return closure.reason ? `closure: ${closure.reason}` : 'closure';
+    }
+
+    const windows = calendar.weekly[local.weekday] || [];
+    const open = windows.some(w => local.time >= w.open && local.time < w.close);
+    return open ? null : 'outside_hours';
+  }
+
+  /**
+   * Spoken description of the next time the office opens (looks two weeks ahead)
+   */
+  private describeNextOpening(calendar: OfficeHoursCalendar, now: Date): string | undefined {
+    const today = this.toLocal(now, calendar.timezone);
+
+    // Closures compared as local "YYYY-MM-DD HH:MM" strings to avoid offset math
+    const closures = calendar.closures.map(c => ({
+      start: this.toLocalStamp(new Date(c.start), calendar.timezone),
+      end: this.toLocalStamp(new Date(c.end), calendar.timezone)
+    }));
+
+    for (let daysAhead = 0; daysAhead < 14; daysAhead++) {
+      const day = this.toLocal(new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000), calendar.timezone);
+
+      if (calendar.holidays.some(h => h.date === day.date)) continue;
+
+      const windows = [...(calendar.weekly[day.weekday] || [])].sort((a, b) => a.open.localeCompare(b.open));
+
+      for (const window of windows) {
+        if (daysAhead === 0 && window.open <= today.time) continue;
+
+        const stamp = `${day.date} ${window.open}`;
+        if (closures.some(c => stamp >= c.start && stamp < c.end)) continue;
+
+        return this.describeOpening(day, window.open, daysAhead);
+      }
+    }
+
+    return undefined;
+  }
+
+  private describeOpening(day: LocalTime, open: string, daysAhead: number): string {
+    const [hours, minutes] = open.split(':').map(n => parseInt(n, 10));
+    const suffix = hours >= 12 ? 'PM' : 'AM';
+    const spokenTime = `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+
+    if (daysAhead === 0) {
+      return `today at ${spokenTime}`;
+    }
+    if (daysAhead === 1) {
+      return hours < 12 ? `tomorrow morning at ${spokenTime}` : `tomorrow at ${spokenTime}`;
+    }
+
+    const weekdayNames: Record<Weekday, string> = {
+      sun: 'Sunday', mon: 'Monday', tue: 'Tuesday', wed: 'Wednesday',
+      thu: 'Thursday', fri: 'Friday', sat: 'Saturday'
+    };
+    return `${weekdayNames[day.weekday]} at ${spokenTime}`;
+  }
+
+  private toLocal(date: Date, timeZone: string): LocalTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+      date: `${get('year')}-${get('month')}-${get('day')}`,
+      time: `${get('hour')}:${get('minute')}`,
+      weekday: get('weekday').toLowerCase().slice(0, 3) as Weekday
+    };
+  }
+
+  private toLocalStamp(date: Date, timeZone: string): string {
+    const local = this.toLocal(date, timeZone);
+    return `${local.date} ${local.time}`;
+  }
+}
+
+// Export singleton instance
+export const officeHoursService = new OfficeHoursService();
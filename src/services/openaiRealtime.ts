@@ -1,14 +1,38 @@
 /**
  * HALCYON AI RECEPTIONIST - OPENAI REALTIME API CLIENT
  *
- * Handles WebSocket connection to OpenAI's Realtime API
+ * Handles WebSocket connection to OpenAI's Realtime API (the "realtime" conversation backend)
  * Manages audio streaming, function calls, and conversation state
  */
 
 import WebSocket from 'ws';
 import { config } from '../config/index.js';
 import { createCallLogger } from '../utils/logger.js';
-import { INTAKE_SYSTEM_PROMPT, INTAKE_TOOLS } from './intakePrompts.js';
+import {
+  decodeMulaw,
+  encodeMulaw,
+  pcm16FromBuffer,
+  pcm16ToBuffer,
+  resample,
+  TELEPHONY_SAMPLE_RATE,
+  REALTIME_PCM_SAMPLE_RATE
+} from '../utils/audioCodec.js';
+import type { CallLanguage } from './language.js';
+import { SWITCH_TO_SPANISH_NOTE } from './spanishPrompts.js';
+import type { ConversationBackend, ConversationBackendOptions } from './conversationBackend.js';
+import { emptyConversationUsage } from './costAccounting.js';
+import {
+  buildInstructions,
+  buildTools,
+  buildGreetingPrompt,
+  buildKeypadEntryInstruction,
+  buildKeypadActionInstruction,
+  buildSilencePromptInstruction,
+  buildResumeInstruction,
+  FIRST_SILENCE_TIMEOUT_MS,
+  SILENCE_TIMEOUT_MS,
+  MAX_SILENCE_PROMPTS
+} from './conversationPrompts.js';
 
 // OpenAI Realtime API types
 interface RealtimeEvent {
@@ -27,7 +51,8 @@ interface AudioDelta {
 }
 
 interface TranscriptDelta {
-  type: 'response.audio_transcript.delta' | 'conversation.item.input_audio_transcription.completed';
+  type: 'response.audio_transcript.delta' | 'response.audio_transcript.done' | 'conversation.item.input_audio_transcription.completed';
+  item_id?: string;
   transcript?: string;
   delta?: string;
 }
@@ -39,23 +64,57 @@ interface FunctionCallArguments {
   arguments: string;
 }
 
-export interface OpenAIRealtimeClientOptions {
-  callId: string;
-  onAudioResponse: (audioBase64: string) => void;
-  onTranscript: (role: 'user' | 'assistant', text: string) => void;
-  onFunctionCall: (name: string, args: Record<string, unknown>) => Promise<unknown>;
-  onInterruption: () => void;
-  onError: (error: Error) => void;
-  onClose: () => void;
+interface ResponseUsage {
+  input_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+    cached_tokens?: number;
+    cached_tokens_details?: { text_tokens?: number; audio_tokens?: number };
+  };
+  output_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
 }
 
-// Silence timeout - how long to wait before re-prompting if user doesn't respond
-// First prompt waits longer (20s), subsequent prompts wait 15s
-const FIRST_SILENCE_TIMEOUT_MS = 20000; // 20 seconds for first re-prompt (give caller plenty of time)
-const SILENCE_TIMEOUT_MS = 15000; // 15 seconds for subsequent prompts
-const MAX_SILENCE_PROMPTS = 2;   // Max times to re-prompt before giving up (reduced from 3)
+interface ResponseDone {
+  type: 'response.done';
+  response?: { usage?: ResponseUsage };
+}
+
+interface RateLimit {
+  name: string;
+  limit: number;
+  remaining: number;
+  reset_seconds: number;
+}
+
+// g711_ulaw passes carrier audio straight through; pcm16 runs the session at
+// 24kHz (better transcription) and converts to and from μ-law 8kHz here
+export type RealtimeAudioFormat = 'g711_ulaw' | 'pcm16';
+
+export type OpenAIRealtimeClientOptions = ConversationBackendOptions & {
+  audioFormat?: RealtimeAudioFormat;  // Defaults to OPENAI_AUDIO_FORMAT
+};
+
+// Give up on the OpenAI handshake after this long (the caller falls back to the scripted intake)
+const CONNECT_TIMEOUT_MS = 10000;
+
+// Backoff between reconnect attempts after the socket drops mid-call: 500ms, 1s, 2s, 4s, ...
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 5000;
+
+// Audio to the caller is 8kHz μ-law, one byte per sample
+const ULAW_BYTES_PER_MS = TELEPHONY_SAMPLE_RATE / 1000;
+
+// pcm16 output samples per 8kHz output sample
+const PCM_SAMPLES_PER_ULAW_SAMPLE = REALTIME_PCM_SAMPLE_RATE / TELEPHONY_SAMPLE_RATE;
+
+// Warn when less than this share of a rate limit is left
+const RATE_LIMIT_WARNING_FRACTION = 0.1;
 
-export class OpenAIRealtimeClient {
+export class OpenAIRealtimeClient implements ConversationBackend {
+  readonly name = 'realtime' as const;
   private ws: WebSocket | null = null;
   private options: OpenAIRealtimeClientOptions;
   private log;
@@ -66,15 +125,38 @@ export class OpenAIRealtimeClient {
   private silenceTimeout: NodeJS.Timeout | null = null;
   private silencePromptCount = 0;  // Track how many times we've re-prompted
   private callEnding = false;  // Flag to prevent re-prompts after call conclusion
+  private responseInProgress = false;  // Between response.created and response.done
+  // Barge-in bookkeeping per assistant item: audio generated, transcripts emitted, heard fraction
+  private generatedAudioMs = new Map<string, number>();
+  private emittedTranscripts = new Set<string>();
+  private truncatedItems = new Map<string, number>();
+  private language: CallLanguage;
+  private greeted = false;
+  private audioFormat: RealtimeAudioFormat;
+  private pcmCarry = new Int16Array(0);  // pcm16 output samples left over from the last delta
+  // Mid-call reconnect: close() makes a socket close expected; otherwise we reconnect and resume
+  private closing = false;
+  private reconnecting = false;
+  private resumePending = false;
+  private reconnectAttempts = 0;  // Since the last completed response - a flapping connection runs out
+  private droppedAudioMs = 0;  // Caller audio discarded while reconnecting
+  private usage = emptyConversationUsage();  // Summed from every response.done
 
   constructor(options: OpenAIRealtimeClientOptions) {
     this.options = options;
+    this.language = options.language || 'en';
+    this.audioFormat = options.audioFormat || config.openai.audioFormat;
     this.log = createCallLogger(options.callId);
   }
 
   async connect(): Promise<void> {
+    await this.openSocket();
+  }
+
+  private openSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const url = `wss://api.openai.com/v1/realtime?model=${config.openai.realtimeModel}`;
+      const url = `${config.openai.realtimeUrl}?model=${config.openai.realtimeModel}`;
+      let opened = false;
 
       // Log connection attempt with key details (mask most of API key for security)
       const maskedKey = config.openai.apiKey.slice(0, 10) + '...' + config.openai.apiKey.slice(-4);
@@ -85,54 +167,145 @@ export class OpenAIRealtimeClient {
         apiKeyPrefix: maskedKey
       });
 
-      this.ws = new WebSocket(url, {
+      const ws = new WebSocket(url, {
         headers: {
           'Authorization': `Bearer ${config.openai.apiKey}`,
           'OpenAI-Beta': 'realtime=v1'
         }
       });
+      this.ws = ws;
+
+      // A handshake that never completes is as bad as one that fails - the caller hears nothing
+      const connectTimer = setTimeout(() => {
+        reject(new Error(`OpenAI connection timed out after ${CONNECT_TIMEOUT_MS}ms`));
+        ws.terminate();
+      }, CONNECT_TIMEOUT_MS);
 
-      this.ws.on('open', () => {
+      ws.on('open', () => {
+        clearTimeout(connectTimer);
+        opened = true;
         this.log.info({ event: 'openai_ws_open', message: 'WebSocket connected successfully' });
         this.isConnected = true;
         this.initializeSession();
         resolve();
       });
 
-      this.ws.on('message', (data) => {
+      ws.on('message', (data) => {
         this.handleMessage(data.toString());
       });
 
-      this.ws.on('error', (error) => {
+      ws.on('error', (error) => {
         this.log.error({ event: 'openai_ws_error', error });
+        clearTimeout(connectTimer);
         this.options.onError(error);
         reject(error);
       });
 
-      this.ws.on('close', (code, reason) => {
+      ws.on('close', (code, reason) => {
+        clearTimeout(connectTimer);
         this.log.info({
           event: 'openai_ws_close',
           code,
           reason: reason.toString()
         });
+        reject(new Error(`OpenAI connection closed (${code})`));
+
+        if (this.ws && this.ws !== ws) return;  // A reconnect attempt already replaced this socket
         this.isConnected = false;
-        this.options.onClose();
+
+        if (opened && !this.closing) {
+          this.reconnect();
+        } else if (!this.reconnecting) {
+          this.options.onClose();
+        }
       });
     });
   }
 
+  /**
+   * The socket dropped mid-call - reconnect with backoff, then (on session.updated)
+   * replay a recap so the new session can carry on. Caller audio in the gap is
+   * discarded on purpose: the new session would answer half-heard sentences,
+   * so the resume prompt asks the caller to repeat instead.
+   */
+  private async reconnect(): Promise<void> {
+    if (this.reconnecting) return;
+
+    this.reconnecting = true;
+    this.clearSilenceTimeout();
+    this.responseInProgress = false;
+    this.currentTranscript = '';
+    this.pcmCarry = new Int16Array(0);
+    this.droppedAudioMs = 0;
+
+    this.log.warn({ event: 'openai_connection_lost', maxAttempts: config.openai.reconnectMaxAttempts });
+    this.options.onReconnect?.('lost', 0);
+
+    while (this.reconnectAttempts < config.openai.reconnectMaxAttempts) {
+      const attempt = ++this.reconnectAttempts;
+      const delayMs = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (this.closing) return;
+
+      try {
+        this.resumePending = true;
+        await this.openSocket();
+        this.reconnecting = false;
+        this.log.info({ event: 'openai_reconnected', attempt, droppedAudioMs: Math.round(this.droppedAudioMs) });
+        this.options.onReconnect?.('restored', attempt);
+        return;
+      } catch (error) {
+        this.resumePending = false;
+        this.log.warn({ event: 'openai_reconnect_attempt_failed', attempt, error });
+      }
+    }
+
+    this.reconnecting = false;
+    this.log.error({ event: 'openai_reconnect_failed', attempts: config.openai.reconnectMaxAttempts });
+    this.options.onReconnect?.('failed', config.openai.reconnectMaxAttempts);
+    this.options.onClose();
+  }
+
+  /**
+   * Pick the conversation back up on a fresh session: recap plus "sorry, I lost you"
+   */
+  private resumeConversation(): void {
+    this.log.info({ event: 'resuming_conversation' });
+
+    this.send({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'user',
+        content: [{
+          type: 'input_text',
+          text: buildResumeInstruction(this.options.getResumeContext?.() || '', this.language)
+        }]
+      }
+    });
+
+    this.send({
+      type: 'response.create',
+      response: {
+        modalities: ['text', 'audio']
+      }
+    });
+  }
+
   private initializeSession(): void {
-    this.log.info({ event: 'initializing_session', voice: config.openai.voice });
+    const mode = this.options.mode || 'business_hours';
+    const outbound = this.options.outbound;
+    this.log.info({ event: 'initializing_session', voice: config.openai.voice, mode, outboundPurpose: outbound?.purpose, language: this.language, audioFormat: this.audioFormat });
 
     // Configure the session
     const sessionConfig = {
       type: 'session.update',
       session: {
         modalities: ['text', 'audio'],
-        instructions: INTAKE_SYSTEM_PROMPT,
+        instructions: buildInstructions(this.options, this.language),
         voice: config.openai.voice,
-        input_audio_format: 'g711_ulaw', // Twilio's format
-        output_audio_format: 'g711_ulaw', // Send back in Twilio's format
+        input_audio_format: this.audioFormat,   // g711_ulaw = the carrier's format as-is
+        output_audio_format: this.audioFormat,
         input_audio_transcription: {
           model: 'whisper-1'
         },
@@ -142,7 +315,7 @@ export class OpenAIRealtimeClient {
           prefix_padding_ms: 500,   // Capture more audio before detected speech
           silence_duration_ms: 1600 // Wait 1.6 seconds of silence before responding (give caller time to think)
         },
-        tools: INTAKE_TOOLS,
+        tools: buildTools(this.options, this.language),
         tool_choice: 'auto',
         temperature: 0.6,           // OpenAI Realtime API minimum is 0.6
         max_response_output_tokens: 512  // Shorter responses = faster delivery
@@ -159,7 +332,7 @@ export class OpenAIRealtimeClient {
   private triggerInitialGreeting(): void {
     this.log.info({ event: 'triggering_initial_greeting', timestamp: new Date().toISOString() });
 
-    // Start the conversation - Twilio already said "Hello, one moment please"
+    // Start the conversation - the caller already heard a TwiML hold message
     // so OpenAI should continue naturally without repeating hello
     const conversationItem = {
       type: 'conversation.item.create',
@@ -168,7 +341,7 @@ export class OpenAIRealtimeClient {
         role: 'user',
         content: [{
           type: 'input_text',
-          text: '[SYSTEM: Call connected. The caller just heard "Hello, one moment please." Now introduce yourself and ask how you can help. Do NOT say hello again.]'
+          text: buildGreetingPrompt(this.options, this.language)
         }]
       }
     };
@@ -202,7 +375,16 @@ export class OpenAIRealtimeClient {
         case 'session.updated':
           this.log.info({ event: 'session_updated' });
           // Now that session is configured, trigger the initial greeting
-          this.triggerInitialGreeting();
+          // (later updates, e.g. a language switch, must not greet again) -
+          // or, on a session opened by a reconnect, resume where we were
+          if (!this.greeted) {
+            this.greeted = true;
+            this.resumePending = false;
+            this.triggerInitialGreeting();
+          } else if (this.resumePending) {
+            this.resumePending = false;
+            this.resumeConversation();
+          }
           break;
 
         case 'response.audio.delta':
@@ -215,10 +397,18 @@ export class OpenAIRealtimeClient {
             this.log.debug({ event: 'audio_chunks_received', count: this.audioChunkCount });
           }
           const audioDelta = event as unknown as AudioDelta;
-          this.options.onAudioResponse(audioDelta.delta);
+          const ulawAudio = this.toCallerAudio(audioDelta.delta);
+          if (!ulawAudio) break;
+          this.generatedAudioMs.set(
+            audioDelta.item_id,
+            (this.generatedAudioMs.get(audioDelta.item_id) || 0) +
+              Buffer.byteLength(ulawAudio, 'base64') / ULAW_BYTES_PER_MS
+          );
+          this.options.onAudioResponse(ulawAudio, audioDelta.item_id);
           break;
 
         case 'response.audio.done':
+          this.pcmCarry = new Int16Array(0);
           this.log.debug({ event: 'audio_response_complete' });
           break;
 
@@ -232,8 +422,18 @@ export class OpenAIRealtimeClient {
 
         case 'response.audio_transcript.done':
           if (this.currentTranscript) {
-            this.options.onTranscript('assistant', this.currentTranscript);
+            const itemId = (event as TranscriptDelta).item_id;
+            this.options.onTranscript('assistant', this.currentTranscript, itemId);
             this.currentTranscript = '';
+
+            if (itemId) {
+              this.emittedTranscripts.add(itemId);
+              // Interrupted before the transcript finished - trim it now
+              const spokenFraction = this.truncatedItems.get(itemId);
+              if (spokenFraction !== undefined) {
+                this.options.onTranscriptTruncated?.(itemId, spokenFraction);
+              }
+            }
           }
           break;
 
@@ -252,26 +452,37 @@ export class OpenAIRealtimeClient {
           break;
 
         case 'input_audio_buffer.speech_started':
-          // User started speaking - cancel silence timeout
+          // User started speaking - cancel silence timeout and stop any playback (barge-in)
           this.log.debug({ event: 'user_speech_started' });
           this.clearSilenceTimeout();
+          this.options.onInterruption();
+          break;
+
+        case 'conversation.item.truncated':
+          this.log.debug({ event: 'conversation_item_truncated', itemId: event.item_id, audioEndMs: event.audio_end_ms });
           break;
 
         case 'input_audio_buffer.speech_stopped':
           this.log.debug({ event: 'user_speech_stopped' });
+          this.options.onSpeechStopped?.();
           break;
 
         case 'response.done':
-          this.log.debug({ event: 'response_complete' });
+          this.responseInProgress = false;
+          this.reconnectAttempts = 0;
+          const usage = (event as unknown as ResponseDone).response?.usage;
+          this.addUsage(usage);
+          this.log.debug({ event: 'response_complete', usage });
           // Start silence timeout - if user doesn't respond within X seconds, re-prompt
           this.startSilenceTimeout();
           break;
 
         case 'rate_limits.updated':
-          // Rate limit info
+          this.checkRateLimits(event.rate_limits as RateLimit[] | undefined);
           break;
 
         case 'response.created':
+          this.responseInProgress = true;
           this.log.info({ event: 'response_created' });
           break;
 
@@ -341,14 +552,40 @@ export class OpenAIRealtimeClient {
   }
 
   sendAudio(audioBase64: string): void {
-    if (!this.isConnected || !this.ws) return;
+    if (!this.isConnected || !this.ws) {
+      if (this.reconnecting) {
+        this.droppedAudioMs += Buffer.byteLength(audioBase64, 'base64') / ULAW_BYTES_PER_MS;
+      }
+      return;
+    }
 
     this.send({
       type: 'input_audio_buffer.append',
-      audio: audioBase64
+      audio: this.audioFormat === 'pcm16'
+        ? pcm16ToBuffer(resample(decodeMulaw(Buffer.from(audioBase64, 'base64')), TELEPHONY_SAMPLE_RATE, REALTIME_PCM_SAMPLE_RATE)).toString('base64')
+        : audioBase64
     });
   }
 
+  /**
+   * Model audio delta -> base64 μ-law 8kHz for the carrier ('' if a pcm16
+   * delta was too short to produce a sample - it carries over to the next)
+   */
+  private toCallerAudio(deltaBase64: string): string {
+    if (this.audioFormat === 'g711_ulaw') return deltaBase64;
+
+    const delta = pcm16FromBuffer(Buffer.from(deltaBase64, 'base64'));
+    const samples = new Int16Array(this.pcmCarry.length + delta.length);
+    samples.set(this.pcmCarry);
+    samples.set(delta, this.pcmCarry.length);
+
+    const usable = samples.length - (samples.length % PCM_SAMPLES_PER_ULAW_SAMPLE);
+    this.pcmCarry = samples.slice(usable);
+    if (usable === 0) return '';
+
+    return encodeMulaw(resample(samples.subarray(0, usable), REALTIME_PCM_SAMPLE_RATE, TELEPHONY_SAMPLE_RATE)).toString('base64');
+  }
+
   commitAudio(): void {
     if (!this.isConnected || !this.ws) return;
 
@@ -367,6 +604,96 @@ export class OpenAIRealtimeClient {
     this.options.onInterruption();
   }
 
+  /**
+   * Tell OpenAI how much of an assistant item the caller actually heard,
+   * so the conversation context matches what was spoken before the interruption
+   */
+  truncateAudio(itemId: string, audioEndMs: number): void {
+    if (!this.isConnected || !this.ws) return;
+
+    const audioEndRounded = Math.max(0, Math.floor(audioEndMs));
+
+    this.send({
+      type: 'conversation.item.truncate',
+      item_id: itemId,
+      content_index: 0,
+      audio_end_ms: audioEndRounded
+    });
+
+    const generatedMs = this.generatedAudioMs.get(itemId) || 0;
+    const spokenFraction = generatedMs > 0 ? Math.min(1, audioEndRounded / generatedMs) : 0;
+    this.truncatedItems.set(itemId, spokenFraction);
+
+    this.log.info({
+      event: 'assistant_audio_truncated',
+      itemId,
+      audioEndMs: audioEndRounded,
+      generatedMs: Math.round(generatedMs)
+    });
+
+    if (this.emittedTranscripts.has(itemId)) {
+      this.options.onTranscriptTruncated?.(itemId, spokenFraction);
+    }
+  }
+
+  /**
+   * Add a supervisor note to the conversation without interrupting the caller -
+   * the model takes it into account on its next turn
+   */
+  injectNote(note: string): void {
+    if (!this.isConnected || !this.ws) return;
+
+    this.send({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'system',
+        content: [{
+          type: 'input_text',
+          text: `[SUPERVISOR NOTE - do not read aloud: ${note}]`
+        }]
+      }
+    });
+
+    this.log.info({ event: 'supervisor_note_injected' });
+  }
+
+  /**
+   * Switch an inbound call to another language mid-call (caller's first
+   * utterance was Spanish) - swaps the prompt and tool descriptions and tells
+   * the model to carry on in that language
+   */
+  switchLanguage(language: CallLanguage): void {
+    if (language === this.language || this.options.outbound) return;
+    this.language = language;
+
+    if (!this.isConnected || !this.ws) return;
+
+    this.send({
+      type: 'session.update',
+      session: {
+        instructions: buildInstructions(this.options, language),
+        tools: buildTools(this.options, language)
+      }
+    });
+
+    if (language === 'es') {
+      this.send({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: 'system',
+          content: [{
+            type: 'input_text',
+            text: SWITCH_TO_SPANISH_NOTE
+          }]
+        }
+      });
+    }
+
+    this.log.info({ event: 'language_switched', language });
+  }
+
   sendText(text: string): void {
     if (!this.isConnected || !this.ws) return;
 
@@ -387,6 +714,51 @@ export class OpenAIRealtimeClient {
     });
   }
 
+  /**
+   * Forward digits the caller typed on their keypad as structured input
+   * Treated like the caller speaking: any response in progress is interrupted
+   */
+  sendKeypadEntry(digits: string): void {
+    this.sendKeypadInstruction(buildKeypadEntryInstruction(digits));
+  }
+
+  /**
+   * Forward a mapped keypad shortcut (e.g. 0 = transfer, * = repeat)
+   */
+  sendKeypadAction(action: 'transfer' | 'repeat', key: string): void {
+    this.sendKeypadInstruction(buildKeypadActionInstruction(action, key));
+  }
+
+  private sendKeypadInstruction(text: string): void {
+    if (!this.isConnected || !this.ws) return;
+
+    this.clearSilenceTimeout();
+    this.resetSilenceCounter();
+
+    if (this.responseInProgress) {
+      this.cancelResponse();
+    }
+
+    this.send({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'user',
+        content: [{
+          type: 'input_text',
+          text
+        }]
+      }
+    });
+
+    this.send({
+      type: 'response.create',
+      response: {
+        modalities: ['text', 'audio']
+      }
+    });
+  }
+
   private send(event: RealtimeEvent): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(event));
@@ -437,14 +809,6 @@ export class OpenAIRealtimeClient {
     const timeoutUsed = this.silencePromptCount === 1 ? FIRST_SILENCE_TIMEOUT_MS : SILENCE_TIMEOUT_MS;
     this.log.info({ event: 'silence_timeout_triggered', prompt_count: this.silencePromptCount, timeout_ms: timeoutUsed });
 
-    // Send a gentle prompt to get the user to respond
-    const prompts = [
-      "Are you still there? Take your time, I'm listening.",
-      "Hello? I want to make sure we're still connected."
-    ];
-
-    const promptText = prompts[Math.min(this.silencePromptCount - 1, prompts.length - 1)];
-
     // Create a system message asking AI to re-prompt
     this.send({
       type: 'conversation.item.create',
@@ -453,7 +817,7 @@ export class OpenAIRealtimeClient {
         role: 'user',
         content: [{
           type: 'input_text',
-          text: `[SYSTEM: The caller has been quiet. Very gently check if they're still there. Say something natural like: "${promptText}" Then wait patiently for their response.]`
+          text: buildSilencePromptInstruction(this.silencePromptCount)
         }]
       }
     });
@@ -482,7 +846,51 @@ export class OpenAIRealtimeClient {
     this.log.info({ event: 'call_marked_ending', message: 'Silence prompts disabled for call conclusion' });
   }
 
+  /**
+   * Add a response's token usage. Cached input tokens are split out of the text /
+   * audio input counts so each is priced once.
+   */
+  private addUsage(usage?: ResponseUsage): void {
+    if (!usage) return;
+
+    const input = usage.input_token_details || {};
+    const output = usage.output_token_details || {};
+    const cached = input.cached_tokens || 0;
+    // Older sessions report only the cached total - treat it as text
+    const cachedAudio = input.cached_tokens_details?.audio_tokens || 0;
+    const cachedText = input.cached_tokens_details?.text_tokens ?? cached - cachedAudio;
+
+    this.usage.inputTextTokens += (input.text_tokens || 0) - cachedText;
+    this.usage.inputAudioTokens += (input.audio_tokens || 0) - cachedAudio;
+    this.usage.cachedInputTokens += cached;
+    this.usage.outputTextTokens += output.text_tokens || 0;
+    this.usage.outputAudioTokens += output.audio_tokens || 0;
+  }
+
+  /**
+   * Warn when a rate limit is nearly used up - further responses would be
+   * throttled mid-call
+   */
+  private checkRateLimits(limits: RateLimit[] = []): void {
+    for (const limit of limits) {
+      if (limit.limit > 0 && limit.remaining < limit.limit * RATE_LIMIT_WARNING_FRACTION) {
+        this.log.warn({
+          event: 'openai_rate_limit_low',
+          name: limit.name,
+          remaining: limit.remaining,
+          limit: limit.limit,
+          resetSeconds: limit.reset_seconds
+        });
+      }
+    }
+  }
+
+  getUsage() {
+    return { ...this.usage };
+  }
+
   close(): void {
+    this.closing = true;
     this.clearSilenceTimeout();
     if (this.ws) {
       this.ws.close();
@@ -0,0 +1,322 @@
+/**
+ * HALCYON AI RECEPTIONIST - OUTBOUND CALL SERVICE
+ *
+ * Places outbound AI calls and tracks what happened on each attempt:
+ * - Answering machine detection result (reached client vs. voicemail left)
+ * - Purpose-specific voicemail drop when a machine answers
+ * - Retry scheduling for no-answer / busy attempts
+ */
+
+import twilio from 'twilio';
+import { v4 as uuidv4 } from 'uuid';
+import type { OutboundOutcome } from '@prisma/client';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { db } from './database.js';
+import { parseConversationBackend, type ConversationBackendName } from './conversationBackend.js';
+
+const { VoiceResponse } = twilio.twiml;
+
+const log = createLogger('outbound-calls');
+
+// Initialize Twilio client
+const twilioClient = twilio(
+  config.twilio.accountSid,
+  config.twilio.authToken
+);
+
+const VOICE = 'Google.en-US-Neural2-F';
+
+// A retry that can't be placed (Twilio / network error) is tried again after
+// 5, 10, ... minutes, then given up
+const MAX_RETRY_PLACEMENT_FAILURES = 3;
+const RETRY_PLACEMENT_BACKOFF_MS = 5 * 60 * 1000;
+
+export interface OutboundCallParams {
+  to: string;
+  assessmentId?: string;
+  purpose?: string;
+  systemPrompt?: string;
+  additionalNotes?: string;
+  backend?: ConversationBackendName;  // Else CONVERSATION_BACKEND_BY_NUMBER / CONVERSATION_BACKEND
+  maxAttempts?: number;
+  attempt?: number;
+  previousCallId?: string;
+}
+
+export interface PlacedOutboundCall {
+  callId: string;
+  callSid: string;
+  status: string;
+}
+
+/**
+ * Voicemail scripts by call purpose - deliberately vague about the matter,
+ * since someone other than the client may hear the message
+ */
+const VOICEMAIL_SCRIPTS: Record<string, (firm: string) => string> = {
+  follow_up: firm => `Hello, this is the virtual assistant calling from ${firm} to follow up with you.`,
+  document_collection: firm => `Hello, this is the virtual assistant calling from ${firm}. We need a few documents from you to keep things moving.`,
+  appointment_reminder: firm => `Hello, this is the virtual assistant calling from ${firm} with a reminder about your upcoming appointment.`
+};
+
+export class OutboundCallService {
+  /**
+   * Place an outbound AI call via Twilio and record the attempt
+   */
+  async placeCall(params: OutboundCallParams): Promise<PlacedOutboundCall> {
+    const callId = `OUT_${Date.now()}_${uuidv4().slice(0, 8)}`;
+    const purpose = params.purpose || 'follow_up';
+
+    // Build the TwiML URL with parameters for the AI conversation
+    const twimlUrl = new URL('/api/outbound-twiml', config.server.publicUrl);
+    twimlUrl.searchParams.set('callId', callId);
+    twimlUrl.searchParams.set('purpose', purpose);
+    if (params.systemPrompt) {
+      twimlUrl.searchParams.set('systemPrompt', encodeURIComponent(params.systemPrompt));
+    }
+    if (params.additionalNotes) {
+      twimlUrl.searchParams.set('notes', encodeURIComponent(params.additionalNotes));
+    }
+    if (params.assessmentId) {
+      twimlUrl.searchParams.set('assessmentId', params.assessmentId);
+    }
+    if (params.backend) {
+      twimlUrl.searchParams.set('backend', params.backend);
+    }
+
+    // The callId lets a status callback that beats calls.create find this attempt
+    const statusUrl = new URL('/twilio/status', config.server.publicUrl);
+    statusUrl.searchParams.set('callId', callId);
+
+    // Record the attempt before placing it - Twilio's first status callbacks can arrive
+    // before calls.create returns
+    let recorded = false;
+    try {
+      await db.createOutboundCall({
+        callId,
+        toPhone: params.to,
+        purpose,
+        assessmentId: params.assessmentId,
+        systemPrompt: params.systemPrompt,
+        notes: params.additionalNotes,
+        backend: params.backend,
+        attempt: params.attempt || 1,
+        maxAttempts: params.maxAttempts || config.outbound.maxAttempts,
+        previousCallId: params.previousCallId,
+        status: 'queued'
+      });
+      recorded = true;
+    } catch (error) {
+      log.error({ event: 'outbound_call_record_failed', callId, error });
+    }
+
+    // Initiate the outbound call via Twilio
+    let call: Awaited<ReturnType<typeof twilioClient.calls.create>>;
+    try {
+      call = await twilioClient.calls.create({
+        to: params.to,
+        from: config.twilio.phoneNumber,
+        url: twimlUrl.toString(),
+        statusCallback: statusUrl.toString(),
+        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        statusCallbackMethod: 'POST',
+        // Wait for the voicemail beep so a dropped message isn't cut off
+        machineDetection: 'DetectMessageEnd',
+        machineDetectionTimeout: 30
+      });
+    } catch (error) {
+      if (recorded) {
+        await db.updateOutboundCall(callId, { status: 'failed', outcome: 'FAILED' })
+          .catch(err => log.error({ event: 'outbound_call_record_failed', callId, error: err }));
+      }
+      throw error;
+    }
+
+    try {
+      if (recorded) {
+        await db.updateOutboundCall(callId, { callSid: call.sid });
+      }
+      // Upsert - a status callback may have created the Call already
+      await db.createCall({
+        callSid: call.sid,
+        callId,
+        direction: 'OUTBOUND',
+        fromPhone: config.twilio.phoneNumber,
+        toPhone: params.to,
+        status: call.status
+      });
+    } catch (error) {
+      log.error({ event: 'outbound_call_record_failed', callId, error });
+    }
+
+    log.info({
+      event: 'outbound_call_placed',
+      callId,
+      callSid: call.sid,
+      purpose,
+      attempt: params.attempt || 1
+    });
+
+    return { callId, callSid: call.sid, status: call.status };
+  }
+
+  /**
+   * Record the AMD result when Twilio fetches the outbound TwiML
+   * @returns The outcome - VOICEMAIL_LEFT means a voicemail should be dropped
+   */
+  async recordAnswer(callId: string, answeredBy?: string): Promise<OutboundOutcome> {
+    const outcome = this.mapAnsweredBy(answeredBy);
+
+    log.info({ event: 'outbound_call_answered', callId, answeredBy, outcome });
+
+    try {
+      await db.updateOutboundCall(callId, {
+        answeredBy: answeredBy || null,
+        outcome,
+        status: 'in-progress'
+      });
+    } catch (error) {
+      log.error({ event: 'outbound_answer_record_failed', callId, error });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * TwiML for leaving a scripted voicemail, then hanging up
+   */
+  buildVoicemailTwiml(purpose: string): string {
+    const response = new VoiceResponse();
+    const script = (VOICEMAIL_SCRIPTS[purpose] || VOICEMAIL_SCRIPTS.follow_up)(config.firm.name);
+    const callbackNumber = this.speakPhoneNumber(config.firm.phone || config.twilio.phoneNumber);
+
+    response.pause({ length: 1 });
+    response.say(
+      { voice: VOICE },
+      `${script} Please call us back at ${callbackNumber}. Again, that number is ${callbackNumber}. Thank you, and have a good day.`
+    );
+    response.hangup();
+
+    return response.toString();
+  }
+
+  /**
+   * Handle a Twilio status callback for an outbound call
+   * Schedules a retry when the attempt was not answered
+   */
+  async handleStatusCallback(callSid: string, callStatus: string, callId?: string): Promise<void> {
+    // By callId when the status URL carries it - the CallSid isn't stored until calls.create returns
+    const call = callId ? await db.getOutboundCall(callId) : await db.getOutboundCallBySid(callSid);
+    if (!call) return;
+
+    const data: Parameters<typeof db.updateOutboundCall>[1] = { status: callStatus };
+
+    const unanswered: Record<string, OutboundOutcome> = {
+      'no-answer': 'NO_ANSWER',
+      'busy': 'BUSY',
+      'failed': 'FAILED',
+      'canceled': 'CANCELLED'
+    };
+
+    if (unanswered[callStatus] && call.outcome === 'PENDING') {
+      data.outcome = unanswered[callStatus];
+
+      const retryable = callStatus === 'no-answer' || callStatus === 'busy';
+      if (retryable && call.attempt < call.maxAttempts) {
+        data.retryAt = new Date(Date.now() + config.outbound.retryDelayMinutes * 60 * 1000);
+      }
+    }
+
+    await db.updateOutboundCall(call.callId, data);
+
+    log.info({
+      event: 'outbound_call_status',
+      callId: call.callId,
+      callStatus,
+      outcome: data.outcome || call.outcome,
+      retryAt: data.retryAt
+    });
+  }
+
+  /**
+   * Schedule (or reschedule) a retry of an outbound attempt
+   */
+  async scheduleRetry(callId: string, retryAt: Date) {
+    return db.updateOutboundCall(callId, { retryAt, retryPlaced: false, retryFailures: 0 });
+  }
+
+  /**
+   * Place any retries that are due (run periodically by the scheduler)
+   */
+  async processDueRetries(): Promise<number> {
+    const due = await db.listDueOutboundRetries();
+
+    for (const call of due) {
+      try {
+        // Mark first so a slow Twilio request can't cause a double dial
+        await db.updateOutboundCall(call.callId, { retryPlaced: true });
+
+        const placed = await this.placeCall({
+          to: call.toPhone,
+          purpose: call.purpose,
+          assessmentId: call.assessmentId || undefined,
+          systemPrompt: call.systemPrompt || undefined,
+          additionalNotes: call.notes || undefined,
+          backend: parseConversationBackend(call.backend) || undefined,
+          maxAttempts: call.maxAttempts,
+          attempt: call.attempt + 1,
+          previousCallId: call.callId
+        });
+
+        log.info({
+          event: 'outbound_retry_placed',
+          previousCallId: call.callId,
+          callId: placed.callId,
+          attempt: call.attempt + 1
+        });
+      } catch (error) {
+        const failures = call.retryFailures + 1;
+        log.error({ event: 'outbound_retry_failed', callId: call.callId, failures, error });
+
+        // Release the retry so the next run tries again, unless it keeps failing
+        if (failures < MAX_RETRY_PLACEMENT_FAILURES) {
+          await db.updateOutboundCall(call.callId, {
+            retryPlaced: false,
+            retryFailures: failures,
+            retryAt: new Date(Date.now() + failures * RETRY_PLACEMENT_BACKOFF_MS)
+          }).catch(updateError => log.error({ event: 'outbound_retry_release_failed', callId: call.callId, error: updateError }));
+        } else {
+          log.warn({ event: 'outbound_retry_abandoned', callId: call.callId, failures });
+          await db.updateOutboundCall(call.callId, { retryFailures: failures })
+            .catch(updateError => log.error({ event: 'outbound_retry_release_failed', callId: call.callId, error: updateError }));
+        }
+      }
+    }
+
+    return due.length;
+  }
+
+  private mapAnsweredBy(answeredBy?: string): OutboundOutcome {
+    if (!answeredBy) return 'REACHED_CLIENT'; // AMD disabled - assume a person
+    if (answeredBy.startsWith('machine')) return 'VOICEMAIL_LEFT';
+    if (answeredBy === 'fax') return 'FAX_DETECTED';
+    return 'REACHED_CLIENT'; // human or unknown - let the AI handle it
+  }
+
+  /**
+   * "+15551234567" -> "5 5 5, 1 2 3, 4 5 6 7" so TTS reads digits clearly
+   */
+  private speakPhoneNumber(phone: string): string {
+    const digits = phone.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+    if (digits.length !== 10) {
+      return digits.split('').join(' ');
+    }
+    return [digits.slice(0, 3), digits.slice(3, 6), digits.slice(6)]
+      .map(group => group.split('').join(' '))
+      .join(', ');
+  }
+}
+
+// Export singleton instance
+export const outboundCallService = new OutboundCallService();
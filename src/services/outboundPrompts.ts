@@ -0,0 +1,123 @@
+/**
+ * HALCYON AI RECEPTIONIST - OUTBOUND CALL PROMPTS
+ *
+ * Instructions, opening line and tool set for calls we place to clients,
+ * built from the call purpose, the dashboard-supplied prompt and notes
+ */
+
+import { config } from '../config/index.js';
+import { INTAKE_TOOLS } from './intakePrompts.js';
+
+export type OutboundPurpose = 'follow_up' | 'document_collection' | 'appointment_reminder';
+
+export interface OutboundCallContext {
+  purpose: string;
+  systemPrompt?: string;   // Custom instructions from the dashboard / Skinny App
+  notes?: string;          // Staff notes about this client or call
+  assessmentId?: string;   // Linked Skinny App assessment
+}
+
+interface PurposeScript {
+  goal: string;
+  steps: string[];
+  opening: string;
+  tools: string[];
+}
+
+// Tools every outbound call needs regardless of purpose
+const COMMON_TOOLS = ['request_human_transfer', 'record_callback_request', 'flag_urgent', 'end_call'];
+
+const PURPOSE_SCRIPTS: Record<OutboundPurpose, PurposeScript> = {
+  follow_up: {
+    goal: 'Check in with the client about their disability claim and update their information.',
+    steps: [
+      'Ask how they have been doing since they last spoke with the firm',
+      'Ask about any new medical treatment, doctors, hospital visits or medications, and record them',
+      'Ask whether they have received any letters or decisions from Social Security, and record their application status',
+      'Ask if they have any questions for their legal team - take a callback request for anything you cannot answer'
+    ],
+    opening: 'introduce yourself, say you are calling from the firm to check in on their disability claim, and ask if now is a good time for a few quick questions',
+    tools: ['record_medical_conditions', 'record_medications', 'record_application_status']
+  },
+  document_collection: {
+    goal: 'Let the client know which documents the firm still needs and how to send them.',
+    steps: [
+      'Explain which documents are still needed (see the notes below)',
+      'Ask whether they have the documents or need help getting them',
+      'Explain they can mail, email, fax or drop them off at the office, and offer a callback from staff if they need help',
+      'Confirm when they expect to send the documents'
+    ],
+    opening: 'introduce yourself, say you are calling from the firm about a few documents needed for their case, and ask if now is a good time',
+    tools: []
+  },
+  appointment_reminder: {
+    goal: 'Remind the client about their upcoming appointment and confirm they can attend.',
+    steps: [
+      'Remind them of the appointment details in the notes below (date, time, location or phone)',
+      'Ask them to confirm they can attend',
+      'If they need to reschedule, take a callback request so staff can find a new time'
+    ],
+    opening: 'introduce yourself, say you are calling from the firm with a reminder about their upcoming appointment, and ask if now is a good time',
+    tools: []
+  }
+};
+
+function getPurposeScript(purpose: string): PurposeScript {
+  return PURPOSE_SCRIPTS[purpose as OutboundPurpose] || PURPOSE_SCRIPTS.follow_up;
+}
+
+/**
+ * Full system instructions for an outbound call
+ */
+export function buildOutboundInstructions(context: OutboundCallContext): string {
+  const script = getPurposeScript(context.purpose);
+
+  const sections = [
+    `You are Halcyon, the virtual assistant for ${config.firm.name}, a Social Security Disability law firm. You are making an OUTBOUND call to an existing client - they did not call you.
+
+## GOAL
+${script.goal}
+
+## CALL FLOW
+1. The client just answered. Briefly introduce yourself and the firm, state that this call may be recorded for quality purposes, and explain why you are calling. NEVER ask "how can I help you" - you called them.
+2. Before sharing any case details, confirm you are speaking with the client (ask them to confirm their name). If someone else answered, ask when is a good time to reach the client and do NOT discuss the case.
+${script.steps.map((step, i) => `${i + 3}. ${step}`).join('\n')}
+${script.steps.length + 3}. Thank them and call end_call.
+
+## RULES
+- Be warm, brief and respectful of their time - if it's a bad time, offer to have someone call back and use record_callback_request
+- Never provide legal advice or promise outcomes - say their attorney will address legal questions
+- If they want to speak with a person, call request_human_transfer and follow its instruction
+- If they mention crisis or suicide, immediately provide the 988 hotline and ask if they are safe`
+  ];
+
+  if (context.notes) {
+    sections.push(`## NOTES FROM STAFF\n${context.notes}`);
+  }
+
+  if (context.systemPrompt) {
+    sections.push(`## ADDITIONAL INSTRUCTIONS FOR THIS CALL\n${context.systemPrompt}`);
+  }
+
+  if (context.assessmentId) {
+    sections.push(`## REFERENCE\nThis call is linked to assessment ${context.assessmentId}. Include it in any callback notes but do not read it to the client.`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Kick-off message that makes the AI open the call for its purpose
+ */
+export function buildOutboundGreeting(context: OutboundCallContext): string {
+  const script = getPurposeScript(context.purpose);
+  return `[SYSTEM: Outbound call connected. The client just answered and heard "Hello, one moment please." Now ${script.opening}. Do NOT say hello again and do NOT ask how you can help them.]`;
+}
+
+/**
+ * Tools available on an outbound call - the intake interview tools are left out
+ */
+export function getOutboundTools(purpose: string): typeof INTAKE_TOOLS {
+  const names = new Set([...getPurposeScript(purpose).tools, ...COMMON_TOOLS]);
+  return INTAKE_TOOLS.filter(tool => names.has(tool.name));
+}
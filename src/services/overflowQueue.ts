@@ -0,0 +1,249 @@
+/**
+ * HALCYON AI RECEPTIONIST - OVERFLOW QUEUE
+ *
+ * Caps simultaneous realtime sessions at MAX_CONCURRENT_SESSIONS. Callers over
+ * the limit wait in a Twilio <Enqueue> queue (hold music, position
+ * announcements) or take a callback, which is saved as a CallbackRequest.
+ * When a session ends, the longest-waiting caller is redirected to the AI.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { db } from './database.js';
+import { emailService } from './emailService.js';
+import { activeCalls } from './activeCalls.js';
+import { redirectCallToUrl } from './twilioService.js';
+import type { CallLanguage, LanguageSource } from './language.js';
+
+const log = createLogger('overflow-queue');
+
+// A connect handed out in TwiML holds its slot until the media stream registers
+const RESERVATION_TTL_MS = 30 * 1000;
+// Finished waits kept for the dashboard's average wait
+const WAIT_HISTORY_MS = 60 * 60 * 1000;
+
+// Twilio queue the overflow callers wait in
+export const OVERFLOW_QUEUE_NAME = 'halcyon-overflow';
+
+export type QueueExit = 'connected' | 'callback' | 'abandoned';
+
+export interface QueuedCall {
+  callId: string;
+  callSid: string;
+  callerPhone: string;
+  language: CallLanguage;
+  languageSource: LanguageSource;
+  enqueuedAt: Date;
+}
+
+export interface OverflowStats {
+  activeSessions: number;
+  maxSessions: number;
+  queueDepth: number;
+  longestWaitSeconds: number;
+  averageWaitSeconds: number | null;  // Callers who left the queue in the last hour
+  lastHour: Record<QueueExit, number>;
+}
+
+export class OverflowQueueService {
+  private reservations = new Map<string, number>();  // callId -> expiry
+  private queue = new Map<string, QueuedCall>();     // insertion order = arrival order
+  private waits: Array<{ seconds: number; exit: QueueExit; at: number }> = [];
+  private connecting = false;
+
+  constructor() {
+    activeCalls.onCallEnded(() => {
+      this.connectNext().catch(error => log.error({ event: 'queue_connect_failed', error }));
+    });
+  }
+
+  /**
+   * Sessions in use: live media streams plus connects not yet registered
+   */
+  get activeSessions(): number {
+    const now = Date.now();
+    let pending = 0;
+    for (const [callId, expiresAt] of this.reservations) {
+      if (expiresAt <= now || activeCalls.get(callId)) {
+        this.reservations.delete(callId);
+      } else {
+        pending++;
+      }
+    }
+    return activeCalls.size + pending;
+  }
+
+  private hasFreeSession(): boolean {
+    const max = config.concurrency.maxSessions;
+    return max <= 0 || this.activeSessions < max;
+  }
+
+  /**
+   * Claim a session for a new caller - fails if we're at the limit or others are already waiting.
+   * A caller still holding an unexpired reservation (back from the live-staff menu) keeps it.
+   */
+  tryReserve(callId: string): boolean {
+    const held = this.reservations.get(callId);
+    if (held !== undefined && held > Date.now()) {
+      this.reservations.set(callId, Date.now() + RESERVATION_TTL_MS);
+      return true;
+    }
+
+    if (this.queue.size > 0 || !this.hasFreeSession()) {
+      return false;
+    }
+    this.reservations.set(callId, Date.now() + RESERVATION_TTL_MS);
+    return true;
+  }
+
+  enqueue(call: Omit<QueuedCall, 'enqueuedAt'>): void {
+    if (this.queue.has(call.callId)) return;
+
+    this.queue.set(call.callId, { ...call, enqueuedAt: new Date() });
+    log.info({ event: 'call_enqueued', callId: call.callId, queueDepth: this.queue.size, activeSessions: this.activeSessions });
+
+    db.recordCallEvent(call.callSid, 'overflow_queued')
+      .catch(error => log.error({ event: 'call_event_failed', callSid: call.callSid, error }));
+  }
+
+  getQueuedCall(callId: string): QueuedCall | null {
+    return this.queue.get(callId) || null;
+  }
+
+  /**
+   * Take a caller out of the queue and record how long they waited
+   */
+  leave(callId: string, exit: QueueExit): QueuedCall | null {
+    const call = this.queue.get(callId);
+    if (!call) return null;
+
+    this.queue.delete(callId);
+    const seconds = Math.round((Date.now() - call.enqueuedAt.getTime()) / 1000);
+    this.waits.push({ seconds, exit, at: Date.now() });
+    log.info({ event: 'call_left_queue', callId, exit, waitedSeconds: seconds, queueDepth: this.queue.size });
+
+    db.recordCallEvent(call.callSid, `overflow_${exit}`)
+      .catch(error => log.error({ event: 'call_event_failed', callSid: call.callSid, error }));
+
+    return call;
+  }
+
+  /**
+   * Caller hung up - drop them from the queue if they were in it
+   */
+  handleCallEnded(callSid: string): void {
+    for (const call of this.queue.values()) {
+      if (call.callSid === callSid) {
+        this.leave(call.callId, 'abandoned');
+        return;
+      }
+    }
+  }
+
+  /**
+   * Move the longest-waiting callers to the AI while sessions are free
+   */
+  async connectNext(): Promise<void> {
+    // One pass at a time - a reservation only counts once it's made
+    if (this.connecting) return;
+    this.connecting = true;
+
+    try {
+      while (this.queue.size > 0 && this.hasFreeSession() && !activeCalls.isDraining) {
+        const next = this.queue.values().next().value as QueuedCall;
+        this.reservations.set(next.callId, Date.now() + RESERVATION_TTL_MS);
+        this.leave(next.callId, 'connected');
+
+        const connectUrl = new URL('/twilio/queue-connect', config.server.publicUrl);
+        connectUrl.searchParams.set('callId', next.callId);
+        connectUrl.searchParams.set('language', next.language);
+        connectUrl.searchParams.set('languageSource', next.languageSource);
+
+        const redirected = await redirectCallToUrl(next.callSid, connectUrl.toString());
+        if (!redirected) {
+          // Caller most likely hung up while we were connecting - free the slot
+          this.reservations.delete(next.callId);
+        }
+      }
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  /**
+   * Save a callback request for a caller who chose not to (or could no longer) wait
+   */
+  async requestCallback(params: {
+    callId: string;
+    callerPhone: string;
+    language: CallLanguage;
+    reason: 'caller_choice' | 'wait_timeout' | 'draining' | 'no_queue';
+  }): Promise<void> {
+    const queued = this.leave(params.callId, 'callback');
+    const waited = queued ? Math.round((Date.now() - queued.enqueuedAt.getTime()) / 1000) : 0;
+
+    const purpose = 'Callback requested - all intake lines were busy when they called';
+    const notes = {
+      caller_choice: `Caller pressed 1 for a callback after waiting ${waited}s.`,
+      wait_timeout: `Caller waited ${waited}s in the overflow queue without reaching the AI.`,
+      draining: 'Server restarted while the caller was on hold.',
+      no_queue: 'All intake lines were busy and the caller\'s line (SIP gateway) has no hold queue.'
+    }[params.reason];
+
+    try {
+      const messageId = await db.saveCallbackRequest({
+        callId: params.callId,
+        callerPhone: params.callerPhone,
+        purpose,
+        category: 'GENERAL',
+        priority: 'HIGH',
+        notes,
+        language: params.language
+      });
+
+      const sent = await emailService.sendMessageNotification({
+        id: messageId,
+        callerPhone: params.callerPhone,
+        purpose,
+        category: 'GENERAL',
+        priority: 'HIGH',
+        notes,
+        language: params.language,
+        createdAt: new Date()
+      });
+      if (sent) {
+        await db.recordCallMessage(params.callId, 'email');
+      }
+
+      log.info({ event: 'overflow_callback_saved', callId: params.callId, messageId, reason: params.reason });
+    } catch (error) {
+      log.error({ event: 'overflow_callback_failed', callId: params.callId, error });
+    }
+  }
+
+  /**
+   * Queue depth and wait times for the dashboard
+   */
+  getStats(): OverflowStats {
+    const now = Date.now();
+    this.waits = this.waits.filter(wait => now - wait.at <= WAIT_HISTORY_MS);
+
+    const oldest = this.queue.values().next().value as QueuedCall | undefined;
+    const lastHour: Record<QueueExit, number> = { connected: 0, callback: 0, abandoned: 0 };
+    this.waits.forEach(wait => { lastHour[wait.exit]++; });
+
+    return {
+      activeSessions: this.activeSessions,
+      maxSessions: config.concurrency.maxSessions,
+      queueDepth: this.queue.size,
+      longestWaitSeconds: oldest ? Math.round((now - oldest.enqueuedAt.getTime()) / 1000) : 0,
+      averageWaitSeconds: this.waits.length > 0
+        ? Math.round(this.waits.reduce((sum, wait) => sum + wait.seconds, 0) / this.waits.length)
+        : null,
+      lastHour
+    };
+  }
+}
+
+// Export singleton instance
+export const overflowQueue = new OverflowQueueService();
@@ -0,0 +1,302 @@
+/**
+ * HALCYON AI RECEPTIONIST - RETURNING CALLERS
+ *
+ * Recognizes callers who have contacted the firm before (by caller ID) and
+ * gives the AI a short context block about them:
+ * - Before verification: only the first name on file, so the AI can ask who it's speaking with
+ * - After verify_returning_caller matches their date of birth, reference number or name:
+ *   reference number, status, last contact and which intake sections are already on file
+ * - If their last intake call dropped recently, an offer to resume it (resume_intake)
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { db } from './database.js';
+
+const log = createLogger('returning-callers');
+
+// Lookups started by /twilio/voice are picked up when the media stream connects
+const PREFETCH_TTL_MS = 2 * 60 * 1000;
+
+export const MAX_VERIFICATION_ATTEMPTS = 2;
+
+type PriorIntake = NonNullable<NonNullable<Awaited<ReturnType<typeof db.getCallerHistory>>>['intake']>;
+
+export interface ReturningCaller {
+  firstName?: string;
+  lastName?: string;
+  dateOfBirth?: string;       // YYYY-MM-DD
+  referenceNumber?: string;   // intakeId of the most recent intake
+  intakeStatus?: string;
+  isClient: boolean;
+  lastContactAt: Date;
+  lastContactType: 'intake' | 'callback_request';
+  openCallback?: {
+    purpose: string;
+    category: string;
+    status: string;
+    requestedAt: Date;
+  };
+  sectionsOnFile: string[];
+  priorContacts: number;
+  // Latest intake call ended before the AI wrapped up, within the resume window
+  resumableIntake?: {
+    referenceNumber: string;
+    droppedAt: Date;
+  };
+}
+
+export interface VerificationAnswer {
+  date_of_birth?: string;
+  reference_number?: string;
+  full_name?: string;
+}
+
+// How the AI may describe each intake status to a verified caller
+const INTAKE_STATUS_DESCRIPTIONS: Record<string, string> = {
+  NEW: 'received and waiting for review by our team',
+  PENDING_REVIEW: 'being reviewed by our team',
+  REVIEWED: 'reviewed - a team member will follow up about next steps',
+  ACCEPTED: 'accepted - they are a client of the firm',
+  CONVERTED: 'accepted - they are a client of the firm',
+  DECLINED: 'reviewed - a team member can discuss the outcome with them',
+  ARCHIVED: 'closed'
+};
+
+const CLIENT_STATUSES = ['ACCEPTED', 'CONVERTED'];
+
+export class ReturningCallerService {
+  private prefetched = new Map<string, Promise<ReturningCaller | null>>();
+
+  /**
+   * Find prior intakes / callback requests for a calling number
+   */
+  async lookup(callerPhone: string): Promise<ReturningCaller | null> {
+    if (!callerPhone || callerPhone === 'unknown' || !/\d{7,}/.test(callerPhone.replace(/\D/g, ''))) {
+      return null;
+    }
+
+    try {
+      const history = await db.getCallerHistory(callerPhone);
+      if (!history) return null;
+
+      const { intake, callbackRequest } = history;
+      const latestIsIntake = !!intake && (!callbackRequest || intake.createdAt >= callbackRequest.createdAt);
+      const [callbackFirst, ...callbackRest] = (callbackRequest?.callerName || '').trim().split(/\s+/);
+
+      const caller: ReturningCaller = {
+        firstName: intake?.firstName || callbackFirst || undefined,
+        lastName: intake?.lastName || callbackRest.join(' ') || undefined,
+        dateOfBirth: intake?.dateOfBirth?.toISOString().slice(0, 10),
+        referenceNumber: intake?.intakeId,
+        intakeStatus: intake?.status,
+        isClient: !!intake && CLIENT_STATUSES.includes(intake.status),
+        lastContactAt: latestIsIntake ? intake!.createdAt : callbackRequest!.createdAt,
+        lastContactType: latestIsIntake ? 'intake' : 'callback_request',
+        openCallback: callbackRequest && ['PENDING', 'SCHEDULED'].includes(callbackRequest.status)
+          ? {
+              purpose: callbackRequest.purpose,
+              category: callbackRequest.category,
+              status: callbackRequest.status,
+              requestedAt: callbackRequest.createdAt
+            }
+          : undefined,
+        sectionsOnFile: intake ? this.getSectionsOnFile(intake) : [],
+        priorContacts: history.intakeCount + history.callbackCount,
+        resumableIntake: intake && this.isResumable(intake)
+          ? { referenceNumber: intake.intakeId, droppedAt: intake.updatedAt }
+          : undefined
+      };
+
+      log.info({
+        event: 'returning_caller_found',
+        priorContacts: caller.priorContacts,
+        lastContactType: caller.lastContactType,
+        isClient: caller.isClient,
+        resumable: !!caller.resumableIntake
+      });
+
+      return caller;
+    } catch (error) {
+      log.error({ event: 'returning_caller_lookup_failed', error });
+      return null;
+    }
+  }
+
+  /**
+   * Start the lookup while Twilio is still playing the greeting
+   */
+  prefetch(callId: string, callerPhone: string): Promise<ReturningCaller | null> {
+    const lookup = this.lookup(callerPhone);
+    this.prefetched.set(callId, lookup);
+    setTimeout(() => this.prefetched.delete(callId), PREFETCH_TTL_MS).unref();
+    return lookup;
+  }
+
+  /**
+   * Prefetched result for a call, or a fresh lookup if there is none
+   */
+  async get(callId: string, callerPhone: string): Promise<ReturningCaller | null> {
+    const prefetched = this.prefetched.get(callId);
+    this.prefetched.delete(callId);
+    return prefetched ?? this.lookup(callerPhone);
+  }
+
+  /**
+   * Check the caller's answer against the record on file
+   */
+  verify(caller: ReturningCaller, answer: VerificationAnswer): boolean {
+    if (answer.date_of_birth && caller.dateOfBirth) {
+      return answer.date_of_birth.trim() === caller.dateOfBirth;
+    }
+
+    if (answer.reference_number && caller.referenceNumber) {
+      const normalize = (value: string) => value.replace(/[^a-z0-9]/gi, '').toLowerCase();
+      return normalize(answer.reference_number) === normalize(caller.referenceNumber);
+    }
+
+    // Callback-only records have no date of birth - fall back to the full name
+    if (answer.full_name && !caller.dateOfBirth && caller.firstName && caller.lastName) {
+      const normalize = (value: string) => value.toLowerCase().replace(/[^a-z ]/g, '').split(/\s+/).filter(Boolean).join(' ');
+      return normalize(answer.full_name) === normalize(`${caller.firstName} ${caller.lastName}`);
+    }
+
+    return false;
+  }
+
+  /**
+   * Tool result for a verified caller - everything the AI may now share and how to route them
+   */
+  buildVerifiedContext(caller: ReturningCaller): object {
+    let instruction: string;
+    if (caller.resumableIntake) {
+      instruction = `Identity verified. Their intake call with us was cut off ${describeAgo(caller.resumableIntake.droppedAt)}. Welcome them back by name and ask if they would like to pick up where you left off. If yes, call resume_intake. If they would rather start over, continue the intake from the beginning.`;
+    } else if (caller.isClient) {
+      instruction = 'Identity verified. They are an existing client - welcome them back by name and ask how you can help. Do not run the intake interview. For questions about their case, take a callback request (category EXISTING_CLIENT or CASE_STATUS) or offer a transfer if they want to speak with someone now.';
+    } else if (caller.referenceNumber) {
+      instruction = 'Identity verified. Welcome them back by name. You may share their reference number and intake status. If they want to continue or update their intake, the sections listed in sections_on_file were answered before - briefly confirm those details instead of asking every question again, and record the confirmed values. Ask only the remaining sections in full.';
+    } else {
+      instruction = caller.openCallback
+        ? 'Identity verified. Welcome them back by name. If they are following up on their earlier callback request, let them know it is still open and a team member will call them back; take a new callback request if anything has changed.'
+        : 'Identity verified. Welcome them back by name and ask how you can help today.';
+    }
+
+    return {
+      verified: true,
+      caller: {
+        name: [caller.firstName, caller.lastName].filter(Boolean).join(' ') || undefined,
+        reference_number: caller.referenceNumber,
+        intake_status: caller.intakeStatus ? INTAKE_STATUS_DESCRIPTIONS[caller.intakeStatus] : undefined,
+        existing_client: caller.isClient,
+        last_contact: caller.lastContactAt.toDateString(),
+        open_callback_request: caller.openCallback
+          ? `${caller.openCallback.purpose} (requested ${caller.openCallback.requestedAt.toDateString()}, ${caller.openCallback.status.toLowerCase()})`
+          : undefined,
+        sections_on_file: caller.sectionsOnFile
+      },
+      instruction
+    };
+  }
+
+  private isResumable(intake: PriorIntake): boolean {
+    const windowMs = config.intakeResume.windowMinutes * 60 * 1000;
+    return intake.outcome === 'in_progress' && Date.now() - intake.updatedAt.getTime() <= windowMs;
+  }
+
+  private getSectionsOnFile(intake: PriorIntake): string[] {
+    const sections: string[] = [];
+    const hasItems = (value: unknown) => Array.isArray(value) && value.length > 0;
+
+    if (intake.firstName || intake.dateOfBirth) sections.push('demographics');
+    if (intake.educationLevel) sections.push('education');
+    if (hasItems(intake.conditions)) sections.push('medical_conditions');
+    if (hasItems(intake.medications)) sections.push('medications');
+    if (hasItems(intake.workHistory)) sections.push('work_history');
+    if (intake.applicationStatus) sections.push('application_status');
+
+    return sections;
+  }
+}
+
+/**
+ * "12 minutes ago" - how long since a dropped call, for the AI to say naturally
+ */
+function describeAgo(date: Date): string {
+  const minutes = Math.max(1, Math.round((Date.now() - date.getTime()) / 60000));
+  return minutes < 60 ? `${minutes} minute${minutes === 1 ? '' : 's'} ago` : 'earlier today';
+}
+
+/**
+ * Instructions appended to the intake prompt when the calling number is recognized
+ * Deliberately contains nothing from the prior record except the first name
+ */
+export function buildReturningCallerInstructions(caller: ReturningCaller): string {
+  const nameLine = caller.firstName
+    ? `The record on file is for someone named ${caller.firstName}.`
+    : 'The record on file does not include a name.';
+  const verifyWith = caller.dateOfBirth
+    ? 'their date of birth (or the reference number from their text message)'
+    : 'their full name';
+
+  const droppedLine = caller.resumableIntake
+    ? `\nTheir last intake call was cut off ${describeAgo(caller.resumableIntake.droppedAt)} before it was finished. Once they are verified you can offer to pick up where you left off.`
+    : '';
+
+  return `
+
+## RETURNING CALLER
+This phone number has contacted the firm before (${caller.priorContacts} prior ${caller.priorContacts === 1 ? 'contact' : 'contacts'}). ${nameLine}${droppedLine}
+- ${caller.firstName ? `After introducing yourself, ask if you are speaking with ${caller.firstName}.` : 'Ask for their name as usual.'} If it is someone else, treat them as a new caller and never mention the record
+- Do NOT share anything from the prior record (reference number, status, dates, medical or work details) until their identity is verified
+- To verify, ask for ${verifyWith} and call verify_returning_caller. After ${MAX_VERIFICATION_ATTEMPTS} failed attempts, continue as a new caller without the prior details
+- Once verified, follow the instruction in the tool result`;
+}
+
+/**
+ * Extra line for the opening prompt so the greeting uses the name on file
+ */
+export function buildReturningCallerGreetingHint(caller: ReturningCaller): string {
+  if (caller.resumableIntake) {
+    return ` This caller was just disconnected from us - say it sounds like you got cut off${caller.firstName ? `, ask if you are speaking with ${caller.firstName}` : ''}, and explain you can pick up where you left off once you confirm who you are speaking with.`;
+  }
+
+  return caller.firstName
+    ? ` This number has called before - after introducing yourself, ask if you are speaking with ${caller.firstName}.`
+    : '';
+}
+
+export const VERIFY_RETURNING_CALLER_TOOL = {
+  type: 'function',
+  name: 'verify_returning_caller',
+  description: 'Verify a returning caller\'s identity before sharing anything from their prior record. Provide whichever detail the caller gave.',
+  parameters: {
+    type: 'object',
+    properties: {
+      date_of_birth: {
+        type: 'string',
+        description: 'Date of birth the caller gave, in YYYY-MM-DD format'
+      },
+      reference_number: {
+        type: 'string',
+        description: 'Reference number from a previous call, exactly as the caller read it'
+      },
+      full_name: {
+        type: 'string',
+        description: 'Caller\'s first and last name'
+      }
+    }
+  }
+};
+
+export const RESUME_INTAKE_TOOL = {
+  type: 'function',
+  name: 'resume_intake',
+  description: 'Continue the verified caller\'s interrupted intake from where their dropped call left off. Only call after verify_returning_caller succeeded and the caller agreed to pick up where they left off.',
+  parameters: {
+    type: 'object',
+    properties: {}
+  }
+};
+
+// Export singleton instance
+export const returningCallers = new ReturningCallerService();
@@ -8,9 +8,16 @@ import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { emailService } from './emailService.js';
 import { db } from './database.js';
+import { outboundCallService } from './outboundCalls.js';
+import { intakeRecovery } from './intakeRecovery.js';
+
+const OUTBOUND_RETRY_INTERVAL_MS = 60 * 1000;
+const INTAKE_RECOVERY_INTERVAL_MS = 5 * 60 * 1000;
 
 class Scheduler {
   private dailyDigestTimer: NodeJS.Timeout | null = null;
+  private outboundRetryTimer: NodeJS.Timeout | null = null;
+  private intakeRecoveryTimer: NodeJS.Timeout | null = null;
 
   /**
    * Start the scheduler
@@ -23,6 +30,16 @@ class Scheduler {
         dailyDigestHour: config.email.dailyDigestHour
       });
     }
+
+    this.outboundRetryTimer = setInterval(() => {
+      this.runOutboundRetries();
+    }, OUTBOUND_RETRY_INTERVAL_MS);
+
+    // Recover intakes orphaned by the last shutdown/crash now, then keep sweeping
+    this.runIntakeRecovery();
+    this.intakeRecoveryTimer = setInterval(() => {
+      this.runIntakeRecovery();
+    }, INTAKE_RECOVERY_INTERVAL_MS);
   }
 
   /**
@@ -34,6 +51,44 @@ class Scheduler {
       this.dailyDigestTimer = null;
       logger.info({ event: 'scheduler_stopped' });
     }
+
+    if (this.outboundRetryTimer) {
+      clearInterval(this.outboundRetryTimer);
+      this.outboundRetryTimer = null;
+    }
+
+    if (this.intakeRecoveryTimer) {
+      clearInterval(this.intakeRecoveryTimer);
+      this.intakeRecoveryTimer = null;
+    }
+  }
+
+  /**
+   * Place outbound retries that have come due
+   */
+  async runOutboundRetries(): Promise<void> {
+    try {
+      const placed = await outboundCallService.processDueRetries();
+      if (placed > 0) {
+        logger.info({ event: 'outbound_retries_processed', count: placed });
+      }
+    } catch (error) {
+      logger.error({ event: 'outbound_retries_failed', error });
+    }
+  }
+
+  /**
+   * Save orphaned intake drafts as partial intakes
+   */
+  async runIntakeRecovery(): Promise<void> {
+    try {
+      const recovered = await intakeRecovery.recoverOrphanedDrafts();
+      if (recovered > 0) {
+        logger.info({ event: 'intake_drafts_recovered', count: recovered });
+      }
+    } catch (error) {
+      logger.error({ event: 'intake_recovery_failed', error });
+    }
   }
 
   /**
@@ -84,6 +139,9 @@ class Scheduler {
       // Fetch stats
       const stats = await db.getDashboardStats(yesterday, today);
 
+      // Recompute yesterday's cost - call durations and case decisions may have come in since
+      const dailyCost = await db.refreshDailyCost(yesterday);
+
       // Fetch high-score intakes from yesterday
       const intakesResult = await db.listIntakes({
         startDate: yesterday,
@@ -149,7 +207,12 @@ class Scheduler {
           notes: msg.notes || undefined,
           createdAt: msg.createdAt
         })),
-        statusSummary
+        statusSummary,
+        cost: dailyCost ? {
+          total: dailyCost.totalCost,
+          perIntake: dailyCost.costPerIntake,
+          perAcceptedCase: dailyCost.costPerAcceptedCase
+        } : undefined
       });
 
       logger.info({
@@ -1,30 +1,37 @@
 /**
  * HALCYON AI RECEPTIONIST - SMS SERVICE
  *
- * Handles sending SMS messages via Twilio
+ * Handles sending SMS messages through the configured telephony provider
+ * (Twilio Messaging by default - see TELEPHONY_PROVIDER)
  */
 
-import twilio from 'twilio';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { localizeTimeframe, type CallLanguage } from './language.js';
+import { getTelephonyProvider } from './telephony.js';
 
 export class SMSService {
-  private client: twilio.Twilio;
-
-  constructor() {
-    this.client = twilio(config.twilio.accountSid, config.twilio.authToken);
-  }
-
   /**
-   * Send confirmation SMS after intake call
+   * Send confirmation SMS after intake call (in the language the call was held in)
    */
   async sendConfirmation(
     toPhone: string,
     firstName: string,
     intakeId: string,
-    callbackTimeframe: string
-  ): Promise<void> {
-    const message = `Hi ${firstName}, thank you for calling ${config.firm.name} about your disability case.
+    callbackTimeframe: string,
+    language: CallLanguage = 'en'
+  ): Promise<boolean> {
+    const message = language === 'es'
+      ? `Hola ${firstName}, gracias por llamar a ${config.firm.name} sobre su caso de incapacidad.
+
+Su número de referencia es: ${intakeId}
+
+Un abogado revisará su información y un miembro de nuestro equipo que habla español se comunicará con usted dentro de ${localizeTimeframe(callbackTimeframe, language)}.
+
+¿Preguntas? Responda a este mensaje o llame al ${config.firm.phone}.
+
+- Equipo de ${config.firm.name}`
+      : `Hi ${firstName}, thank you for calling ${config.firm.name} about your disability case.
 
 Your reference number is: ${intakeId}
 
@@ -34,7 +41,7 @@ Questions? Reply to this message or call ${config.firm.phone}.
 
 - ${config.firm.name} Team`;
 
-    await this.sendSMS(toPhone, message);
+    return this.sendSMS(toPhone, message);
   }
 
   /**
@@ -86,44 +93,29 @@ Please reply to this message with questions.
 
   /**
    * Send generic SMS
+   * @returns Whether a message actually went out (false when SMS is disabled)
    */
-  private async sendSMS(to: string, body: string): Promise<void> {
+  private async sendSMS(to: string, body: string): Promise<boolean> {
     if (!config.sms.enabled) {
       logger.info({ event: 'sms_disabled', to });
-      return;
+      return false;
     }
 
     try {
       // Format phone number
       const formattedTo = this.formatPhoneNumber(to);
 
-      // Use Messaging Service if configured, otherwise fall back to phone number
-      const messageOptions: {
-        to: string;
-        body: string;
-        messagingServiceSid?: string;
-        from?: string;
-      } = {
-        to: formattedTo,
-        body
-      };
-
-      if (config.twilio.messagingServiceSid) {
-        messageOptions.messagingServiceSid = config.twilio.messagingServiceSid;
-        logger.info({ event: 'sms_using_messaging_service', serviceSid: config.twilio.messagingServiceSid });
-      } else {
-        messageOptions.from = config.twilio.phoneNumber;
-      }
-
-      const result = await this.client.messages.create(messageOptions);
+      const telephony = getTelephonyProvider();
+      const result = await telephony.sendSms(formattedTo, body);
 
       logger.info({
         event: 'sms_sent',
-        messageSid: result.sid,
+        messageSid: result.id,
         to: formattedTo,
         status: result.status,
-        usingMessagingService: !!config.twilio.messagingServiceSid
+        provider: telephony.name
       });
+      return true;
     } catch (error) {
       logger.error({
         event: 'sms_failed',
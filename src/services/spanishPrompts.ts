@@ -0,0 +1,196 @@
+/**
+ * HALCYON AI RECEPTIONIST - SPANISH PROMPTS & TOOLS
+ *
+ * Spanish-language layer over the intake prompt: conversation rules, the
+ * scripted lines in Spanish, and Spanish tool descriptions. Tool names, enum
+ * values and recorded data stay in English so staff and scoring can use them.
+ */
+
+import { config } from '../config/index.js';
+import type { CallLanguage } from './language.js';
+
+export const SPANISH_INSTRUCTIONS = `
+
+## IDIOMA: ESPAÑOL
+Esta llamada se atiende en ESPAÑOL. Hable siempre en español, con un trato respetuoso de "usted", aunque las instrucciones anteriores estén en inglés.
+- Use estas frases en lugar de las versiones en inglés:
+  - Saludo: "Gracias por llamar a ${config.firm.name}. Le habla Halcyon, la asistente virtual. Esta llamada puede ser grabada para fines de calidad. ¿En qué le puedo ayudar hoy?"
+  - Recado: "Con gusto le ayudo a programar una llamada de regreso. Permítame tomar algunos datos."
+  - Admisión: "Con gusto le ayudo. Necesito hacerle algunas preguntas para ver si podemos ayudarle con su reclamo de Seguro Social por Incapacidad. ¿Tiene unos 10 minutos para hablar?"
+  - Consentimiento de mensajes de texto: "Antes de terminar, me gustaría enviarle un mensaje de texto con nuestra información de contacto y un número de referencia de su llamada. ¿Está bien si le envío ese mensaje a este número?"
+  - Si acepta: "Perfecto, se lo envío enseguida. Puede responder STOP en cualquier momento si prefiere no recibir mensajes."
+- Si menciona una crisis o pensamientos suicidas, dé de inmediato la línea 988 (oprima 2 para español) y pregunte si está a salvo
+- Sobre honorarios: no cobramos nada a menos que gane su caso; el honorario es el 25% de los beneficios atrasados
+- Nunca dé asesoría legal; diga que un abogado le contestará sus preguntas legales
+- Al registrar datos con las funciones, escriba los valores EN INGLÉS (condiciones, medicamentos, trabajos, notas) para que el equipo pueda leerlos. Los nombres propios se escriben tal como los dice la persona
+- Avise a la persona que un miembro del equipo que habla español le devolverá la llamada`;
+
+/**
+ * Instructions for switching an English session to Spanish mid-call
+ */
+export const SWITCH_TO_SPANISH_NOTE = '[SYSTEM: The caller is speaking Spanish. From now on, speak only Spanish with them (use "usted"). Briefly acknowledge in Spanish and continue from where you are - do not restart the conversation.]';
+
+// Spanish tool descriptions - function and parameter names are unchanged
+const TOOL_DESCRIPTIONS_ES: Record<string, { description: string; parameters?: Record<string, string> }> = {
+  record_demographics: {
+    description: 'Registra los datos básicos de la persona que llama',
+    parameters: {
+      first_name: 'Nombre de la persona',
+      last_name: 'Apellido(s) de la persona',
+      date_of_birth: 'Fecha de nacimiento en formato AAAA-MM-DD',
+      phone: 'Mejor número de teléfono para comunicarse',
+      email: 'Correo electrónico (opcional)',
+      city: 'Ciudad donde vive',
+      state: 'Estado donde vive'
+    }
+  },
+  record_education: {
+    description: 'Registra el nivel de estudios de la persona',
+    parameters: {
+      level: 'Nivel máximo de estudios: illiterate (no sabe leer/escribir), marginal (6.º grado o menos), limited (7.º a 11.º grado), high_school (GED o diploma), college (universidad o más)',
+      details: 'Detalles adicionales en inglés (p. ej., "completed 9th grade")'
+    }
+  },
+  record_medical_conditions: {
+    description: 'Registra las condiciones médicas de la persona (valores en inglés)',
+    parameters: {
+      conditions: 'Lista de condiciones médicas que le impiden trabajar',
+      severity: 'Gravedad general de las condiciones',
+      duration_months: 'Cuántos meses ha tenido estas condiciones',
+      treatments: 'Lista de tratamientos (cirugías, inyecciones, terapia, etc.)',
+      hospitalizations: 'Número de hospitalizaciones en los últimos 12 meses'
+    }
+  },
+  record_medications: {
+    description: 'Registra los medicamentos actuales de la persona (valores en inglés)',
+    parameters: {
+      medications: 'Lista de medicamentos que toma actualmente',
+      side_effects: 'Efectos secundarios (somnolencia, mareos, problemas de concentración, etc.)'
+    }
+  },
+  record_functional_limitations: {
+    description: 'Registra las limitaciones funcionales de la persona',
+    parameters: {
+      sitting_minutes: 'Cuántos minutos puede estar sentada antes de tener que levantarse',
+      standing_minutes: 'Cuántos minutos puede estar de pie en un lugar',
+      walking_blocks: 'Cuántas cuadras puede caminar sin detenerse',
+      lifting_pounds: 'Peso máximo que puede levantar y cargar, en libras',
+      concentration_issues: 'Si tiene problemas de concentración',
+      memory_issues: 'Si tiene problemas de memoria',
+      social_difficulties: 'Si tiene dificultad para estar con otras personas',
+      expected_absences: 'Días al mes que esperaría faltar al trabajo',
+      needs_to_lie_down: 'Si necesita acostarse durante el día',
+      assistive_devices: 'Aparatos de apoyo que usa (bastón, andadera, silla de ruedas, faja, etc.)'
+    }
+  },
+  record_work_history: {
+    description: 'Registra el historial de trabajo de la persona (valores en inglés)',
+    parameters: {
+      jobs: 'Lista de trabajos con puesto y años trabajados',
+      heaviest_lifting: 'Mayor exigencia física: sedentary (oficina), light (10-20 lb), medium (25-50 lb), heavy (50-100 lb), very_heavy (más de 100 lb)',
+      total_work_years: 'Total de años trabajados',
+      last_work_date: 'Cuándo trabajó por última vez (AAAA-MM-DD o descripción como "6 months ago")',
+      currently_working: 'Si trabaja actualmente'
+    }
+  },
+  record_application_status: {
+    description: 'Registra el estado de su solicitud ante el Seguro Social',
+    parameters: {
+      has_applied: 'Si ya solicitó beneficios por incapacidad del Seguro Social',
+      status: 'Estado actual de la solicitud',
+      denial_date: 'Fecha de la negación más reciente (si aplica)',
+      hearing_date: 'Fecha de la audiencia programada (si aplica)'
+    }
+  },
+  record_sms_consent: {
+    description: 'Registra si la persona aceptó recibir mensajes de texto. SE DEBE llamar antes de terminar la llamada.',
+    parameters: {
+      consent_given: 'Si la persona aceptó recibir mensajes de texto',
+      phone_number: 'Número al que aceptó recibir mensajes'
+    }
+  },
+  record_assessment: {
+    description: 'Calcula y registra la evaluación final del caso. Llámela después de reunir toda la información para obtener la puntuación y la recomendación.',
+    parameters: {
+      notes: 'Notas adicionales sobre la persona o el caso, en inglés'
+    }
+  },
+  flag_urgent: {
+    description: 'Marca el caso como urgente (crisis mencionada, plazo por vencer o audiencia programada)',
+    parameters: {
+      reason: 'Motivo de la urgencia, en inglés',
+      crisis_mentioned: 'Si la persona mencionó una crisis o pensamientos suicidas'
+    }
+  },
+  request_human_transfer: {
+    description: 'La persona pidió hablar con un ser humano',
+    parameters: {
+      reason: 'Motivo de la solicitud, en inglés'
+    }
+  },
+  end_call: {
+    description: 'Marca la llamada como terminada',
+    parameters: {
+      outcome: 'Cómo terminó la llamada',
+      send_sms: 'Si se debe enviar el mensaje de texto de confirmación'
+    }
+  },
+  record_callback_request: {
+    description: 'Registra una solicitud de llamada de regreso para llamadas que no son de admisión (cliente actual, facturación, estado del caso, documentos, referencias, etc.). Escriba el motivo y las notas en inglés.',
+    parameters: {
+      caller_name: 'Nombre de la persona que llama',
+      phone_number: 'Mejor número para devolverle la llamada',
+      purpose: 'Breve descripción en inglés de por qué llama y qué necesita',
+      category: 'Categoría de la solicitud',
+      is_urgent: 'Si la persona indicó que es urgente',
+      notes: 'Notas adicionales sobre la solicitud, en inglés'
+    }
+  },
+  verify_returning_caller: {
+    description: 'Verifica la identidad de una persona que ya ha llamado antes, antes de compartir cualquier dato de su expediente. Proporcione el dato que dio la persona.',
+    parameters: {
+      date_of_birth: 'Fecha de nacimiento que dio la persona, en formato AAAA-MM-DD',
+      reference_number: 'Número de referencia de una llamada anterior, tal como lo leyó la persona',
+      full_name: 'Nombre y apellido de la persona'
+    }
+  },
+  resume_intake: {
+    description: 'Continúa la admisión interrumpida de la persona verificada desde donde se cortó la llamada. Llámela solo después de que verify_returning_caller tuvo éxito y la persona aceptó continuar.'
+  }
+};
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: string;
+    properties: Record<string, { description?: string }>;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Tool definitions with descriptions in the call's language
+ */
+export function localizeTools<T extends ToolDefinition>(tools: readonly T[], language: CallLanguage): T[] {
+  if (language === 'en') return [...tools];
+
+  return tools.map(tool => {
+    const spanish = TOOL_DESCRIPTIONS_ES[tool.name];
+    if (!spanish) return tool;
+
+    const properties = Object.fromEntries(
+      Object.entries(tool.parameters.properties).map(([name, property]) => [
+        name,
+        spanish.parameters?.[name] ? { ...property, description: spanish.parameters[name] } : property
+      ])
+    );
+
+    return {
+      ...tool,
+      description: spanish.description,
+      parameters: { ...tool.parameters, properties }
+    };
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * HALCYON AI RECEPTIONIST - TELEPHONY PROVIDERS
+ *
+ * Carrier-neutral interface the intake engine talks to:
+ * - incoming call webhook parsing
+ * - media frame I/O over a WebSocket (base64 μ-law 8kHz in both directions)
+ * - hangup, redirect, warm transfer and SMS
+ *
+ * Adapters: Twilio Media Streams (twilioTelephony), a generic raw-WebSocket /
+ * SIP gateway (gatewayTelephony), and an in-memory provider for tests (memoryTelephony).
+ */
+
+import type { RawData } from 'ws';
+import { config } from '../config/index.js';
+import { twilioTelephony } from './twilioTelephony.js';
+import { gatewayTelephony } from './gatewayTelephony.js';
+import { memoryTelephony } from './memoryTelephony.js';
+
+export type TelephonyProviderName = 'twilio' | 'gateway' | 'memory';
+
+/**
+ * An inbound call as reported by the carrier's webhook
+ */
+export interface IncomingCall {
+  callSid: string;
+  from: string;
+  to: string;
+  status: string;
+  callerCity?: string;
+  callerState?: string;
+}
+
+/**
+ * First frame of a media session
+ */
+export interface MediaStart {
+  callSid: string;
+  streamId: string;
+  parameters: Record<string, string>;
+}
+
+/**
+ * Callbacks a provider raises while reading its media protocol
+ */
+export interface MediaEvents {
+  onStart(start: MediaStart): void | Promise<void>;
+  onAudio(payload: string, timestampMs?: number): void;  // Caller audio only
+  onDtmf(digit: string): void;
+  onMark(name: string): void;                            // Playback reached a mark we sent
+  onStop(): void | Promise<void>;
+  onClose(code: number, reason: string): void;
+  onError(error: Error): void;
+}
+
+/**
+ * Writing side of a media session
+ */
+export interface MediaConnection {
+  readonly isOpen: boolean;
+  sendAudio(payload: string): boolean;
+  sendMark(name: string): void;
+  clearAudio(): void;  // Drop audio queued for playback (barge-in)
+  close(): void;
+}
+
+/**
+ * Transport the media protocol runs over - a ws WebSocket or an in-memory socket
+ */
+export interface MediaSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  on(event: 'message', listener: (data: RawData) => void): unknown;
+  on(event: 'close', listener: (code: number, reason: Buffer) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+/**
+ * Staff ring group for a warm transfer
+ */
+export interface TransferTarget {
+  callId: string;
+  numbers: string[];
+  ringTimeoutSeconds: number;
+  callerId?: string;
+  whisper: string;  // Summary read to the staff member before bridging
+}
+
+export interface SmsResult {
+  id: string;
+  status: string;
+}
+
+export interface TelephonyProvider {
+  readonly name: TelephonyProviderName;
+
+  /** Whether redirect() runs our TwiML webhooks (e.g. the scripted fallback intake) */
+  readonly supportsTwimlRedirect: boolean;
+
+  /** Normalize the carrier's incoming call webhook body */
+  parseIncomingCall(body: Record<string, unknown>): IncomingCall;
+
+  /** Read the carrier's media protocol from a socket and return the writing side */
+  attachMedia(socket: MediaSocket, events: MediaEvents): MediaConnection;
+
+  /** End a live call, optionally after a delay so the AI can finish speaking */
+  hangup(callSid: string, delayMs?: number): Promise<boolean>;
+
+  /** Say a short message to the caller, then hang up */
+  endCallWithMessage(callSid: string, message: string): Promise<boolean>;
+
+  /** Hand a live call to another of our webhooks (scripted fallback, queue) */
+  redirect(callSid: string, url: string): Promise<boolean>;
+
+  /** Ring the staff group and bridge the caller to whoever answers */
+  transfer(callSid: string, target: TransferTarget, delayMs?: number): Promise<boolean>;
+
+  sendSms(to: string, body: string): Promise<SmsResult>;
+}
+
+/**
+ * Provider by name - defaults to TELEPHONY_PROVIDER (used for SMS and anything not tied to a live call)
+ */
+export function getTelephonyProvider(name: TelephonyProviderName = config.telephony.provider): TelephonyProvider {
+  switch (name) {
+    case 'gateway':
+      return gatewayTelephony;
+    case 'memory':
+      return memoryTelephony;
+    default:
+      return twilioTelephony;
+  }
+}
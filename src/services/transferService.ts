@@ -0,0 +1,279 @@
+/**
+ * HALCYON AI RECEPTIONIST - TRANSFER SERVICE
+ *
+ * Handles live warm transfers from the AI to a human staff member:
+ * - Hands the live call to the configured ring group through the call's telephony
+ *   provider (a <Dial> on Twilio, a transfer frame on the SIP gateway)
+ * - Whispers an intake summary to the staff member before bridging
+ * - Falls back to a callback request if nobody answers
+ * - Logs the attempt, ring time and result as activities on the intake
+ */
+
+import twilio from 'twilio';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { getTelephonyProvider, type TelephonyProviderName } from './telephony.js';
+import { db } from './database.js';
+import { emailService } from './emailService.js';
+import { TWIML_PHRASES, TWIML_VOICES, type CallLanguage } from './language.js';
+
+const { VoiceResponse } = twilio.twiml;
+
+const log = createLogger('transfer-service');
+
+const VOICE = 'Google.en-US-Neural2-F';
+
+// Forget transfers whose dial result never arrived (caller hung up mid-redirect, etc.)
+const PENDING_TRANSFER_TTL_MS = 10 * 60 * 1000;
+
+export interface TransferRequest {
+  callId: string;
+  callSid: string;
+  callerPhone: string;
+  callerName?: string;
+  reason?: string;
+  language?: CallLanguage;
+  telephony?: TelephonyProviderName;  // Carrier the call is on (default TELEPHONY_PROVIDER)
+  whisper: string;
+  transcript: Array<{ role: string; content: string; timestamp: Date }>;
+}
+
+interface PendingTransfer extends TransferRequest {
+  numbers: string[];
+  startedAt: Date;
+  answeredAt?: Date;
+}
+
+export type TransferResult = 'answered' | 'no_answer' | 'busy' | 'failed' | 'canceled';
+
+export interface TransferOutcome {
+  result: TransferResult;
+  language: CallLanguage;
+  unansweredMessage?: string;  // Said to the caller (in their language) before hanging up when nobody picked up
+}
+
+export class TransferService {
+  private pending = new Map<string, PendingTransfer>();
+
+  /**
+   * Check if live transfer is configured
+   */
+  isEnabled(): boolean {
+    return config.transfer.numbers.length > 0;
+  }
+
+  /**
+   * Redirect the live call to the staff ring group
+   * @param delayMs - Delay before redirecting so the AI can finish its sentence
+   */
+  async startTransfer(request: TransferRequest, delayMs: number = 4000): Promise<boolean> {
+    if (!this.isEnabled()) {
+      log.warn({ event: 'transfer_not_configured', callId: request.callId });
+      return false;
+    }
+
+    const numbers = [...config.transfer.numbers];
+    const transfer: PendingTransfer = {
+      ...request,
+      numbers,
+      startedAt: new Date()
+    };
+
+    this.pending.set(request.callId, transfer);
+    setTimeout(() => this.pending.delete(request.callId), PENDING_TRANSFER_TTL_MS).unref();
+
+    log.info({
+      event: 'transfer_starting',
+      callId: request.callId,
+      callSid: request.callSid,
+      ringGroupSize: numbers.length,
+      reason: request.reason
+    });
+
+    const redirected = await getTelephonyProvider(request.telephony).transfer(request.callSid, {
+      callId: request.callId,
+      numbers,
+      ringTimeoutSeconds: config.transfer.ringTimeoutSeconds,
+      callerId: config.transfer.callerId || undefined,
+      whisper: request.whisper
+    }, delayMs);
+
+    if (!redirected) {
+      // The call never reached the ring group - treat it like an unanswered transfer
+      await this.recordTransferResult(request.callId, 'failed');
+    }
+
+    return redirected;
+  }
+
+  /**
+   * TwiML played to the staff member who answers, before the caller is bridged
+   */
+  buildWhisper(callId: string): string {
+    const transfer = this.pending.get(callId);
+    const response = new VoiceResponse();
+
+    if (transfer && !transfer.answeredAt) {
+      transfer.answeredAt = new Date();
+    }
+
+    // Staff always hear the whisper in English - it says if the caller speaks another language
+    response.say(
+      { voice: VOICE },
+      transfer?.whisper || `Incoming transfer from the ${config.firm.name} intake line.`
+    );
+
+    return response.toString();
+  }
+
+  /**
+   * Handle the <Dial> action callback and return the TwiML the caller hears next
+   * @param dialStatus - Twilio DialCallStatus (completed, answered, no-answer, busy, failed, canceled)
+   * @param talkSeconds - Twilio DialCallDuration, if the staff member picked up
+   */
+  async completeTransfer(callId: string, dialStatus: string, talkSeconds?: number): Promise<string> {
+    const outcome = await this.recordTransferResult(callId, dialStatus, talkSeconds);
+    const response = new VoiceResponse();
+
+    if (outcome?.unansweredMessage) {
+      response.say(TWIML_VOICES[outcome.language], outcome.unansweredMessage);
+    }
+
+    response.hangup();
+    return response.toString();
+  }
+
+  /**
+   * Log the dial result and save a callback request if nobody answered
+   * (any carrier - Twilio's dial action or the SIP gateway's transfer status)
+   * @returns null if the transfer is unknown or already completed
+   */
+  async recordTransferResult(callId: string, dialStatus: string, talkSeconds?: number): Promise<TransferOutcome | null> {
+    const transfer = this.pending.get(callId);
+    this.pending.delete(callId);
+
+    const result = this.mapDialStatus(dialStatus);
+
+    if (!transfer) {
+      log.warn({ event: 'transfer_unknown_call', callId, dialStatus });
+      return null;
+    }
+
+    const endedAt = transfer.answeredAt || new Date();
+    const ringSeconds = Math.round((endedAt.getTime() - transfer.startedAt.getTime()) / 1000);
+
+    log.info({
+      event: 'transfer_completed',
+      callId,
+      result,
+      ringSeconds,
+      talkSeconds
+    });
+
+    await this.logTransferActivities(transfer, result, ringSeconds, talkSeconds);
+
+    const language = transfer.language || 'en';
+
+    if (result === 'answered') {
+      return { result, language };
+    }
+
+    await this.recordFallbackCallback(transfer, result);
+
+    return {
+      result,
+      language,
+      unansweredMessage: TWIML_PHRASES[language].transferUnanswered(config.firm.name)
+    };
+  }
+
+  private mapDialStatus(dialStatus: string): TransferResult {
+    switch (dialStatus) {
+      case 'completed':
+      case 'answered':
+        return 'answered';
+      case 'busy':
+        return 'busy';
+      case 'no-answer':
+        return 'no_answer';
+      case 'canceled':
+        return 'canceled';
+      default:
+        return 'failed';
+    }
+  }
+
+  /**
+   * Write the attempt and its outcome against the intake (if it has been saved yet)
+   */
+  private async logTransferActivities(
+    transfer: PendingTransfer,
+    result: TransferResult,
+    ringSeconds: number,
+    talkSeconds?: number
+  ): Promise<void> {
+    try {
+      const intake = await db.getIntakeByCallId(transfer.callId);
+      const intakeId = intake?.id || null;
+
+      await db.logActivity(intakeId, 'transfer_attempted', 'system', {
+        callId: transfer.callId,
+        reason: transfer.reason,
+        ringGroupSize: transfer.numbers.length,
+        startedAt: transfer.startedAt.toISOString()
+      });
+
+      await db.logActivity(intakeId, result === 'answered' ? 'transfer_answered' : 'transfer_unanswered', 'system', {
+        callId: transfer.callId,
+        result,
+        ringSeconds,
+        talkSeconds
+      });
+    } catch (error) {
+      log.error({ event: 'transfer_activity_log_failed', callId: transfer.callId, error });
+    }
+  }
+
+  /**
+   * Nobody picked up - save a callback request the same way record_callback_request does
+   */
+  private async recordFallbackCallback(transfer: PendingTransfer, result: TransferResult): Promise<void> {
+    const purpose = `Asked to speak with a team member - live transfer ${result.replace('_', ' ')}`;
+
+    try {
+      const messageId = await db.saveCallbackRequest({
+        callId: transfer.callId,
+        callerPhone: transfer.callerPhone || 'unknown',
+        callerName: transfer.callerName,
+        purpose,
+        category: 'GENERAL',
+        priority: 'HIGH',
+        notes: transfer.reason ? `Transfer reason: ${transfer.reason}` : undefined,
+        language: transfer.language,
+        transcript: transfer.transcript
+      });
+
+      const sent = await emailService.sendMessageNotification({
+        id: messageId,
+        callerName: transfer.callerName,
+        callerPhone: transfer.callerPhone || 'unknown',
+        purpose,
+        category: 'GENERAL',
+        priority: 'HIGH',
+        notes: transfer.reason,
+        language: transfer.language,
+        createdAt: new Date()
+      });
+      if (sent) {
+        await db.recordCallMessage(transfer.callId, 'email');
+      }
+
+      log.info({ event: 'transfer_fallback_callback_saved', callId: transfer.callId, messageId });
+    } catch (error) {
+      log.error({ event: 'transfer_fallback_callback_failed', callId: transfer.callId, error });
+    }
+  }
+}
+
+// Export singleton instance
+export const transferService = new TransferService();
@@ -1,7 +1,7 @@
 /**
  * HALCYON AI RECEPTIONIST - TWILIO SERVICE
  *
- * Handles Twilio API operations like hanging up calls
+ * Handles Twilio API operations like hanging up and redirecting calls
  */
 
 import twilio from 'twilio';
@@ -50,3 +50,66 @@ export async function hangupCall(callSid: string, delayMs: number = 3000): Promi
     return false;
   }
 }
+
+/**
+ * Redirect an active call to new TwiML (e.g. a <Dial> for live transfer)
+ * @param callSid - The Twilio Call SID
+ * @param twiml - TwiML document the call should execute next
+ * @param delayMs - Optional delay before redirecting (default: 3000ms to let the AI finish speaking)
+ */
+export async function redirectCall(callSid: string, twiml: string, delayMs: number = 3000): Promise<boolean> {
+  if (!callSid) {
+    logger.warn({ event: 'redirect_skipped', reason: 'No callSid provided' });
+    return false;
+  }
+
+  if (delayMs > 0) {
+    logger.info({ event: 'redirect_scheduled', callSid, delayMs });
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  try {
+    logger.info({ event: 'redirect_initiated', callSid });
+
+    await twilioClient.calls(callSid).update({ twiml });
+
+    logger.info({ event: 'redirect_success', callSid });
+    return true;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ event: 'redirect_failed', callSid, error: errorMessage });
+    return false;
+  }
+}
+
+/**
+ * Point an active call at a new webhook URL (e.g. take a caller out of the overflow queue)
+ * @param callSid - The Twilio Call SID
+ * @param url - Webhook Twilio should POST to for the call's next TwiML
+ */
+export async function redirectCallToUrl(callSid: string, url: string): Promise<boolean> {
+  try {
+    logger.info({ event: 'redirect_initiated', callSid, url });
+
+    await twilioClient.calls(callSid).update({ url, method: 'POST' });
+
+    logger.info({ event: 'redirect_success', callSid });
+    return true;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ event: 'redirect_failed', callSid, error: errorMessage });
+    return false;
+  }
+}
+
+/**
+ * Say a short message to the caller, then hang up
+ * Replaces whatever the call is doing (e.g. an AI media stream)
+ */
+export async function endCallWithMessage(callSid: string, message: string): Promise<boolean> {
+  const response = new twilio.twiml.VoiceResponse();
+  response.say({ voice: 'Google.en-US-Neural2-F' }, message);
+  response.hangup();
+
+  return redirectCall(callSid, response.toString(), 0);
+}
@@ -0,0 +1,217 @@
+/**
+ * HALCYON AI RECEPTIONIST - TWILIO TELEPHONY ADAPTER
+ *
+ * TelephonyProvider for Twilio Voice:
+ * - Media Streams JSON protocol (start/media/dtmf/mark/stop)
+ * - call control through the REST API (twilioService)
+ * - warm transfer as a <Dial> to the ring group with a whisper URL
+ * - SMS through the Messaging Service or our Twilio number
+ */
+
+import { WebSocket, type RawData } from 'ws';
+import twilio from 'twilio';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { hangupCall, redirectCall, redirectCallToUrl, endCallWithMessage } from './twilioService.js';
+import type {
+  TelephonyProvider,
+  IncomingCall,
+  MediaSocket,
+  MediaEvents,
+  MediaConnection,
+  TransferTarget,
+  SmsResult
+} from './telephony.js';
+
+const { VoiceResponse } = twilio.twiml;
+
+interface TwilioMediaMessage {
+  event: string;
+  sequenceNumber?: string;
+  media?: {
+    track: string;
+    chunk: string;
+    timestamp: string;
+    payload: string; // Base64 encoded audio (mulaw 8kHz)
+  };
+  start?: {
+    streamSid: string;
+    accountSid: string;
+    callSid: string;
+    tracks: string[];
+    customParameters: Record<string, string>;
+  };
+  stop?: {
+    accountSid: string;
+    callSid: string;
+  };
+  mark?: {
+    name: string;
+  };
+  dtmf?: {
+    track: string;
+    digit: string;
+  };
+}
+
+export class TwilioTelephonyProvider implements TelephonyProvider {
+  readonly name = 'twilio' as const;
+  readonly supportsTwimlRedirect = true;
+  private client: twilio.Twilio;
+
+  constructor() {
+    this.client = twilio(config.twilio.accountSid, config.twilio.authToken);
+  }
+
+  parseIncomingCall(body: Record<string, unknown>): IncomingCall {
+    const field = (name: string) => typeof body[name] === 'string' ? body[name] as string : '';
+
+    return {
+      callSid: field('CallSid'),
+      from: field('From'),
+      to: field('To'),
+      status: field('CallStatus'),
+      callerCity: field('CallerCity') || undefined,
+      callerState: field('CallerState') || undefined
+    };
+  }
+
+  attachMedia(socket: MediaSocket, events: MediaEvents): MediaConnection {
+    let streamSid: string | null = null;
+
+    const send = (message: Record<string, unknown>): boolean => {
+      if (!streamSid || socket.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify({ ...message, streamSid }));
+      return true;
+    };
+
+    socket.on('message', async (data: RawData) => {
+      try {
+        const message: TwilioMediaMessage = JSON.parse(data.toString());
+
+        switch (message.event) {
+          case 'connected':
+            logger.debug({ event: 'twilio_stream_connected' });
+            break;
+
+          case 'start':
+            streamSid = message.start?.streamSid || null;
+            await events.onStart({
+              callSid: message.start?.callSid || '',
+              streamId: streamSid || '',
+              parameters: message.start?.customParameters || {}
+            });
+            break;
+
+          case 'media':
+            // Inbound-only streams omit the track; outbound frames are our own audio echoed back
+            if (message.media && message.media.track !== 'outbound') {
+              events.onAudio(message.media.payload, parseInt(message.media.timestamp, 10));
+            }
+            break;
+
+          case 'dtmf':
+            if (message.dtmf?.digit) {
+              events.onDtmf(message.dtmf.digit);
+            }
+            break;
+
+          case 'mark':
+            if (message.mark?.name) {
+              events.onMark(message.mark.name);
+            }
+            break;
+
+          case 'stop':
+            await events.onStop();
+            break;
+
+          default:
+            logger.debug({ event: 'unknown_twilio_event', eventType: message.event });
+        }
+      } catch (error) {
+        logger.error({ event: 'message_parse_error', error });
+      }
+    });
+
+    socket.on('error', error => events.onError(error));
+    socket.on('close', (code, reason) => events.onClose(code, reason.toString()));
+
+    return {
+      get isOpen() {
+        return !!streamSid && socket.readyState === WebSocket.OPEN;
+      },
+      sendAudio: payload => send({ event: 'media', media: { payload } }),
+      sendMark: name => { send({ event: 'mark', mark: { name } }); },
+      clearAudio: () => { send({ event: 'clear' }); },
+      close: () => socket.close()
+    };
+  }
+
+  hangup(callSid: string, delayMs?: number): Promise<boolean> {
+    return hangupCall(callSid, delayMs);
+  }
+
+  endCallWithMessage(callSid: string, message: string): Promise<boolean> {
+    return endCallWithMessage(callSid, message);
+  }
+
+  redirect(callSid: string, url: string): Promise<boolean> {
+    return redirectCallToUrl(callSid, url);
+  }
+
+  /**
+   * Redirect the live call to a <Dial> against the ring group - the whisper
+   * URL reads the summary, the dial action reports the result
+   */
+  transfer(callSid: string, target: TransferTarget, delayMs?: number): Promise<boolean> {
+    const response = new VoiceResponse();
+    const dial = response.dial({
+      timeout: target.ringTimeoutSeconds,
+      callerId: target.callerId || undefined,
+      action: this.buildUrl('/twilio/transfer-status', target.callId),
+      method: 'POST'
+    });
+
+    const whisperUrl = this.buildUrl('/twilio/transfer-whisper', target.callId);
+    for (const number of target.numbers) {
+      dial.number({ url: whisperUrl, method: 'POST' }, number);
+    }
+
+    return redirectCall(callSid, response.toString(), delayMs);
+  }
+
+  /**
+   * Send through the Messaging Service if configured, otherwise from our phone number
+   */
+  async sendSms(to: string, body: string): Promise<SmsResult> {
+    const messageOptions: {
+      to: string;
+      body: string;
+      messagingServiceSid?: string;
+      from?: string;
+    } = {
+      to,
+      body
+    };
+
+    if (config.twilio.messagingServiceSid) {
+      messageOptions.messagingServiceSid = config.twilio.messagingServiceSid;
+      logger.info({ event: 'sms_using_messaging_service', serviceSid: config.twilio.messagingServiceSid });
+    } else {
+      messageOptions.from = config.twilio.phoneNumber;
+    }
+
+    const result = await this.client.messages.create(messageOptions);
+    return { id: result.sid, status: result.status };
+  }
+
+  private buildUrl(path: string, callId: string): string {
+    const url = new URL(path, config.server.publicUrl);
+    url.searchParams.set('callId', callId);
+    return url.toString();
+  }
+}
+
+// Export singleton instance
+export const twilioTelephony = new TwilioTelephonyProvider();
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TELEPHONY_SAMPLE_RATE,
+  REALTIME_PCM_SAMPLE_RATE,
+  WAV_FORMAT_PCM,
+  WAV_FORMAT_MULAW,
+  decodeMulaw,
+  encodeMulaw,
+  decodeAlaw,
+  encodeAlaw,
+  pcm16FromBuffer,
+  pcm16ToBuffer,
+  resample,
+  buildWavHeader,
+  encodeWav,
+  rmsLevel
+} from './audioCodec.js';
+
+// 16-bit values G.711 doesn't clip, in steps small enough to land in every segment
+function sampleSweep(): Int16Array {
+  const values: number[] = [];
+  for (let value = -32000; value <= 32000; value += 37) {
+    values.push(value);
+  }
+  return Int16Array.from(values);
+}
+
+// Half a quantization step (plus rounding). Steps are 1/16 of the segment's lower bound -
+// μ-law segments are measured from the biased magnitude, A-law ones start at 16
+function mulawError(sample: number): number {
+  return (Math.abs(sample) + 0x84) / 32 + 1;
+}
+
+function alawError(sample: number): number {
+  return Math.max(16, Math.abs(sample) / 16) / 2 + 1;
+}
+
+function tone(frequency: number, sampleRate: number, amplitude: number, count: number): Int16Array {
+  return Int16Array.from({ length: count }, (_, i) => Math.round(amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate)));
+}
+
+describe('G.711', () => {
+  it('round-trips μ-law within quantization error', () => {
+    const samples = sampleSweep();
+    const decoded = decodeMulaw(encodeMulaw(samples));
+
+    samples.forEach((sample, i) => {
+      expect(Math.abs(decoded[i] - sample)).toBeLessThanOrEqual(mulawError(sample));
+    });
+  });
+
+  it('round-trips A-law within quantization error', () => {
+    const samples = sampleSweep();
+    const decoded = decodeAlaw(encodeAlaw(samples));
+
+    samples.forEach((sample, i) => {
+      expect(Math.abs(decoded[i] - sample)).toBeLessThanOrEqual(alawError(sample));
+    });
+  });
+
+  it('re-encodes every decoded code to itself', () => {
+    // μ-law 0x7f is negative zero, which encodes as positive zero (0xff)
+    const mulawCodes = Buffer.from(Array.from({ length: 256 }, (_, code) => code).filter(code => code !== 0x7f));
+    const alawCodes = Buffer.from(Array.from({ length: 256 }, (_, code) => code));
+
+    expect(encodeMulaw(decodeMulaw(mulawCodes))).toEqual(mulawCodes);
+    expect(encodeAlaw(decodeAlaw(alawCodes))).toEqual(alawCodes);
+  });
+
+  it('encodes silence as the codec zero codes', () => {
+    const silence = new Int16Array(4);
+
+    expect([...encodeMulaw(silence)]).toEqual([0xff, 0xff, 0xff, 0xff]);
+    expect([...encodeAlaw(silence)]).toEqual([0xd5, 0xd5, 0xd5, 0xd5]);
+  });
+});
+
+describe('resample', () => {
+  it('triples the sample count from 8kHz to 24kHz', () => {
+    expect(resample(new Int16Array(160), TELEPHONY_SAMPLE_RATE, REALTIME_PCM_SAMPLE_RATE)).toHaveLength(480);
+    expect(resample(new Int16Array(161), TELEPHONY_SAMPLE_RATE, REALTIME_PCM_SAMPLE_RATE)).toHaveLength(483);
+  });
+
+  it('thirds the sample count from 24kHz to 8kHz, rounding down', () => {
+    expect(resample(new Int16Array(480), REALTIME_PCM_SAMPLE_RATE, TELEPHONY_SAMPLE_RATE)).toHaveLength(160);
+    expect(resample(new Int16Array(482), REALTIME_PCM_SAMPLE_RATE, TELEPHONY_SAMPLE_RATE)).toHaveLength(160);
+  });
+
+  it('returns the input unchanged at the same rate', () => {
+    const samples = Int16Array.from([1, 2, 3]);
+    expect(resample(samples, TELEPHONY_SAMPLE_RATE, TELEPHONY_SAMPLE_RATE)).toBe(samples);
+  });
+
+  it('interpolates up and averages down', () => {
+    expect([...resample(Int16Array.from([0, 300]), TELEPHONY_SAMPLE_RATE, REALTIME_PCM_SAMPLE_RATE)])
+      .toEqual([0, 100, 200, 300, 300, 300]);
+    expect([...resample(Int16Array.from([0, 300, 600, 900, 900, 900]), REALTIME_PCM_SAMPLE_RATE, TELEPHONY_SAMPLE_RATE)])
+      .toEqual([300, 900]);
+  });
+});
+
+describe('pcm16 buffers', () => {
+  it('writes samples little-endian', () => {
+    expect([...pcm16ToBuffer(Int16Array.from([1, -2, 0x1234]))]).toEqual([0x01, 0x00, 0xfe, 0xff, 0x34, 0x12]);
+  });
+
+  it('reads little-endian bytes, ignoring an odd trailing byte', () => {
+    expect([...pcm16FromBuffer(Buffer.from([0x01, 0x00, 0xfe, 0xff, 0x34, 0x12, 0x7f]))]).toEqual([1, -2, 0x1234]);
+  });
+
+  it('reads samples from an unaligned slice', () => {
+    const bytes = Buffer.from([0x00, 0x34, 0x12, 0xff, 0x7f]).subarray(1);
+    expect([...pcm16FromBuffer(bytes)]).toEqual([0x1234, 0x7fff]);
+  });
+});
+
+describe('WAV framing', () => {
+  it('writes the RIFF header fields', () => {
+    const header = buildWavHeader(8000, { sampleRate: TELEPHONY_SAMPLE_RATE, channels: 2 });
+
+    expect(header).toHaveLength(44);
+    expect(header.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(header.readUInt32LE(4)).toBe(36 + 8000);
+    expect(header.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(header.toString('ascii', 12, 16)).toBe('fmt ');
+    expect(header.readUInt32LE(16)).toBe(16);
+    expect(header.readUInt16LE(20)).toBe(WAV_FORMAT_PCM);
+    expect(header.readUInt16LE(22)).toBe(2);
+    expect(header.readUInt32LE(24)).toBe(8000);
+    expect(header.readUInt32LE(28)).toBe(32000);   // 8000 samples/s * 2 channels * 2 bytes
+    expect(header.readUInt16LE(32)).toBe(4);
+    expect(header.readUInt16LE(34)).toBe(16);
+    expect(header.toString('ascii', 36, 40)).toBe('data');
+    expect(header.readUInt32LE(40)).toBe(8000);
+  });
+
+  it('describes 8-bit μ-law audio', () => {
+    const header = buildWavHeader(160, { sampleRate: TELEPHONY_SAMPLE_RATE, bitsPerSample: 8, format: WAV_FORMAT_MULAW });
+
+    expect(header.readUInt16LE(20)).toBe(WAV_FORMAT_MULAW);
+    expect(header.readUInt32LE(28)).toBe(8000);
+    expect(header.readUInt16LE(32)).toBe(1);
+    expect(header.readUInt16LE(34)).toBe(8);
+  });
+
+  it('appends the samples after the header', () => {
+    const wav = encodeWav(Int16Array.from([1, -1]), REALTIME_PCM_SAMPLE_RATE);
+
+    expect(wav).toHaveLength(48);
+    expect(wav.readUInt32LE(40)).toBe(4);
+    expect(wav.readInt16LE(44)).toBe(1);
+    expect(wav.readInt16LE(46)).toBe(-1);
+  });
+});
+
+describe('rmsLevel', () => {
+  it('is 0 for silence and empty input', () => {
+    expect(rmsLevel(new Int16Array(160))).toBe(0);
+    expect(rmsLevel(new Int16Array(0))).toBe(0);
+  });
+
+  it('is about 0.707 for a full-scale sine tone', () => {
+    expect(rmsLevel(tone(1000, TELEPHONY_SAMPLE_RATE, 32767, 8000))).toBeCloseTo(Math.SQRT1_2, 3);
+  });
+});
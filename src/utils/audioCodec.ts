@@ -0,0 +1,200 @@
+/**
+ * HALCYON AI RECEPTIONIST - AUDIO CODEC
+ *
+ * Audio conversion shared by the conversation backends, speech detection and
+ * local recording:
+ * - G.711 μ-law / A-law <-> 16-bit linear PCM
+ * - Resampling between the 8kHz telephone rate and 16/24kHz model rates
+ * - WAV framing
+ * - RMS level
+ *
+ * PCM samples are Int16Array; encoded audio and PCM byte streams are Buffers (little-endian).
+ */
+
+export const TELEPHONY_SAMPLE_RATE = 8000;  // Carrier media streams: 8kHz G.711
+export const REALTIME_PCM_SAMPLE_RATE = 24000;  // OpenAI pcm16 audio and "pcm" speech output
+
+// WAV fmt chunk audio formats
+export const WAV_FORMAT_PCM = 1;
+export const WAV_FORMAT_ALAW = 6;
+export const WAV_FORMAT_MULAW = 7;
+
+// G.711 μ-law -> 16-bit linear PCM lookup table
+const MULAW_TO_PCM = new Int16Array(256);
+for (let i = 0; i < 256; i++) {
+  const u = ~i & 0xff;
+  const sign = u & 0x80;
+  const exponent = (u >> 4) & 0x07;
+  const mantissa = u & 0x0f;
+  const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+  MULAW_TO_PCM[i] = sign ? -magnitude : magnitude;
+}
+
+// G.711 A-law -> 16-bit linear PCM lookup table
+const ALAW_TO_PCM = new Int16Array(256);
+for (let i = 0; i < 256; i++) {
+  const a = i ^ 0x55;
+  const segment = (a & 0x70) >> 4;
+  let magnitude = ((a & 0x0f) << 4) + (segment === 0 ? 8 : 0x108);
+  if (segment > 1) {
+    magnitude <<= segment - 1;
+  }
+  ALAW_TO_PCM[i] = a & 0x80 ? magnitude : -magnitude;
+}
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+export function decodeMulaw(bytes: Buffer): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = MULAW_TO_PCM[bytes[i]];
+  }
+  return samples;
+}
+
+export function encodeMulaw(samples: Int16Array): Buffer {
+  const bytes = Buffer.alloc(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    const sign = sample < 0 ? 0x80 : 0;
+    const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+    let exponent = 7;
+    for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+      exponent--;
+    }
+
+    const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+    bytes[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
+  return bytes;
+}
+
+export function decodeAlaw(bytes: Buffer): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = ALAW_TO_PCM[bytes[i]];
+  }
+  return samples;
+}
+
+export function encodeAlaw(samples: Int16Array): Buffer {
+  const bytes = Buffer.alloc(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    let value = samples[i] >> 3;
+    let mask = 0xd5;
+    if (value < 0) {
+      mask = 0x55;
+      value = -value - 1;
+    }
+
+    const segment = ALAW_SEGMENT_ENDS.findIndex(end => value <= end);
+    if (segment === -1) {
+      bytes[i] = 0x7f ^ mask;
+      continue;
+    }
+
+    const mantissa = (segment < 2 ? value >> 1 : value >> segment) & 0x0f;
+    bytes[i] = ((segment << 4) | mantissa) ^ mask;
+  }
+  return bytes;
+}
+
+/**
+ * Little-endian PCM16 bytes -> samples (an odd trailing byte is ignored)
+ */
+export function pcm16FromBuffer(bytes: Buffer): Int16Array {
+  const samples = new Int16Array(bytes.length >> 1);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = bytes.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+export function pcm16ToBuffer(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
+
+/**
+ * Change the sample rate of mono PCM. Downsampling averages the input samples
+ * each output sample covers (a cheap low-pass against aliasing); upsampling
+ * interpolates linearly. Output length is floor(input * toRate / fromRate).
+ */
+export function resample(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const out = new Int16Array(Math.floor(samples.length / ratio));
+
+  if (ratio > 1) {
+    for (let i = 0; i < out.length; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.max(start + 1, Math.min(samples.length, Math.floor((i + 1) * ratio)));
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += samples[j];
+      }
+      out[i] = Math.round(sum / (end - start));
+    }
+  } else {
+    for (let i = 0; i < out.length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = samples[Math.min(index + 1, samples.length - 1)];
+      out[i] = Math.round(samples[index] + (next - samples[index]) * (position - index));
+    }
+  }
+
+  return out;
+}
+
+/**
+ * 44-byte RIFF/WAVE header for dataLength bytes of audio
+ */
+export function buildWavHeader(
+  dataLength: number,
+  options: { sampleRate: number; channels?: number; bitsPerSample?: number; format?: number }
+): Buffer {
+  const { sampleRate, channels = 1, bitsPerSample = 16, format = WAV_FORMAT_PCM } = options;
+  const blockAlign = channels * bitsPerSample / 8;
+  const header = Buffer.alloc(44);
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);                         // fmt chunk size
+  header.writeUInt16LE(format, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);   // Byte rate
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+/**
+ * Complete 16-bit PCM WAV file (interleave channels before calling for stereo)
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number, channels: number = 1): Buffer {
+  const data = pcm16ToBuffer(samples);
+  return Buffer.concat([buildWavHeader(data.length, { sampleRate, channels }), data]);
+}
+
+/**
+ * Root-mean-square level, 0 (silence) to 1 (full scale)
+ */
+export function rmsLevel(samples: Int16Array): number {
+  if (samples.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length) / 32768;
+}
@@ -0,0 +1,44 @@
+/**
+ * HALCYON AI RECEPTIONIST - DASHBOARD AUTHENTICATION
+ *
+ * preHandler for sensitive dashboard endpoints (call audio, live calls, outbound retries)
+ */
+
+import crypto from 'crypto';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+function extractKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-dashboard-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length);
+  }
+
+  return undefined;
+}
+
+/**
+ * Fastify preHandler - requires the DASHBOARD_API_KEY
+ * Fails closed: if no key is configured, the endpoint is unavailable
+ */
+export async function requireDashboardAuth(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!config.dashboard.apiKey) {
+    await reply.status(503).send({ error: 'Dashboard authentication is not configured (set DASHBOARD_API_KEY)' });
+    return;
+  }
+
+  const key = extractKey(request);
+  const expected = Buffer.from(config.dashboard.apiKey);
+  const actual = Buffer.from(key || '');
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    logger.warn({ event: 'dashboard_auth_failed', url: request.url, hasKey: !!key });
+    await reply.status(401).send({ error: 'Unauthorized' });
+  }
+}
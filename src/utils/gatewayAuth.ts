@@ -0,0 +1,31 @@
+/**
+ * HALCYON AI RECEPTIONIST - SIP GATEWAY AUTHENTICATION
+ *
+ * preHandler for the raw-WebSocket / SIP gateway's webhooks and media socket
+ */
+
+import crypto from 'crypto';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+/**
+ * Fastify preHandler - requires "Authorization: Bearer <GATEWAY_API_KEY>"
+ * Fails closed: if no key is configured, the gateway endpoints are unavailable
+ */
+export async function requireGatewayAuth(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!config.telephony.gatewayApiKey) {
+    await reply.status(503).send({ error: 'SIP gateway is not configured (set GATEWAY_API_KEY)' });
+    return;
+  }
+
+  const authorization = request.headers.authorization;
+  const key = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+  const expected = Buffer.from(config.telephony.gatewayApiKey);
+  const actual = Buffer.from(key);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    logger.warn({ event: 'gateway_auth_failed', url: request.url, hasKey: !!key });
+    await reply.status(401).send({ error: 'Unauthorized' });
+  }
+}
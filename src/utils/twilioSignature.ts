@@ -0,0 +1,116 @@
+/**
+ * HALCYON AI RECEPTIONIST - TWILIO REQUEST VALIDATION
+ *
+ * - preHandler that validates X-Twilio-Signature on webhook routes
+ * - Signed, short-lived tokens that authorize /media-stream connections
+ */
+
+import crypto from 'crypto';
+import twilio from 'twilio';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+/**
+ * Token used to sign/validate requests in the current mode
+ * (the real auth token in production, a local token in test mode)
+ */
+function getSigningToken(): string {
+  return config.twilio.signatureValidation === 'test'
+    ? config.twilio.testSigningToken
+    : config.twilio.authToken;
+}
+
+/**
+ * Rebuild the URL Twilio signed - our public URL plus the path and query string
+ * (the server usually sits behind a proxy, so the Host header can't be trusted)
+ */
+function getPublicRequestUrl(request: FastifyRequest): string {
+  return new URL(request.url, config.server.publicUrl).toString();
+}
+
+/**
+ * Generate the X-Twilio-Signature for a request (used by the test-mode signing script)
+ */
+export function signTwilioRequest(url: string, params: Record<string, string> = {}): string {
+  return twilio.getExpectedTwilioSignature(getSigningToken(), url, params);
+}
+
+/**
+ * Fastify preHandler - rejects webhook requests without a valid X-Twilio-Signature
+ */
+export async function validateTwilioSignature(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (config.twilio.signatureValidation === 'off') {
+    return;
+  }
+
+  const signature = request.headers['x-twilio-signature'];
+  const url = getPublicRequestUrl(request);
+
+  // Form-encoded POST bodies are part of the signature; GET params are already in the URL
+  const params = request.method === 'POST' && request.body && typeof request.body === 'object'
+    ? request.body as Record<string, string>
+    : {};
+
+  const valid = typeof signature === 'string' &&
+    twilio.validateRequest(getSigningToken(), signature, url, params);
+
+  if (!valid) {
+    logger.warn({
+      event: 'twilio_signature_invalid',
+      url,
+      hasSignature: typeof signature === 'string',
+      mode: config.twilio.signatureValidation
+    });
+    await reply.status(403).send({ error: 'Invalid Twilio signature' });
+  }
+}
+
+/**
+ * Issue a token for the /media-stream URL embedded in TwiML
+ * Format: <expiresAtUnixSeconds>.<hmac(callId:expiresAt)>
+ */
+export function createStreamToken(callId: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + config.twilio.streamTokenTtlSeconds;
+  return `${expiresAt}.${hmacStreamToken(callId, expiresAt)}`;
+}
+
+/**
+ * Check a /media-stream token against the callId it was issued for
+ */
+export function verifyStreamToken(callId: string, token: string): boolean {
+  const [expiresAtRaw, signature] = token.split('.');
+  const expiresAt = parseInt(expiresAtRaw, 10);
+
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(hmacStreamToken(callId, expiresAt));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Fastify preValidation hook for the /media-stream WebSocket upgrade
+ */
+export async function validateStreamToken(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (config.twilio.signatureValidation === 'off') {
+    return;
+  }
+
+  const query = request.query as { callId?: string; token?: string };
+
+  if (!query.callId || !query.token || !verifyStreamToken(query.callId, query.token)) {
+    logger.warn({ event: 'media_stream_token_invalid', callId: query.callId, hasToken: !!query.token });
+    await reply.status(401).send({ error: 'Invalid or expired stream token' });
+  }
+}
+
+function hmacStreamToken(callId: string, expiresAt: number): string {
+  return crypto
+    .createHmac('sha256', getSigningToken())
+    .update(`${callId}:${expiresAt}`)
+    .digest('hex');
+}